@@ -24,6 +24,9 @@ const ALLOW_WRITE = hasFlag("--allow-write") || hasFlag("--allow-all");
 const ALLOW_SENSITIVE = hasFlag("--allow-sensitive") || hasFlag("--allow-all");
 const NO_CONFIRM = hasFlag("--no-confirm");
 const EXPOSE_COOKIES = hasFlag("--expose-cookies");
+// Aliases and functions can run any command, which this server never sees, so
+// the extension only expands them when every tier they might use is allowed
+const ALLOW_DEFINITIONS = ALLOW_WRITE && ALLOW_SENSITIVE;
 const PORT = parseInt(getFlagValue("--port", "9876"), 10);
 const MCP_PORT = parseInt(getFlagValue("--mcp-port", "3001"), 10);
 const LOG_FILE = getFlagValue("--log-file", "audit.log");
@@ -56,26 +59,67 @@ function audit(entry: string): void {
 const NAVIGATE_COMMANDS = new Set(["navigate", "goto", "open"]);
 const WRITE_COMMANDS = new Set(["click", "focus", "type"]);
 const SENSITIVE_COMMANDS = new Set(["whoami"]);
+// Saved scripts persist in the extension, and run executes whatever a script holds
+const SCRIPT_COMMANDS = new Set(["write", "rm", "run"]);
+// Aliases and functions persist in the extension too
+const DEFINITION_COMMANDS = new Set(["alias", "unalias"]);
+
+type CommandTier = "read" | "navigate" | "write" | "sensitive";
+
+// Most privileged first — a line is tagged and confirmed by its highest tier
+const TIER_PRIORITY: CommandTier[] = ["write", "navigate", "sensitive", "read"];
+
+// Script keywords that can precede a command word ("if click x; then ...")
+const SCRIPT_KEYWORDS = new Set(["if", "then", "elif", "else", "while", "do"]);
+
+/**
+ * Command words of every command in a line: the first word of each statement
+ * (split on ;, &&, || and newlines) and after each | and $( , skipping script keywords.
+ * Quoting is ignored on purpose, so a quoted "| click" over-classifies rather
+ * than slipping a write command through.
+ */
+function getCommandWords(command: string): string[] {
+  return command
+    .split(/\$\(|[|;&\n]/)
+    .map((seg) => {
+      const words = seg.trim().toLowerCase().split(/\s+/);
+      while (words.length > 1 && SCRIPT_KEYWORDS.has(words[0])) words.shift();
+      return words[0] ?? "";
+    })
+    .filter(Boolean);
+}
 
-function getCommandTier(command: string): "read" | "navigate" | "write" | "sensitive" {
-  const cmd = command.trim().split(/\s+/)[0]?.toLowerCase() ?? "";
+function getWordTier(cmd: string): CommandTier {
+  // A command word like $CMD or a history recall (!!, !5, !cli) is only known after expansion in the extension
+  if (cmd.includes("$") || cmd.startsWith("!")) return "write";
   if (NAVIGATE_COMMANDS.has(cmd)) return "navigate";
-  if (WRITE_COMMANDS.has(cmd)) return "write";
+  if (WRITE_COMMANDS.has(cmd) || SCRIPT_COMMANDS.has(cmd) || DEFINITION_COMMANDS.has(cmd)) return "write";
+  // A function definition: greet() { ...; }
+  if (cmd.endsWith("()")) return "write";
   if (SENSITIVE_COMMANDS.has(cmd)) return "sensitive";
   return "read";
 }
 
+function getCommandTier(command: string): CommandTier {
+  const tiers = new Set(getCommandWords(command).map(getWordTier));
+  return TIER_PRIORITY.find((t) => tiers.has(t)) ?? "read";
+}
+
 function isCommandAllowed(command: string): { allowed: boolean; reason?: string } {
-  const tier = getCommandTier(command);
-  if (tier === "navigate" && !ALLOW_WRITE) {
+  const tiers = new Set(getCommandWords(command).map(getWordTier));
+  if (tiers.has("navigate") && !ALLOW_WRITE) {
     return { allowed: false, reason: "Navigation commands (navigate/open) are disabled. Start the MCP server with --allow-write or --allow-all." };
   }
-  if (tier === "write" && !ALLOW_WRITE) {
-    return { allowed: false, reason: "Write commands (click/focus/type) are disabled. Start the MCP server with --allow-write or --allow-all." };
+  if (tiers.has("write") && !ALLOW_WRITE) {
+    return { allowed: false, reason: "Write commands (click/focus/type, write/rm/run, alias/unalias) are disabled. Start the MCP server with --allow-write or --allow-all." };
   }
-  if (tier === "sensitive" && !ALLOW_SENSITIVE) {
+  if (tiers.has("sensitive") && !ALLOW_SENSITIVE) {
     return { allowed: false, reason: "Sensitive commands (whoami) are disabled. Start the MCP server with --allow-sensitive or --allow-all." };
   }
+  // Output saved with > skips redaction here and could be read back unredacted later
+  if (tiers.has("sensitive") && !EXPOSE_COOKIES && command.includes(">")) {
+    return { allowed: false, reason: "Redirecting sensitive command output (whoami > file) would bypass cookie redaction. Start the MCP server with --expose-cookies to allow it." };
+  }
   return { allowed: true };
 }
 
@@ -110,7 +154,9 @@ function confirmAction(description: string): Promise<boolean> {
 // ---- Sensitive Data Redaction ----
 
 function redactSensitiveOutput(command: string, output: string): string {
-  if (!SENSITIVE_COMMANDS.has(command.trim().split(/\s+/)[0]?.toLowerCase() ?? "")) {
+  // A script run may call whoami, so its transcript is redacted as well — and
+  // once aliases and functions are expanded, any command word may be one
+  if (!ALLOW_DEFINITIONS && !getCommandWords(command).some((cmd) => SENSITIVE_COMMANDS.has(cmd) || cmd === "run")) {
     return output;
   }
 
@@ -128,10 +174,16 @@ function redactSensitiveOutput(command: string, output: string): string {
 
 // ---- WebSocket Server (Extension Bridge) ----
 
+/** A RESULT from the extension: ANSI-free output (stdout, then stderr) and the exit status. */
+interface ExtensionResult {
+  result: string;
+  status: number;
+}
+
 let extensionClient: WebSocket | null = null;
 const pendingRequests = new Map<
   string,
-  { resolve: (result: string) => void; reject: (err: Error) => void; timer: ReturnType<typeof setTimeout> }
+  { resolve: (result: ExtensionResult) => void; reject: (err: Error) => void; timer: ReturnType<typeof setTimeout> }
 >();
 
 const wss = new WebSocketServer({ port: PORT, host: "127.0.0.1" });
@@ -182,7 +234,7 @@ wss.on("connection", (ws, req) => {
         if (pending) {
           clearTimeout(pending.timer);
           pendingRequests.delete(msg.id);
-          pending.resolve(msg.result ?? "");
+          pending.resolve({ result: msg.result ?? "", status: msg.status ?? 0 });
         }
       } else if (msg.type === "pong") {
         // Heartbeat response — ignore
@@ -209,7 +261,8 @@ wss.on("connection", (ws, req) => {
 
 // ---- Send Command to Extension ----
 
-function sendCommand(command: string): Promise<string> {
+/** Send a request to the extension and wait for its RESULT (matched by a generated id). */
+function sendRequest(message: Record<string, unknown>): Promise<ExtensionResult> {
   return new Promise((resolve, reject) => {
     if (!extensionClient || extensionClient.readyState !== 1) {
       reject(new Error("Extension not connected. Open the DOMShell side panel and run: connect <token>"));
@@ -226,16 +279,28 @@ function sendCommand(command: string): Promise<string> {
 
     extensionClient.send(
       JSON.stringify({
-        type: "EXECUTE",
+        ...message,
         id,
-        command,
+        allowDefinitions: ALLOW_DEFINITIONS,
+        allowSensitive: ALLOW_SENSITIVE,
+        exposeCookies: EXPOSE_COOKIES,
         allowedDomains: ALLOWED_DOMAINS.length > 0 ? ALLOWED_DOMAINS : undefined,
       })
     );
   });
 }
 
-async function executeWithSecurity(command: string): Promise<string> {
+/** `session` is the MCP session ID; the extension tags its command history with it. */
+function sendCommand(command: string, session?: string): Promise<ExtensionResult> {
+  return sendRequest({ type: "EXECUTE", command, session });
+}
+
+/** Ask the extension to complete the last word of `line`, as Tab does in the side panel. */
+function sendComplete(line: string): Promise<ExtensionResult> {
+  return sendRequest({ type: "COMPLETE", line });
+}
+
+async function executeWithSecurity(command: string, session?: string): Promise<string> {
   // Check tier
   const check = isCommandAllowed(command);
   if (!check.allowed) {
@@ -259,10 +324,12 @@ async function executeWithSecurity(command: string): Promise<string> {
   audit(`${tag}EXECUTE: ${command}`);
 
   try {
-    let result = await sendCommand(command);
-    result = redactSensitiveOutput(command, result);
+    const { result: output, status } = await sendCommand(command, session);
+    let result = redactSensitiveOutput(command, output);
+    // Non-zero exit status: say so, so the model doesn't mistake an error message for page content
+    if (status !== 0) result += `\n[exit status ${status}]`;
     const summary = result.length > 80 ? result.slice(0, 80) + "..." : result;
-    audit(`${tag}RESULT: ${summary}`);
+    audit(`${tag}RESULT${status !== 0 ? ` (status ${status})` : ""}: ${summary}`);
     return result;
   } catch (err: any) {
     audit(`${tag}ERROR: ${err.message}`);
@@ -270,6 +337,41 @@ async function executeWithSecurity(command: string): Promise<string> {
   }
 }
 
+/**
+ * Completion runs nothing, so it is read tier whatever the line is; it is
+ * still audited, and still refused outside the allowed domains.
+ */
+async function completeWithAudit(line: string): Promise<string> {
+  audit(`COMPLETE: ${line}`);
+  try {
+    const { result, status } = await sendComplete(line);
+    if (status !== 0) return result;
+    return result || "(no completions)";
+  } catch (err: any) {
+    audit(`ERROR: ${err.message}`);
+    return `Error: ${err.message}`;
+  }
+}
+
+/**
+ * Quote a tool argument so the extension takes it as one literal word: not
+ * split on spaces, ;, && or |, and without $VAR, $(...) or !history
+ * expansion. A ' inside is closed, written as "'" and reopened, as in sh.
+ */
+function quoteArg(value: string): string {
+  if (/^[\w@%+=:,.\/~-]+$/.test(value)) return value;
+  return `'${value.replace(/'/g, `'"'"'`)}'`;
+}
+
+/**
+ * An element argument as the extension should see it. Names and paths pass
+ * through as typed (so several names or $VARS still work); @css:/@xpath:
+ * selectors are quoted, since spaces, > and | are common in them.
+ */
+function elementArg(value: string): string {
+  return value.startsWith("@css:") || value.startsWith("@xpath:") ? quoteArg(value) : value;
+}
+
 // ---- MCP Server Factory ----
 // Each MCP client session gets its own McpServer instance.
 // All instances share the same WebSocket bridge to the Chrome extension.
@@ -283,13 +385,14 @@ WHEN TO USE DOMSHELL (prefer over native browser tools):
 - Finding elements: domshell_find (deep recursive) or domshell_grep (current directory)
 - Getting URLs/hrefs: domshell_cat on a link shows its URL, or domshell_find with --meta --type link
 - Interacting: domshell_click, domshell_focus, domshell_type
+- Unsure of a name, path or flag: domshell_complete with the line typed so far (like pressing Tab)
 
 TYPICAL WORKFLOW:
 1. Enter a tab: domshell_here (focused tab), domshell_cd with "%here%" (composable), or domshell_open (new tab)
 2. Understand structure: domshell_tree (overview), domshell_ls (children)
 3. Extract content: domshell_text (bulk text — much faster than multiple cat calls)
 4. Find specific elements: domshell_find with pattern or --type (e.g. --type link, --type button)
-5. Inspect element details: domshell_cat shows full metadata — AX role, DOM tag, href/src/id/class, text, outerHTML
+5. Inspect element details: domshell_cat shows full metadata — AX role, DOM tag, href/src/id/class, a CSS selector, text, outerHTML
 6. Interact: domshell_click, domshell_focus + domshell_type
 
 BROWSER HIERARCHY:
@@ -311,11 +414,14 @@ READING ELEMENT METADATA:
 - domshell_find with --text option shows visible text preview per result. Use "find --type link --meta --text" to get all URLs with their link text.
 
 IMPORTANT TIPS:
-- Element names are human-readable (e.g. "Sign_in_btn", "Search_input") not CSS selectors.
+- Element names are human-readable (e.g. "Sign_in_btn", "Search_input") not CSS selectors. When you already know a selector or XPath (from a test suite, say), pass it as "@css:#checkout-button" or "@xpath://table[2]" wherever a name goes (cd, cat, text, click, focus, submit, extract_table); it searches the whole document.
 - Use domshell_text for reading article content — it's one call vs. dozens of cat calls.
 - Use domshell_find --type link --meta to extract all URLs from a page.
 - Directories (navigation/, main/) are containers you cd into. Files (submit_btn, logo_link) are leaf elements you cat or click.
 - The AXTree auto-refreshes after clicks/navigation — no manual refresh needed.
+- Your working directory survives refreshes. If a directory on it disappears, the refresh message names it and you are moved to the deepest directory still there.
+- Content the accessibility tree leaves out (unlabelled divs holding prices, JSON-LD <script> blocks, hidden inputs) is in the raw DOM view: "cd @dom" switches to it at the current element, where ls/cd/cat/text/grep/find work on DOM elements named tag#id or tag.class (e.g. "find --type script --text" from @dom, "ls --meta" to see attributes). "cd @ax" goes back to the same place in the accessibility view.
+- For a page overview in one call, list an index directory: "ls @headings" (outline of the page), "ls @landmarks", "ls @forms", "ls @links", "ls @images", "ls @tables", "ls @dialogs". Each entry shows the real path it links to, and entries work as paths anywhere: "cd @tables/table_4091" then "extract_table", or "cat @links/home_link".
 
 EFFICIENT PATTERNS:
 1. Scoped Extraction: open URL → cd main/article → find --type heading (locate section) → cd section → text (content) + find --type link --meta (links)
@@ -323,7 +429,7 @@ EFFICIENT PATTERNS:
 3. Section Discovery: grep "section_name" (recursive: true) OR find "section_name". NOT ls --offset pagination (too many calls).
 4. Link Extraction: cd into the container with links → find --type link --meta. Use --text with a pattern to filter by visible text: find --type link --text "keyword" --meta.
 5. Form Interaction: find --type textbox → focus input → type "query" → click submit_button. If page doesn't navigate, use domshell_navigate as fallback.
-6. Path Resolution: All commands accept relative paths — text main/article/paragraph, cat nav/logo_link, click form/submit_btn. Saves cd round-trips.
+6. Path Resolution: All commands accept relative paths — text main/article/paragraph, cat nav/logo_link, click form/submit_btn. Saves cd round-trips. cat, text, extract_links and ls also take wildcards (*, ?, [abc], ** for any depth): text main/**/paragraph_* reads every paragraph in one call, with a header per match.
 7. Sibling Navigation: find --type heading "section" → cd container → ls --after section_heading -n 5 --text (elements after a heading). Combines with --type: ls --after intro --type link --meta.
 
 COMMAND CHAINING (grep is the linchpin):
@@ -344,6 +450,13 @@ DOMShell works like a filesystem. Use the same mental model as searching files o
 - ls --after/--before → filters siblings (like ls | grep in bash)
 - find --type X --meta → targeted search (like find -name "*.ext" in bash)
 - command | grep "pattern" → filter output lines (pipe operator, just like bash)
+- command | sort | uniq -c, | wc -l, | head/tail -n N, | cut -d= -f2, | sed 's/x/y/', | tr → reshape output before it reaches you
+- $VAR and $(command) → reuse values and output inside one call, e.g. cd $(grep -r results | head -n 1 | cut -f2)
+- for/while/if with test -e/-d → batch work into ONE domshell_execute call instead of many tool calls
+- command > ~/tmp/name (>> appends) → keep an intermediate result in the extension instead of carrying it yourself; read it back later with cat, grep PATTERN ~/tmp/name, head ~/tmp/name or pipes (cleared when the browser closes)
+- history [-n N] → every command you (and the user) ran, tagged panel or mcp:<session>; !! / !N / !prefix re-run one
+- write name.sh / run name.sh ARGS → save a workflow you repeat in ~/scripts once, then replay it with arguments as $1..$n (ls ~/scripts lists saved scripts)
+- alias / name() { ...; } → aliases and functions the user defined (alias lists them); they only run when this server has --allow-write and --allow-sensitive
 Real-world examples:
 - "Find all PDFs linked on this page": find --type link --text "pdf" --meta
 - "Read paragraph after intro": ls --after intro_heading -n 1 → text paragraph_name
@@ -359,11 +472,13 @@ ANTI-PATTERNS (avoid these):
 
 Note: Use --no-confirm when starting the server to skip interactive confirmation prompts for write actions.`;
 
-function createMcpServer(): McpServer {
+/** `session.id` is filled in once the transport has assigned the session its ID. */
+function createMcpServer(session: { id?: string }): McpServer {
   const server = new McpServer(
     { name: "domshell", version: "1.0.0" },
     { instructions: MCP_INSTRUCTIONS }
   );
+  const execute = (command: string) => executeWithSecurity(command, session.id);
 
   // -- Read tier tools (always available) --
 
@@ -372,7 +487,7 @@ function createMcpServer(): McpServer {
     "List all open browser tabs with their IDs, titles, URLs, and window info. Use this to find the right tab before switching. Equivalent to 'ls ~/tabs/'.",
     {},
     async () => ({
-      content: [{ type: "text", text: await executeWithSecurity("tabs") }],
+      content: [{ type: "text", text: await execute("tabs") }],
     })
   );
 
@@ -381,25 +496,25 @@ function createMcpServer(): McpServer {
     "Jump to the active tab in the last focused Chrome window. Use this to quickly enter whichever tab the user is currently looking at, without needing to know the tab ID.",
     {},
     async () => ({
-      content: [{ type: "text", text: await executeWithSecurity("here") }],
+      content: [{ type: "text", text: await execute("here") }],
     })
   );
 
   server.tool(
     "domshell_ls",
-    "List children of the current directory. In the DOM tree: shows elements as files and directories. At the browser level (~): shows tabs/windows.\n\nFlags:\n  -l              Long format (more detail per element)\n  --meta          Show DOM properties (href, src, id) inline — great for extracting links\n  --text          Show visible text preview per element\n  -r              Recursive listing\n  -n N            Limit to N results\n  --offset N      Skip first N children (pagination)\n  --type ROLE     Filter by AX role (link, heading, button, etc.)\n  --count         Just count children\n  --textlen N     Max chars for text preview (default 80)\n  --after NAME    Show only children after the named element (sibling navigation)\n  --before NAME   Show only children before the named element (sibling navigation)\n\nSibling navigation: Use --after/--before to find content relative to a landmark. Example: ls --after See_also_heading -n 3 --text shows the 3 elements after a heading. Combines with --type: ls --after intro --type link --meta.\n\nPipe support: ls output can be piped into grep for filtering: ls --text | grep keyword.\n\nBest for: viewing immediate children of the current element.\nNOT recommended for: searching deep in the tree — use domshell_find or domshell_grep instead.",
-    { options: z.string().optional().describe("Flags and options, e.g. '-l', '-n 10', '--type button', '--text', '--meta --text', '--after heading_name', or '~/tabs/' for tab listing") },
+    "List children of the current directory. In the DOM tree: shows elements as files and directories. At the browser level (~): shows tabs/windows.\n\nFlags:\n  -l              Long format (more detail per element, with AX states like [unchecked required] or [collapsed], and [offscreen] or [hidden] for elements outside the viewport or not shown)\n  --meta          Show DOM properties (href, src, id) inline — great for extracting links\n  --text          Show visible text preview per element\n  -r              Recursive listing\n  -n N            Limit to N results\n  --offset N      Skip first N children (pagination)\n  --type ROLE     Filter by AX role (link, heading, button, etc.)\n  --state WORDS   Only elements in these AX states (checked, unchecked, disabled, expanded, collapsed, selected, required, invalid, focused); --checked etc. work too\n  --level N       Only elements at this level (headings)\n  --visible       Only elements a user could see (scrolled into view or not); --in-viewport for those on screen now, --hidden for hidden ones (display:none, opacity 0, zero size, screen-reader-only)\n  --count         Just count children\n  --textlen N     Max chars for text preview (default 80)\n  --after NAME    Show only children after the named element (sibling navigation)\n  --before NAME   Show only children before the named element (sibling navigation)\n  --shadow        Group elements rendered inside web-component shadow roots under a #shadow-root/ entry and mark hosts [shadow:open]\n\nIndex directories: '@headings' (as an outline), '@forms', '@landmarks', '@links', '@images', '@tables' and '@dialogs' list that kind of element from the whole page, with the real path of each.\n\nSibling navigation: Use --after/--before to find content relative to a landmark. Example: ls --after See_also_heading -n 3 --text shows the 3 elements after a heading. Combines with --type: ls --after intro --type link --meta.\n\nPipe support: ls output can be piped into grep for filtering: ls --text | grep keyword.\n\nBest for: viewing immediate children of the current element.\nNOT recommended for: searching deep in the tree — use domshell_find or domshell_grep instead.",
+    { options: z.string().optional().describe("Flags and options, e.g. '-l', '-n 10', '--type button', '--text', '--meta --text', '--after heading_name', a path such as 'main/form', '~/tabs/' for tab listing, or an index directory like '@headings'") },
     async ({ options }) => ({
-      content: [{ type: "text", text: await executeWithSecurity(`ls ${options ?? ""}`.trim()) }],
+      content: [{ type: "text", text: await execute(`ls ${options ?? ""}`.trim()) }],
     })
   );
 
   server.tool(
     "domshell_cd",
     "Change directory — sets your scope for all subsequent commands (ls, find, grep, text all operate relative to current directory).\n\nPaths: 'main/form', '..', '~' (browser root), '~/tabs/<id>', '~/tabs/<pattern>', '%here%' (focused tab).\n\nWhen to cd:\n  - cd into a SECTION (article, main, sidebar) to scope find/grep/ls to that area\n  - cd into ~/tabs/<id> to switch between tabs\n  - cd .. to go up when done with a section\n\nWhen NOT to cd:\n  - To read a child's text: use 'domshell_text' with the name parameter instead (saves a cd + cd .. round trip)\n  - To inspect a child: use 'domshell_cat' with the name parameter instead\n  - To extract links: domshell_find --type link --meta works from the current directory",
-    { path: z.string().describe("Path: DOM path, '~', '~/tabs/<id>', '~/windows/<id>', '%here%', '..', '/'") },
+    { path: z.string().describe("Path: DOM path, '~', '~/tabs/<id>', '~/windows/<id>', '%here%', '..', '/', a selector: '@css:form#login', '@xpath://table[2]', an index entry such as '@tables/table_4091' (lands on its real path), or '@dom' / '@ax' to switch between the raw DOM tree and the accessibility view") },
     async ({ path }) => ({
-      content: [{ type: "text", text: await executeWithSecurity(`cd ${path}`) }],
+      content: [{ type: "text", text: await execute(`cd ${elementArg(path)}`) }],
     })
   );
 
@@ -408,60 +523,82 @@ function createMcpServer(): McpServer {
     "Print the current working directory path in the DOM tree.",
     {},
     async () => ({
-      content: [{ type: "text", text: await executeWithSecurity("pwd") }],
+      content: [{ type: "text", text: await execute("pwd") }],
     })
   );
 
   server.tool(
     "domshell_cat",
-    "Read detailed metadata about a DOM element: role, type, AX ID, DOM backend ID, value, child count, text content (textContent), visible text (innerText — only rendered text, respects CSS visibility), and outerHTML snippet.",
-    { name: z.string().describe("Name or path of the element (e.g. 'link_name' or 'main/link_name')") },
+    "Read detailed metadata about a DOM element: role, type, AX ID, DOM backend ID, value, child count, text content (textContent), visible text (innerText — only rendered text, respects CSS visibility), and outerHTML snippet.\n\nPseudo files read one aspect of an element in full, as 'key: value' lines: append /.attrs (HTML attributes), /.style (computed styles), /.bbox (position, size, inViewport), /.states (AX states: checked, expanded, disabled, required...), /.html (full outerHTML) or /.events (event listeners) to the name, e.g. 'submit_btn/.bbox'. Use '.states' alone for the current directory's element.",
+    { name: z.string().describe("Name or path of the element (e.g. 'link_name' or 'main/link_name'), optionally ending in a pseudo file ('link_name/.attrs'). Wildcards read every match: 'main/*_link', '**/heading_*'. A CSS selector or XPath works too, matched across the whole document: '@css:#checkout-button', '@xpath://table[2]'") },
     async ({ name }) => ({
-      content: [{ type: "text", text: await executeWithSecurity(`cat ${name}`) }],
+      content: [{ type: "text", text: await execute(`cat ${elementArg(name)}`) }],
     })
   );
 
   server.tool(
     "domshell_find",
-    "Deep recursive search from the CURRENT DIRECTORY downward. Scope matters: cd into a section first, then find, to get only that section's elements (fewer, more relevant results). Returns full paths to matching elements.\n\nKey flags:\n  --type ROLE   Filter by AX role (link, button, heading, textbox, table, list, etc.)\n  --meta        Include DOM properties (href, src, id) inline — essential for extracting URLs\n  --text        Show visible text preview per result\n\nCommon patterns:\n  find --type link --meta              All links with URLs under current directory\n  find --type heading                  All section headings (to locate 'See Also', 'References', etc.)\n  find --type table                    Find tables for data extraction\n  find 'paragraph'                     Find paragraph elements by name pattern\n\nEfficiency tip: cd into the container you care about FIRST, then find within it. This avoids sidebar/nav/footer noise in results. Use 'text element_name' on find results to read their content without cd'ing.\n\nWhen --text is used with a search pattern, elements are also matched against their visible text content (not just name/role). Example: find --type link --text 'login' --meta finds links whose displayed text contains 'login' and shows their hrefs — even when the text is in nested spans.\n\nPipe support: find output can be piped into grep for filtering: find --type link --meta | grep 'github'. Think like bash: find is your 'find + grep' combined.",
+    "Deep recursive search from the CURRENT DIRECTORY downward. Scope matters: cd into a section first, then find, to get only that section's elements (fewer, more relevant results). Returns full paths to matching elements.\n\nKey flags:\n  --type ROLE   Filter by AX role (link, button, heading, textbox, table, list, etc.)\n  --meta        Include DOM properties (href, src, id) inline — essential for extracting URLs\n  --text        Show visible text preview per result\n  --state WORDS Filter by AX state (checked, unchecked, disabled, expanded, collapsed, required, invalid...)\n  --level N     Filter by level (heading level)\n  --visible     Only elements a user could see (skips things hidden behind menus); --in-viewport, --hidden\n\nCommon patterns:\n  find --type link --meta              All links with URLs under current directory\n  find --type heading                  All section headings (to locate 'See Also', 'References', etc.)\n  find --type heading --level 2        Only h2 headings\n  find --type checkbox --state required,unchecked   Required checkboxes left unticked\n  find --collapsed                     Collapsed accordions, menus and disclosures\n  find --type button --in-viewport     Buttons on screen right now\n  find --type table                    Find tables for data extraction\n  find 'paragraph'                     Find paragraph elements by name pattern\n\nEfficiency tip: cd into the container you care about FIRST, then find within it. This avoids sidebar/nav/footer noise in results. Use 'text element_name' on find results to read their content without cd'ing.\n\nWhen --text is used with a search pattern, elements are also matched against their visible text content (not just name/role). Example: find --type link --text 'login' --meta finds links whose displayed text contains 'login' and shows their hrefs — even when the text is in nested spans.\n\nPipe support: find output can be piped into grep for filtering: find --type link --meta | grep 'github'. Think like bash: find is your 'find + grep' combined.",
     {
       pattern: z.string().optional().describe("Search pattern (matches name, role, value)"),
       type: z.string().optional().describe("Filter by AX role (e.g. 'button', 'link', 'textbox', 'combobox')"),
+      state: z.string().optional().describe("Only elements in all these AX states, comma-separated: disabled, checked, unchecked, mixed, expanded, collapsed, selected, required, invalid, focused (e.g. 'required,unchecked' with type 'checkbox')"),
+      level: z.number().optional().describe("Only elements at this level, e.g. 2 with type 'heading' for h2 headings"),
+      visibility: z.enum(["visible", "in-viewport", "hidden"]).optional().describe("Only elements a user could see ('visible', scrolled into view or not), those inside the viewport right now ('in-viewport'), or those not shown at all ('hidden': display:none, opacity 0, zero size, screen-reader-only)"),
       limit: z.number().optional().describe("Maximum number of results"),
       meta: z.boolean().optional().describe("Include DOM properties (href, src, id, tag) per result"),
       text: z.boolean().optional().describe("Show visible text preview per result (uses innerText, respects CSS visibility)"),
       textlen: z.number().optional().describe("Maximum characters for text preview (default: 80)"),
       content: z.boolean().optional().describe("Also match against visible text content of elements (slower but finds elements by their displayed text, e.g. find a heading whose text says 'See also')"),
+      regex: z.boolean().optional().describe("Treat the pattern as a regular expression (-E)"),
+      invert: z.boolean().optional().describe("Return elements that do NOT match the pattern (-v)"),
+      case_sensitive: z.boolean().optional().describe("Match case exactly (-I). Default: case-insensitive"),
     },
-    async ({ pattern, type, limit, meta, text, textlen, content }) => {
+    async ({ pattern, type, state, level, visibility, limit, meta, text, textlen, content, regex, invert, case_sensitive }) => {
       let cmd = "find";
-      if (pattern) cmd += ` ${pattern}`;
-      if (type) cmd += ` --type ${type}`;
+      if (pattern) cmd += ` ${quoteArg(pattern)}`;
+      if (type) cmd += ` --type ${quoteArg(type)}`;
+      if (state) cmd += ` --state ${quoteArg(state)}`;
+      if (level) cmd += ` --level ${level}`;
+      if (visibility) cmd += ` --${visibility}`;
       if (limit) cmd += ` -n ${limit}`;
       if (meta) cmd += ` --meta`;
       if (text) cmd += ` --text`;
       if (textlen) cmd += ` --textlen ${textlen}`;
       if (content) cmd += ` --content`;
-      return { content: [{ type: "text", text: await executeWithSecurity(cmd) }] };
+      if (regex) cmd += ` -E`;
+      if (invert) cmd += ` -v`;
+      if (case_sensitive) cmd += ` -I`;
+      return { content: [{ type: "text", text: await execute(cmd) }] };
     }
   );
 
   server.tool(
     "domshell_grep",
-    "Search for elements matching a pattern. Matches against name, role, and value. Case-insensitive.\n\nBy default, searches only IMMEDIATE children. Use recursive: true to search all descendants — this is almost always what you want for finding sections or elements by name.\n\ngrep is the primary section-discovery tool. Its output gives you element names and paths that you then use with cd, text, find, and other commands. This is how you chain commands together efficiently.\n\nCommon patterns:\n  grep 'see_also' (recursive: true)      Find a section by name anywhere below\n  grep 'heading' (recursive: true)        Find all headings in the subtree\n  grep 'button'                           Find buttons among immediate children\n\nWorkflow chains (grep → cd → extract):\n  1. Find + Read: grep 'references' (recursive: true) → cd references/ → text\n  2. Find + Links: grep 'sidebar' (recursive: true) → cd sidebar/ → find --type link --meta\n  3. Find + Table: grep 'table' (recursive: true) → extract_table table_1234\n  4. Scoped Search: grep 'article' (recursive: true) → cd article/ → find --type heading → cd into target section → text\n  5. Content Discovery: grep 'results' (recursive: true, content: true) → cd search_results/ → read --text\n\ngrep tells you WHERE things are; cd + text/find/extract_links/extract_table gets the content. Always grep first to scope your work, then extract within that scope.\n\nThink like bash: grep output gives you paths. Use those paths with cd, text, cat — just as you'd use grep to find a file, then cat to read it.",
+    "Search for elements matching a pattern. Matches against name, role, and value. Case-insensitive by default; set regex for regular expressions, invert for non-matching elements.\n\nBy default, searches only IMMEDIATE children. Use recursive: true to search all descendants — this is almost always what you want for finding sections or elements by name.\n\ngrep is the primary section-discovery tool. Its output gives you element names and paths that you then use with cd, text, find, and other commands. This is how you chain commands together efficiently.\n\nCommon patterns:\n  grep 'see_also' (recursive: true)      Find a section by name anywhere below\n  grep 'heading' (recursive: true)        Find all headings in the subtree\n  grep 'button'                           Find buttons among immediate children\n\nWorkflow chains (grep → cd → extract):\n  1. Find + Read: grep 'references' (recursive: true) → cd references/ → text\n  2. Find + Links: grep 'sidebar' (recursive: true) → cd sidebar/ → find --type link --meta\n  3. Find + Table: grep 'table' (recursive: true) → extract_table table_1234\n  4. Scoped Search: grep 'article' (recursive: true) → cd article/ → find --type heading → cd into target section → text\n  5. Content Discovery: grep 'results' (recursive: true, content: true) → cd search_results/ → read --text\n\ngrep tells you WHERE things are; cd + text/find/extract_links/extract_table gets the content. Always grep first to scope your work, then extract within that scope.\n\nThink like bash: grep output gives you paths. Use those paths with cd, text, cat — just as you'd use grep to find a file, then cat to read it.",
     {
       pattern: z.string().describe("Search pattern"),
       recursive: z.boolean().optional().describe("Search all descendants recursively"),
       limit: z.number().optional().describe("Maximum number of results"),
       content: z.boolean().optional().describe("Also match against visible text content of elements (slower but finds elements by their displayed text)"),
+      regex: z.boolean().optional().describe("Treat the pattern as a regular expression (-E)"),
+      invert: z.boolean().optional().describe("Return elements that do NOT match the pattern (-v)"),
+      case_sensitive: z.boolean().optional().describe("Match case exactly (-I). Default: case-insensitive"),
+      count: z.boolean().optional().describe("Return only the number of matching elements (-c)"),
+      context: z.number().optional().describe("Also show N elements before and after each match (-C N)"),
     },
-    async ({ pattern, recursive, limit, content }) => {
+    async ({ pattern, recursive, limit, content, regex, invert, case_sensitive, count, context }) => {
       let cmd = "grep";
       if (recursive) cmd += " -r";
       if (limit) cmd += ` -n ${limit}`;
       if (content) cmd += ` --content`;
-      cmd += ` ${pattern}`;
-      return { content: [{ type: "text", text: await executeWithSecurity(cmd) }] };
+      if (regex) cmd += " -E";
+      if (invert) cmd += " -v";
+      if (case_sensitive) cmd += " -I";
+      if (count) cmd += " -c";
+      if (context) cmd += ` -C ${context}`;
+      cmd += ` ${quoteArg(pattern)}`;
+      return { content: [{ type: "text", text: await execute(cmd) }] };
     }
   );
 
@@ -470,22 +607,24 @@ function createMcpServer(): McpServer {
     "Show a tree view of the current directory in the DOM, displaying the hierarchy of elements with type prefixes [d]=directory, [x]=interactive, [-]=static.",
     { depth: z.number().optional().describe("Maximum depth to display (default: 2)") },
     async ({ depth }) => ({
-      content: [{ type: "text", text: await executeWithSecurity(`tree ${depth ?? 2}`) }],
+      content: [{ type: "text", text: await execute(`tree ${depth ?? 2}`) }],
     })
   );
 
   server.tool(
     "domshell_text",
-    "Extract ALL text content from the current directory or a named child, including every descendant. Returns full textContent in a single call.\n\nThe name parameter lets you read any child without cd'ing into it first:\n  text paragraph_2994      Read a paragraph's text without cd'ing into it\n  text table_1234          Read an ENTIRE table (all rows, all cells) in one call\n  text list_5678           Read all list items at once\n  text                     Read everything under current directory\n\nEfficiency tip: call text on the HIGHEST container that has the content you need.\n  - Need a table? text on the table element, not individual rows.\n  - Need a section? text on the section container, not each paragraph.\n  - Need article body? cd into article/main, then text with no args.\n\nOne text call on a parent replaces N calls on its children.",
+    "Extract ALL text content from the current directory or a named child, including every descendant. Returns full textContent in a single call.\n\nThe name parameter lets you read any child without cd'ing into it first:\n  text paragraph_2994      Read a paragraph's text without cd'ing into it\n  text table_1234          Read an ENTIRE table (all rows, all cells) in one call\n  text list_5678           Read all list items at once\n  text                     Read everything under current directory\n\nEfficiency tip: call text on the HIGHEST container that has the content you need.\n  - Need a table? text on the table element, not individual rows.\n  - Need a section? text on the section container, not each paragraph.\n  - Need article body? cd into article/main, then text with no args.\n\nOne text call on a parent replaces N calls on its children.\n\nSet visible_only to drop text the user cannot see (hidden menus, screen-reader-only labels, hidden SEO text).",
     {
-      name: z.string().optional().describe("Name or path of element to extract text from (e.g. 'paragraph' or 'article/paragraph'). Default: current directory"),
+      name: z.string().optional().describe("Name or path of element to extract text from (e.g. 'paragraph' or 'article/paragraph'; wildcards like 'main/**/paragraph_*' give one section per match; selectors like '@css:article .summary'). Default: current directory"),
       limit: z.number().optional().describe("Maximum characters to return"),
+      visible_only: z.boolean().optional().describe("Only text a user can see on the rendered page: leaves out hidden, transparent, zero-size and screen-reader-only content"),
     },
-    async ({ name, limit }) => {
+    async ({ name, limit, visible_only }) => {
       let cmd = "text";
-      if (name) cmd += ` ${name}`;
+      if (name) cmd += ` ${elementArg(name)}`;
       if (limit) cmd += ` -n ${limit}`;
-      return { content: [{ type: "text", text: await executeWithSecurity(cmd) }] };
+      if (visible_only) cmd += ` --visible-only`;
+      return { content: [{ type: "text", text: await execute(cmd) }] };
     }
   );
 
@@ -502,13 +641,13 @@ function createMcpServer(): McpServer {
     },
     async ({ name, depth, limit, meta, text, textlen }) => {
       let cmd = "read";
-      if (name) cmd += ` ${name}`;
+      if (name) cmd += ` ${elementArg(name)}`;
       if (depth) cmd += ` -d ${depth}`;
       if (limit) cmd += ` -n ${limit}`;
       if (meta) cmd += ` --meta`;
       if (text) cmd += ` --text`;
       if (textlen) cmd += ` --textlen ${textlen}`;
-      return { content: [{ type: "text", text: await executeWithSecurity(cmd) }] };
+      return { content: [{ type: "text", text: await execute(cmd) }] };
     }
   );
 
@@ -517,7 +656,7 @@ function createMcpServer(): McpServer {
     "Force re-fetch the Accessibility Tree. Use after page navigation or significant DOM changes. Note: the tree also auto-refreshes when changes are detected.",
     {},
     async () => ({
-      content: [{ type: "text", text: await executeWithSecurity("refresh") }],
+      content: [{ type: "text", text: await execute("refresh") }],
     })
   );
 
@@ -525,51 +664,60 @@ function createMcpServer(): McpServer {
     "domshell_extract_links",
     "Extract all links under the current directory or a named child as a clean numbered list in [text](url) format. Purpose-built for link extraction — returns display text and URLs in one call.\n\nExamples:\n  extract_links              All links under current directory\n  extract_links main -n 20   First 20 links in 'main' section",
     {
-      name: z.string().optional().describe("Name or path of element to extract links from (e.g. 'nav' or 'main/nav'). Default: current directory"),
+      name: z.string().optional().describe("Name or path of element to extract links from (e.g. 'nav' or 'main/nav'; wildcards like 'nav/*/' list each match under a header). Default: current directory"),
       limit: z.number().optional().describe("Maximum number of links to return"),
     },
     async ({ name, limit }) => {
       let cmd = "extract_links";
-      if (name) cmd += ` ${name}`;
+      if (name) cmd += ` ${elementArg(name)}`;
       if (limit) cmd += ` -n ${limit}`;
-      return { content: [{ type: "text", text: await executeWithSecurity(cmd) }] };
+      return { content: [{ type: "text", text: await execute(cmd) }] };
     }
   );
 
   server.tool(
     "domshell_extract_table",
-    "Extract a table element as structured markdown or CSV. Reads all rows and cells, returns formatted output. First row is treated as the header.\n\nExamples:\n  extract_table table_1234              Markdown table\n  extract_table table_1234 --format csv CSV format\n  extract_table table_1234 -n 10        First 10 rows only",
+    "Extract a table element as structured markdown or CSV. Reads all rows and cells, returns formatted output. First row is treated as the header.\n\nExamples:\n  extract_table table_1234              Markdown table\n  extract_table table_1234 --format csv CSV format\n  extract_table table_1234 -n 10        First 10 rows only\n  extract_table @tables/table_1234      Via the @tables index (ls @tables lists every table)",
     {
-      name: z.string().describe("Name or path of the table element (e.g. 'table_1' or 'article/table_1')"),
+      name: z.string().describe("Name or path of the table element (e.g. 'table_1' or 'article/table_1'), or a selector like '@xpath://table[2]'"),
       format: z.enum(["markdown", "csv"]).optional().describe("Output format (default: markdown)"),
       limit: z.number().optional().describe("Maximum number of rows to return"),
     },
     async ({ name, format, limit }) => {
-      let cmd = `extract_table ${name}`;
+      let cmd = `extract_table ${elementArg(name)}`;
       if (format) cmd += ` --format ${format}`;
       if (limit) cmd += ` -n ${limit}`;
-      return { content: [{ type: "text", text: await executeWithSecurity(cmd) }] };
+      return { content: [{ type: "text", text: await execute(cmd) }] };
     }
   );
 
+  server.tool(
+    "domshell_complete",
+    "Complete the last word of a command line, exactly as Tab does in the terminal. Returns one completion per line, with a description after a tab where there is one (a tab's title, what a flag does). Runs nothing, so it is safe on any line.\n\nExamples:\n  cd main/art          Element paths, one level at a time (main/article/)\n  cd ~/tabs/git        Tab IDs, matched by ID or by title (~/tabs/42/  GitHub)\n  ls ~/windows/        Window IDs, with their tab counts\n  find --t             Flags from the command's help (--type, --text, --textlen)\n  ext                  Command names",
+    { line: z.string().describe("The command line typed so far; the last word is completed (e.g. 'cd main/art', 'find --t', 'cd ~/tabs/')") },
+    async ({ line }) => ({
+      content: [{ type: "text", text: await completeWithAudit(line) }],
+    })
+  );
+
   // -- Write tier tools (require --allow-write) --
 
   if (ALLOW_WRITE) {
     server.tool(
       "domshell_click",
       "Click a DOM element. May trigger navigation, form submission, or page changes. The DOM tree auto-refreshes on the next command.\n\nAfter clicking: use domshell_ls or domshell_pwd to verify the page actually changed. Some clicks (like search buttons) may need a domshell_refresh to see updated content. If clicking a search/submit button doesn't navigate, try using domshell_navigate as a fallback.",
-      { name: z.string().describe("Name or path of the element to click (e.g. 'submit_btn' or 'form/submit_btn')") },
+      { name: z.string().describe("Name or path of the element to click (e.g. 'submit_btn' or 'form/submit_btn'), or a selector like '@css:#checkout-button' (first match)") },
       async ({ name }) => ({
-        content: [{ type: "text", text: await executeWithSecurity(`click ${name}`) }],
+        content: [{ type: "text", text: await execute(`click ${elementArg(name)}`) }],
       })
     );
 
     server.tool(
       "domshell_focus",
       "Focus an input element. Use before 'domshell_type' to direct keyboard input to the right field.",
-      { name: z.string().describe("Name or path of the input to focus (e.g. 'search_input' or 'form/search_input')") },
+      { name: z.string().describe("Name or path of the input to focus (e.g. 'search_input' or 'form/search_input'), or a selector like '@css:input[name=email]'") },
       async ({ name }) => ({
-        content: [{ type: "text", text: await executeWithSecurity(`focus ${name}`) }],
+        content: [{ type: "text", text: await execute(`focus ${elementArg(name)}`) }],
       })
     );
 
@@ -578,7 +726,7 @@ function createMcpServer(): McpServer {
       "Type text into the currently focused element. Use domshell_focus first to target an input field.\n\nFor search forms: after typing, you may need to either:\n  1. click the submit/search button, OR\n  2. type '\\n' to simulate pressing Enter\n\nIf the page doesn't navigate after form submission, use domshell_navigate as a fallback to go to the expected URL directly.",
       { text: z.string().describe("Text to type into the focused element") },
       async ({ text }) => ({
-        content: [{ type: "text", text: await executeWithSecurity(`type ${text}`) }],
+        content: [{ type: "text", text: await execute(`type ${quoteArg(text)}`) }],
       })
     );
 
@@ -587,7 +735,7 @@ function createMcpServer(): McpServer {
       "Navigate the current tab to a URL. Automatically rebuilds the accessibility tree after navigation completes. Requires a tab context (cd into a tab first). Use this to go to a specific website without opening a new tab.",
       { url: z.string().describe("URL to navigate to (e.g. 'https://example.com' or 'example.com')") },
       async ({ url }) => ({
-        content: [{ type: "text", text: await executeWithSecurity(`navigate ${url}`) }],
+        content: [{ type: "text", text: await execute(`navigate ${quoteArg(url)}`) }],
       })
     );
 
@@ -596,7 +744,7 @@ function createMcpServer(): McpServer {
       "Open a URL in a new tab and enter it (path becomes ~/tabs/<id>). Automatically builds the accessibility tree after page loads. Works from any location.\n\nAfter opening a page, a typical extraction workflow is:\n  1. open URL\n  2. find the section you need (find --type heading, or grep section_name with recursive: true)\n  3. cd into the container\n  4. text (for content) or find --type link --meta (for links)",
       { url: z.string().describe("URL to open in a new tab (e.g. 'https://example.com' or 'example.com')") },
       async ({ url }) => ({
-        content: [{ type: "text", text: await executeWithSecurity(`open ${url}`) }],
+        content: [{ type: "text", text: await execute(`open ${quoteArg(url)}`) }],
       })
     );
 
@@ -609,9 +757,9 @@ function createMcpServer(): McpServer {
         submit_button: z.string().optional().describe("Name or path of submit button to click (default: press Enter)"),
       },
       async ({ input, value, submit_button }) => {
-        let cmd = `submit ${input} ${value}`;
-        if (submit_button) cmd += ` --submit ${submit_button}`;
-        return { content: [{ type: "text", text: await executeWithSecurity(cmd) }] };
+        let cmd = `submit ${elementArg(input)} ${quoteArg(value)}`;
+        if (submit_button) cmd += ` --submit ${elementArg(submit_button)}`;
+        return { content: [{ type: "text", text: await execute(cmd) }] };
       }
     );
   }
@@ -624,7 +772,7 @@ function createMcpServer(): McpServer {
       "Check authentication status by examining cookies for the current page. Shows session cookies and expiry.",
       {},
       async () => ({
-        content: [{ type: "text", text: await executeWithSecurity("whoami") }],
+        content: [{ type: "text", text: await execute("whoami") }],
       })
     );
   }
@@ -633,10 +781,10 @@ function createMcpServer(): McpServer {
 
   server.tool(
     "domshell_execute",
-    "Execute any DOMShell command. Use this for commands not covered by specific tools (e.g. 'env', 'export', 'debug stats'). Supports pipe operator: 'find --type link --meta | grep github'. Write and sensitive commands are subject to the same security restrictions.",
+    "Execute any DOMShell command. Use this for commands not covered by specific tools (e.g. 'env', 'export', 'debug stats'). Supports pipe operator with grep, head, tail, wc, sort, uniq, cut, sed and tr: 'find --type link --meta | grep github | cut -d= -f2 | sort -u'. Expands $VARS and $(command) substitution: 'cat $(find --type link | head -n 3 | cut -f2)'. Runs statements joined by ;, && and || and for/while/if loops in a single call; a non-zero exit status is appended as '[exit status N]': 'for l in $(find --type link | head -n 5 | cut -f2); do cat $l; done', 'if [ -e cookie_banner ]; then click cookie_banner/accept_btn; fi'. Redirects output to scratch files with > and >> ('extract_table prices --format csv > ~/tmp/prices.csv', then 'grep pro ~/tmp/prices.csv'). Saves and replays scripts in ~/scripts: 'write -a daily.sh \"find --type link | head -n $1\"', 'run daily.sh 10' (stops at the first failing line unless the script runs 'set +e'). Write and sensitive commands are subject to the same security restrictions.",
     { command: z.string().describe("The full command to execute (e.g. 'ls -l', 'debug stats', 'find --type link | grep login')") },
     async ({ command }) => ({
-      content: [{ type: "text", text: await executeWithSecurity(command) }],
+      content: [{ type: "text", text: await execute(command) }],
     })
   );
 
@@ -696,11 +844,13 @@ async function main() {
 
       // New session — must be an initialize request
       if (!sessionId && isInitializeRequest(req.body)) {
+        const session: { id?: string } = {};
         const transport = new StreamableHTTPServerTransport({
           sessionIdGenerator: () => randomUUID(),
           onsessioninitialized: (sid) => {
             log(`MCP session initialized: ${sid}`);
             transports[sid] = transport;
+            session.id = sid;
           },
         });
 
@@ -712,7 +862,7 @@ async function main() {
           }
         };
 
-        const server = createMcpServer();
+        const server = createMcpServer(session);
         await server.connect(transport);
         await transport.handleRequest(req, res, req.body);
         return;
@@ -1,11 +1,30 @@
-import type { AXNode } from "../shared/types.ts";
+import type { AXNode, BoundingBox, DOMNode, EventListenerInfo, SelectorMatches, ShadowRootInfo, StableAttributes, Visibility } from "../shared/types.ts";
 
 /**
  * CDPClient wraps chrome.debugger into an async/await interface.
  * It manages attachment to browser tabs and sends CDP commands.
+ *
+ * Cross-origin iframes (OOPIFs) run in their own renderer and can't be read
+ * through the tab's session. They are auto-attached as flattened child
+ * sessions; their AX nodes carry the session ID, and the element methods
+ * below take it to address nodes living there.
  */
 export class CDPClient {
   private attachedTabId: number | null = null;
+  private shadow: ShadowIndex = emptyShadowIndex();
+  private attributes = new Map<number, StableAttributes>();   // Stable attributes by backend node ID
+  private frameSessions = new Map<string, FrameSession>();
+  private focusedSessionId: string | undefined;
+  private sameProcessFrameIds: string[] = [];   // Child frames read through the tab's session, by getAllFrameAXTrees
+  private axUpdates: AXUpdateBatch[] = [];       // Accessibility.nodesUpdated since the tree was read
+  private axDocumentLoaded = false;              // Accessibility.loadComplete since the tree was read
+  // The last full DOM.getDocument. Chrome only reports mutations below the
+  // nodes it has sent, so the document is never asked for again with less.
+  private documentRoot: (DOMNode & { nodeId: number }) | null = null;
+
+  constructor() {
+    chrome.debugger.onEvent.addListener((source, method, params) => this.onTargetEvent(source, method, params));
+  }
 
   async attach(tabId: number): Promise<void> {
     if (this.attachedTabId === tabId) return;
@@ -21,6 +40,14 @@ export class CDPClient {
           reject(new Error(chrome.runtime.lastError.message));
         } else {
           this.attachedTabId = tabId;
+          this.shadow = emptyShadowIndex();
+          this.attributes = new Map();
+          this.frameSessions.clear();
+          this.focusedSessionId = undefined;
+          this.sameProcessFrameIds = [];
+          this.axUpdates = [];
+          this.axDocumentLoaded = false;
+          this.documentRoot = null;
           resolve();
         }
       });
@@ -31,6 +58,10 @@ export class CDPClient {
     await this.send("DOM.enable");
     await this.send("Page.enable");
     await this.send("Runtime.enable");
+
+    // Attach to out-of-process iframes, now and as they appear
+    await this.send("Target.setAutoAttach", { autoAttach: true, waitForDebuggerOnStart: false, flatten: true })
+      .catch(() => {});
   }
 
   async detach(): Promise<void> {
@@ -38,6 +69,7 @@ export class CDPClient {
 
     const tabId = this.attachedTabId;
     this.attachedTabId = null;
+    this.frameSessions.clear();
 
     await new Promise<void>((resolve) => {
       chrome.debugger.detach({ tabId }, () => {
@@ -51,14 +83,18 @@ export class CDPClient {
     return this.attachedTabId;
   }
 
-  async send<T = any>(method: string, params?: Record<string, any>): Promise<T> {
+  /**
+   * Send a CDP command to the tab, or to one of its out-of-process iframes
+   * when `sessionId` is given.
+   */
+  async send<T = any>(method: string, params?: Record<string, any>, sessionId?: string): Promise<T> {
     if (this.attachedTabId === null) {
       throw new Error("Not attached to any tab. Run 'attach' first.");
     }
 
     return new Promise<T>((resolve, reject) => {
       chrome.debugger.sendCommand(
-        { tabId: this.attachedTabId! },
+        sessionId ? { tabId: this.attachedTabId!, sessionId } : { tabId: this.attachedTabId! },
         method,
         params ?? {},
         (result) => {
@@ -72,6 +108,54 @@ export class CDPClient {
     });
   }
 
+  /** Number of out-of-process iframes currently attached (for debug stats). */
+  get frameSessionCount(): number {
+    return this.frameSessions.size;
+  }
+
+  /** URL an out-of-process iframe had when it was attached. */
+  frameSessionUrl(sessionId: string): string | undefined {
+    return this.frameSessions.get(sessionId)?.url;
+  }
+
+  /**
+   * Keep track of auto-attached iframe targets and of AX tree changes.
+   * Nested OOPIFs report from their parent's session, which is remembered
+   * to find their owner element.
+   */
+  private onTargetEvent(source: chrome.debugger.DebuggerSession, method: string, params?: any): void {
+    if (source.tabId !== this.attachedTabId || !params) return;
+
+    if (method === "Accessibility.nodesUpdated") {
+      this.axUpdates.push({ sessionId: source.sessionId, nodes: params.nodes ?? [] });
+    } else if (method === "Accessibility.loadComplete") {
+      this.axDocumentLoaded = true;
+    } else if (method === "DOM.documentUpdated" && !source.sessionId) {
+      this.documentRoot = null;   // Its node IDs are no longer valid
+    } else if (method === "Target.attachedToTarget" && params.targetInfo?.type === "iframe") {
+      const sessionId: string = params.sessionId;
+      this.frameSessions.set(sessionId, {
+        sessionId,
+        frameId: params.targetInfo.targetId,
+        url: params.targetInfo.url,
+        parentSessionId: source.sessionId,
+      });
+      this.setUpFrameSession(sessionId).catch(() => {
+        // Frame went away while attaching
+      });
+    } else if (method === "Target.detachedFromTarget") {
+      this.frameSessions.delete(params.sessionId);
+      if (this.focusedSessionId === params.sessionId) this.focusedSessionId = undefined;
+    }
+  }
+
+  private async setUpFrameSession(sessionId: string): Promise<void> {
+    await this.send("Accessibility.enable", {}, sessionId);
+    await this.send("DOM.enable", {}, sessionId);
+    await this.send("Runtime.enable", {}, sessionId);
+    await this.send("Target.setAutoAttach", { autoAttach: true, waitForDebuggerOnStart: false, flatten: true }, sessionId);
+  }
+
   /**
    * Fetch the full Accessibility Tree for the attached tab.
    */
@@ -100,11 +184,12 @@ export class CDPClient {
   /**
    * Click an element by resolving its backendDOMNodeId to coordinates.
    */
-  async clickByBackendNodeId(backendDOMNodeId: number): Promise<void> {
+  async clickByBackendNodeId(backendDOMNodeId: number, sessionId?: string): Promise<void> {
     // Resolve the backend node to a RemoteObject
     const { object } = await this.send<{ object: { objectId: string } }>(
       "DOM.resolveNode",
-      { backendNodeId: backendDOMNodeId }
+      { backendNodeId: backendDOMNodeId },
+      sessionId
     );
 
     // Use Runtime.callFunctionOn to click it
@@ -113,16 +198,20 @@ export class CDPClient {
       functionDeclaration: `function() { this.click(); }`,
       arguments: [],
       returnByValue: true,
-    });
+    }, sessionId);
+    this.focusedSessionId = sessionId;
   }
 
   /**
    * Click using mouse coordinates by getting the element's bounding box.
+   * Mouse events go to the tab, so a point inside an out-of-process iframe
+   * is shifted by the iframe's position on the page.
    */
-  async clickByCoordinates(backendDOMNodeId: number): Promise<void> {
+  async clickByCoordinates(backendDOMNodeId: number, sessionId?: string): Promise<void> {
     const { object } = await this.send<{ object: { objectId: string } }>(
       "DOM.resolveNode",
-      { backendNodeId: backendDOMNodeId }
+      { backendNodeId: backendDOMNodeId },
+      sessionId
     );
 
     // Get bounding rect
@@ -135,10 +224,14 @@ export class CDPClient {
           return JSON.stringify({ x: rect.x + rect.width/2, y: rect.y + rect.height/2 });
         }`,
         returnByValue: true,
-      }
+      },
+      sessionId
     );
 
     const coords = JSON.parse(result.value);
+    const offset = await this.frameOffset(sessionId);
+    coords.x += offset.x;
+    coords.y += offset.y;
 
     // Dispatch mouse events
     await this.send("Input.dispatchMouseEvent", {
@@ -156,47 +249,95 @@ export class CDPClient {
       button: "left",
       clickCount: 1,
     });
+    this.focusedSessionId = sessionId;
   }
 
   /**
-   * Type text into a focused element.
+   * Position of an out-of-process iframe's viewport on the page: the content
+   * box of its owner element, added up through any enclosing OOPIFs.
+   */
+  private async frameOffset(sessionId: string | undefined): Promise<{ x: number; y: number }> {
+    const offset = { x: 0, y: 0 };
+    for (let session = sessionId ? this.frameSessions.get(sessionId) : undefined; session;
+      session = session.parentSessionId ? this.frameSessions.get(session.parentSessionId) : undefined) {
+      const { backendNodeId } = await this.send<{ backendNodeId: number }>(
+        "DOM.getFrameOwner", { frameId: session.frameId }, session.parentSessionId
+      );
+      const { model } = await this.send<{ model: { content: number[] } }>(
+        "DOM.getBoxModel", { backendNodeId }, session.parentSessionId
+      );
+      offset.x += model.content[0];
+      offset.y += model.content[1];
+    }
+    return offset;
+  }
+
+  /**
+   * Type text into a focused element. Key events go to the session of the
+   * last element focused or clicked, so typing reaches inputs inside
+   * out-of-process iframes; if that frame has gone, they go to the tab.
    */
   async typeText(text: string): Promise<void> {
+    let sessionId = this.focusedSessionId && this.frameSessions.has(this.focusedSessionId)
+      ? this.focusedSessionId
+      : undefined;
     for (const char of text) {
-      await this.send("Input.dispatchKeyEvent", {
-        type: "keyDown",
-        text: char,
-      });
+      try {
+        await this.send("Input.dispatchKeyEvent", { type: "keyDown", text: char }, sessionId);
+      } catch (err) {
+        if (!sessionId) throw err;
+        sessionId = undefined;
+        await this.send("Input.dispatchKeyEvent", { type: "keyDown", text: char });
+      }
       await this.send("Input.dispatchKeyEvent", {
         type: "keyUp",
         text: char,
-      });
+      }, sessionId);
     }
   }
 
   /**
    * Focus an element by its backend node ID.
    */
-  async focusByBackendNodeId(backendDOMNodeId: number): Promise<void> {
+  async focusByBackendNodeId(backendDOMNodeId: number, sessionId?: string): Promise<void> {
     const { object } = await this.send<{ object: { objectId: string } }>(
       "DOM.resolveNode",
-      { backendNodeId: backendDOMNodeId }
+      { backendNodeId: backendDOMNodeId },
+      sessionId
     );
 
     await this.send("Runtime.callFunctionOn", {
       objectId: object.objectId,
       functionDeclaration: `function() { this.focus(); }`,
       returnByValue: true,
-    });
+    }, sessionId);
+    this.focusedSessionId = sessionId;
   }
 
   /**
-   * Read the text content of an element.
+   * Read the text content of an element. Shadow trees below it are read
+   * through DOM.describeNode with pierce, so closed roots count as well and
+   * slotted light DOM appears where its <slot> puts it.
    */
-  async getTextContent(backendDOMNodeId: number): Promise<string> {
+  async getTextContent(backendDOMNodeId: number, sessionId?: string): Promise<string> {
+    if (!sessionId && this.shadow.containers.has(backendDOMNodeId)) {
+      try {
+        const { node } = await this.send<{ node: DOMNode }>("DOM.describeNode", {
+          backendNodeId: backendDOMNodeId,
+          depth: -1,
+          pierce: true,
+        });
+        const text = composedTextContent(node, []);
+        if (text) return text;
+      } catch {
+        // Fall back to the light DOM below
+      }
+    }
+
     const { object } = await this.send<{ object: { objectId: string } }>(
       "DOM.resolveNode",
-      { backendNodeId: backendDOMNodeId }
+      { backendNodeId: backendDOMNodeId },
+      sessionId
     );
 
     const { result } = await this.send<{ result: { value: string } }>(
@@ -205,7 +346,8 @@ export class CDPClient {
         objectId: object.objectId,
         functionDeclaration: `function() { return this.textContent || this.value || ''; }`,
         returnByValue: true,
-      }
+      },
+      sessionId
     );
 
     return result.value;
@@ -215,32 +357,120 @@ export class CDPClient {
    * Read the visible (rendered) text of an element using innerText.
    * Unlike textContent, innerText respects CSS visibility (display:none, etc.)
    * and returns only what the user would see on the rendered page.
+   * innerText stops at shadow hosts, so elements with shadow trees below them
+   * are walked in page JS instead, through open roots and slot assignments.
+   * Closed roots are out of reach from page JS and add nothing here.
    */
-  async getInnerText(backendDOMNodeId: number): Promise<string> {
+  async getInnerText(backendDOMNodeId: number, sessionId?: string): Promise<string> {
     const { object } = await this.send<{ object: { objectId: string } }>(
       "DOM.resolveNode",
-      { backendNodeId: backendDOMNodeId }
+      { backendNodeId: backendDOMNodeId },
+      sessionId
     );
 
     const { result } = await this.send<{ result: { value: string } }>(
       "Runtime.callFunctionOn",
       {
         objectId: object.objectId,
-        functionDeclaration: `function() { return this.innerText || this.value || ''; }`,
+        functionDeclaration: !sessionId && this.shadow.containers.has(backendDOMNodeId)
+          ? COMPOSED_INNER_TEXT
+          : `function() { return this.innerText || this.value || ''; }`,
         returnByValue: true,
-      }
+      },
+      sessionId
+    );
+
+    return result.value;
+  }
+
+  /**
+   * Text a user could actually see in an element: like innerText, but also
+   * without transparent, zero-size and visually hidden (screen-reader-only)
+   * content. Text scrolled out of view counts as visible. Shadow trees are
+   * not walked.
+   */
+  async getVisibleText(backendDOMNodeId: number, sessionId?: string): Promise<string> {
+    const { object } = await this.send<{ object: { objectId: string } }>(
+      "DOM.resolveNode",
+      { backendNodeId: backendDOMNodeId },
+      sessionId
+    );
+
+    const { result } = await this.send<{ result: { value: string } }>(
+      "Runtime.callFunctionOn",
+      { objectId: object.objectId, functionDeclaration: VISIBLE_TEXT, returnByValue: true },
+      sessionId
     );
 
     return result.value;
   }
 
+  /**
+   * Whether each node can be seen (see Visibility), from its box and
+   * computed styles. Nodes that are gone are left out of the map. The
+   * nodes are checked in one page call where they share a frame.
+   */
+  async getVisibility(backendDOMNodeIds: number[], sessionId?: string): Promise<Map<number, Visibility>> {
+    const objectGroup = "domshell-visibility";
+    const ids: number[] = [];
+    const objectIds: string[] = [];
+    for (const backendNodeId of backendDOMNodeIds) {
+      try {
+        const { object } = await this.send<{ object: { objectId: string } }>(
+          "DOM.resolveNode",
+          { backendNodeId, objectGroup },
+          sessionId
+        );
+        ids.push(backendNodeId);
+        objectIds.push(object.objectId);
+      } catch {
+        // Gone since the tree was read
+      }
+    }
+
+    const check = async (targets: string[]): Promise<Visibility[]> => {
+      const { result } = await this.send<{ result: { value: Visibility[] } }>(
+        "Runtime.callFunctionOn",
+        {
+          objectId: targets[0],
+          functionDeclaration: VISIBILITY_OF,
+          arguments: targets.map((objectId) => ({ objectId })),
+          returnByValue: true,
+        },
+        sessionId
+      );
+      return result.value;
+    };
+
+    const visibility = new Map<number, Visibility>();
+    try {
+      if (objectIds.length > 0) {
+        let values: Visibility[];
+        try {
+          values = await check(objectIds);
+        } catch {
+          // Nodes from several frames can't be passed to one call: check them one by one
+          values = [];
+          for (const objectId of objectIds) values.push(...await check([objectId]));
+        }
+        ids.forEach((id, i) => visibility.set(id, values[i]));
+      }
+    } finally {
+      await this.send("Runtime.releaseObjectGroup", { objectGroup }, sessionId).catch(() => {});
+    }
+    return visibility;
+  }
+
   /**
    * Get useful DOM properties for an element (tag, href, src, id, class, outerHTML snippet).
+   * For elements with shadow trees below them the HTML snippet includes the
+   * shadow content (DOM.getOuterHTML with includeShadowDOM).
    */
-  async getElementProperties(backendDOMNodeId: number): Promise<Record<string, string>> {
+  async getElementProperties(backendDOMNodeId: number, sessionId?: string): Promise<Record<string, string>> {
     const { object } = await this.send<{ object: { objectId: string } }>(
       "DOM.resolveNode",
-      { backendNodeId: backendDOMNodeId }
+      { backendNodeId: backendDOMNodeId },
+      sessionId
     );
 
     const { result } = await this.send<{ result: { value: Record<string, string> } }>(
@@ -262,18 +492,362 @@ export class CDPClient {
           if (this.title) o.title = this.title;
           if (this.target) o.target = this.target;
           if (this.rel) o.rel = this.rel;
+          // Shortest selector that finds this element again: a unique id,
+          // data-testid or name, else nth-of-type steps up to one
+          var root = this.getRootNode();
+          var unique = function (sel) {
+            try { return root.querySelectorAll(sel).length === 1; } catch (e) { return false; }
+          };
+          var anchorOf = function (el) {
+            var tag = el.tagName.toLowerCase();
+            if (el.id && !/:|[0-9]{3,}/.test(el.id) && unique('#' + CSS.escape(el.id))) return '#' + CSS.escape(el.id);
+            var testId = el.getAttribute('data-testid');
+            if (testId && unique('[data-testid=' + JSON.stringify(testId) + ']')) return '[data-testid=' + JSON.stringify(testId) + ']';
+            var name = el.getAttribute('name');
+            if (name && unique(tag + '[name=' + JSON.stringify(name) + ']')) return tag + '[name=' + JSON.stringify(name) + ']';
+            return null;
+          };
+          if (this.nodeType === 1) {
+            var steps = [];
+            for (var el = this; el; el = el.parentElement) {
+              var anchor = anchorOf(el);
+              if (anchor) { steps.unshift(anchor); break; }
+              var parent = el.parentElement;
+              var tag = el.tagName.toLowerCase();
+              var same = parent ? Array.prototype.filter.call(parent.children, function (c) { return c.tagName === el.tagName; }) : [el];
+              steps.unshift(same.length > 1 ? tag + ':nth-of-type(' + (same.indexOf(el) + 1) + ')' : tag);
+            }
+            o.selector = steps.join(' > ');
+          }
           var html = this.outerHTML || '';
           if (html.length > 300) html = html.slice(0, 300) + '...';
           if (html) o.outerHTML = html;
           return o;
         }`,
         returnByValue: true,
+      },
+      sessionId
+    );
+
+    const props = result.value;
+    if (!sessionId && this.shadow.containers.has(backendDOMNodeId)) {
+      try {
+        const { outerHTML } = await this.send<{ outerHTML: string }>("DOM.getOuterHTML", {
+          backendNodeId: backendDOMNodeId,
+          includeShadowDOM: true,
+        });
+        props.outerHTML = outerHTML.length > 300 ? outerHTML.slice(0, 300) + "..." : outerHTML;
+      } catch {
+        // Older Chrome without includeShadowDOM: keep the light DOM snippet
       }
+    }
+    return props;
+  }
+
+  /**
+   * Walk the whole document once (DOM.getDocument with pierce, so iframes
+   * and open, closed and user-agent shadow roots included). Returns the
+   * attributes used for stable node names (id, name, data-testid,
+   * aria-label) for every element, keyed by backend node ID, and keeps an
+   * index of shadow roots for the text and shadow lookups below. Returns an
+   * empty map if the document can't be read.
+   */
+  async scanDocument(): Promise<Map<number, StableAttributes>> {
+    const attributes = new Map<number, StableAttributes>();
+    const shadow = emptyShadowIndex();
+    try {
+      scanDOMNode(await this.readDocument(), attributes, shadow, null);
+    } catch {
+      // Leave names to the AX tree alone
+    }
+    this.shadow = shadow;
+    this.attributes = attributes;
+    return attributes;
+  }
+
+  /**
+   * Bring the stable attributes and the shadow index up to date for some
+   * elements only (those of AX nodes patched into the tree), instead of
+   * walking the whole document again. Each is described on its own, and
+   * asked in the page which shadow host, if any, holds it. `parentOf` gives
+   * an element's parent in the AX tree, whose ancestors learn about a new
+   * shadow root below them. Returns the attributes of every element.
+   */
+  async rescanElements(
+    backendNodeIds: number[],
+    parentOf: (backendNodeId: number) => number | undefined,
+  ): Promise<Map<number, StableAttributes>> {
+    const objectGroup = "domshell-rescan";
+    try {
+      for (const id of backendNodeIds) {
+        try {
+          await this.rescanElement(id, parentOf, objectGroup);
+        } catch {
+          // Gone again already
+        }
+      }
+    } finally {
+      await this.send("Runtime.releaseObjectGroup", { objectGroup }).catch(() => {});
+    }
+    return this.attributes;
+  }
+
+  private async rescanElement(
+    id: number,
+    parentOf: (backendNodeId: number) => number | undefined,
+    objectGroup: string,
+  ): Promise<void> {
+    const node = await this.describeDOMNode(id, 1);
+    const found = stableAttributesOf(node);
+    if (found) this.attributes.set(id, found);
+    else this.attributes.delete(id);
+
+    const root = node.shadowRoots?.[0];
+    if (root) {
+      this.shadow.roots.set(id, shadowRootInfo(node, root));
+      if (root.shadowRootType !== "user-agent") {
+        for (let at: number | undefined = id; at !== undefined && !this.shadow.containers.has(at); at = parentOf(at)) {
+          this.shadow.containers.add(at);
+        }
+      }
+    } else {
+      this.shadow.roots.delete(id);
+    }
+
+    const { object } = await this.send<{ object: { objectId: string } }>(
+      "DOM.resolveNode",
+      { backendNodeId: id, objectGroup },
+    );
+    const { result } = await this.send<{ result: { objectId?: string } }>("Runtime.callFunctionOn", {
+      objectId: object.objectId,
+      functionDeclaration: `function() {
+        var root = this.getRootNode();
+        return root instanceof ShadowRoot ? root.host : null;
+      }`,
+    });
+    if (result.objectId) {
+      const { node: host } = await this.send<{ node: { backendNodeId: number } }>("DOM.describeNode", { objectId: result.objectId });
+      this.shadow.hosts.set(id, host.backendNodeId);
+    } else {
+      this.shadow.hosts.delete(id);
+    }
+  }
+
+  /**
+   * The shadow root attached to an element, if it hosts one. Only the tab's
+   * own document is scanned, so elements in out-of-process iframes have none.
+   */
+  shadowRootOf(backendDOMNodeId: number, sessionId?: string): ShadowRootInfo | undefined {
+    return sessionId ? undefined : this.shadow.roots.get(backendDOMNodeId);
+  }
+
+  /** Backend node ID of the host whose shadow tree holds an element, or null if it's in light DOM. */
+  shadowHostOf(backendDOMNodeId: number, sessionId?: string): number | null {
+    return sessionId ? null : this.shadow.hosts.get(backendDOMNodeId) ?? null;
+  }
+
+  /** The top-level document node (its children not included). */
+  async getDocumentNode(): Promise<DOMNode> {
+    const root = this.documentRoot ?? await this.readDocument();
+    return { ...root, children: undefined };
+  }
+
+  /**
+   * DOM.getDocument for the whole tree (with pierce), so that DOM mutation
+   * events keep coming for all of it.
+   */
+  private async readDocument(): Promise<DOMNode & { nodeId: number }> {
+    const { root } = await this.send<{ root: DOMNode & { nodeId: number } }>("DOM.getDocument", { depth: -1, pierce: true });
+    this.documentRoot = root;
+    return root;
+  }
+
+  /**
+   * A DOM node with `depth` levels of descendants (-1 for all), iframe
+   * documents and shadow roots included. Throws if the node is gone.
+   */
+  async describeDOMNode(backendNodeId: number, depth: number, sessionId?: string): Promise<DOMNode> {
+    const { node } = await this.send<{ node: DOMNode }>(
+      "DOM.describeNode",
+      { backendNodeId, depth, pierce: true },
+      sessionId
+    );
+    return node;
+  }
+
+  /** Markup of a node, shadow trees included where the browser supports it. */
+  async getOuterHTML(backendNodeId: number, sessionId?: string): Promise<string> {
+    const { outerHTML } = await this.send<{ outerHTML: string }>(
+      "DOM.getOuterHTML",
+      { backendNodeId, includeShadowDOM: true },
+      sessionId
+    );
+    return outerHTML;
+  }
+
+  /**
+   * Every computed style property of an element (getComputedStyle), by name.
+   * A text node gets its parent element's styles.
+   */
+  async getComputedStyle(backendDOMNodeId: number, sessionId?: string): Promise<Record<string, string>> {
+    const { object } = await this.send<{ object: { objectId: string } }>(
+      "DOM.resolveNode",
+      { backendNodeId: backendDOMNodeId },
+      sessionId
+    );
+
+    const { result } = await this.send<{ result: { value: Record<string, string> } }>(
+      "Runtime.callFunctionOn",
+      {
+        objectId: object.objectId,
+        functionDeclaration: `function() {
+          var style = getComputedStyle(this.nodeType === 1 ? this : this.parentElement);
+          var o = {};
+          for (var i = 0; i < style.length; i++) o[style[i]] = style.getPropertyValue(style[i]);
+          return o;
+        }`,
+        returnByValue: true,
+      },
+      sessionId
+    );
+
+    return result.value;
+  }
+
+  /**
+   * An element's border box (getBoundingClientRect) in CSS pixels, relative
+   * to the viewport of the frame it is in, and whether any of it is inside
+   * that viewport. For a text node, the box around its text.
+   */
+  async getBoundingBox(backendDOMNodeId: number, sessionId?: string): Promise<BoundingBox> {
+    const { object } = await this.send<{ object: { objectId: string } }>(
+      "DOM.resolveNode",
+      { backendNodeId: backendDOMNodeId },
+      sessionId
+    );
+
+    const { result } = await this.send<{ result: { value: BoundingBox } }>(
+      "Runtime.callFunctionOn",
+      {
+        objectId: object.objectId,
+        functionDeclaration: `function() {
+          var r;
+          if (this.nodeType === 1) {
+            r = this.getBoundingClientRect();
+          } else {
+            var range = document.createRange();
+            range.selectNodeContents(this);
+            r = range.getBoundingClientRect();
+          }
+          var round = function (n) { return Math.round(n * 100) / 100; };
+          return {
+            x: round(r.x), y: round(r.y), width: round(r.width), height: round(r.height),
+            inViewport: r.width > 0 && r.height > 0 && r.bottom > 0 && r.right > 0
+              && r.top < window.innerHeight && r.left < window.innerWidth,
+          };
+        }`,
+        returnByValue: true,
+      },
+      sessionId
     );
 
     return result.value;
   }
 
+  /**
+   * Event listeners registered on an element itself (not its ancestors or
+   * descendants), with the start of each handler's source.
+   */
+  async getEventListeners(backendDOMNodeId: number, sessionId?: string): Promise<EventListenerInfo[]> {
+    const objectGroup = "domshell-listeners";
+    const { object } = await this.send<{ object: { objectId: string } }>(
+      "DOM.resolveNode",
+      { backendNodeId: backendDOMNodeId, objectGroup },
+      sessionId
+    );
+
+    try {
+      const { listeners } = await this.send<{ listeners: Array<EventListenerInfo & { handler?: { description?: string } }> }>(
+        "DOMDebugger.getEventListeners",
+        { objectId: object.objectId },
+        sessionId
+      );
+      return listeners.map(({ handler, ...listener }) => ({ ...listener, source: handler?.description }));
+    } finally {
+      await this.send("Runtime.releaseObjectGroup", { objectGroup }, sessionId).catch(() => {});
+    }
+  }
+
+  /**
+   * The elements matching a CSS selector, in document order, with backend
+   * node IDs only if there are at most `limit` of them. DOM.querySelectorAll
+   * searches the main document only (not inside iframes or shadow roots).
+   * Throws if the selector is invalid.
+   */
+  async querySelectorAll(selector: string, limit: number): Promise<SelectorMatches> {
+    const root = this.documentRoot ?? await this.readDocument();
+    const { nodeIds } = await this.send<{ nodeIds: number[] }>("DOM.querySelectorAll", {
+      nodeId: root.nodeId,
+      selector,
+    });
+    if (nodeIds.length > limit) return { count: nodeIds.length, backendNodeIds: [] };
+
+    const backendNodeIds: number[] = [];
+    for (const nodeId of nodeIds) {
+      const { node } = await this.send<{ node: { backendNodeId: number } }>("DOM.describeNode", { nodeId });
+      backendNodeIds.push(node.backendNodeId);
+    }
+    return { count: nodeIds.length, backendNodeIds };
+  }
+
+  /**
+   * The nodes an XPath expression selects in the main document, evaluated
+   * by document.evaluate, in document order; an attribute stands for its
+   * element. Backend node IDs only if there are at most `limit` of them.
+   * Throws with the page's message if the expression is invalid or doesn't
+   * select nodes.
+   */
+  async evaluateXPath(expression: string, limit: number): Promise<SelectorMatches> {
+    const objectGroup = "domshell-xpath";
+    const { result, exceptionDetails } = await this.send<{
+      result: { objectId?: string };
+      exceptionDetails?: { text: string; exception?: { description?: string } };
+    }>("Runtime.evaluate", {
+      expression: `(function (expr) {
+        var r = document.evaluate(expr, document, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null);
+        var nodes = [];
+        for (var i = 0; i < r.snapshotLength; i++) {
+          var n = r.snapshotItem(i);
+          nodes.push(n.nodeType === 2 ? n.ownerElement : n);
+        }
+        return nodes;
+      })(${JSON.stringify(expression)})`,
+      objectGroup,
+    });
+
+    try {
+      if (exceptionDetails) {
+        throw new Error((exceptionDetails.exception?.description ?? exceptionDetails.text).split("\n")[0]);
+      }
+      const { result: properties } = await this.send<{
+        result: Array<{ name: string; value?: { objectId?: string; value?: number } }>;
+      }>("Runtime.getProperties", { objectId: result.objectId, ownProperties: true });
+
+      const count = properties.find((p) => p.name === "length")?.value?.value ?? 0;
+      if (count > limit) return { count, backendNodeIds: [] };
+
+      const backendNodeIds: number[] = [];
+      for (const p of properties) {
+        if (!/^\d+$/.test(p.name) || !p.value?.objectId) continue;
+        const { node } = await this.send<{ node: { backendNodeId: number } }>("DOM.describeNode", { objectId: p.value.objectId });
+        backendNodeIds.push(node.backendNodeId);
+      }
+      return { count, backendNodeIds };
+    } finally {
+      await this.send("Runtime.releaseObjectGroup", { objectGroup }).catch(() => {});
+    }
+  }
+
   /**
    * Get the current page URL.
    */
@@ -328,17 +902,25 @@ export class CDPClient {
   /**
    * Fetch AX trees for all frames (main + iframes) and merge them.
    * Iframe roots are injected as children of the node that owns them.
+   * Out-of-process iframes are read on their own sessions; see
+   * mergeFrameSessionTrees.
    */
   async getAllFrameAXTrees(): Promise<AXNode[]> {
+    // Changes up to now are in the trees read below
+    this.axUpdates = [];
+    this.axDocumentLoaded = false;
+    this.sameProcessFrameIds = [];
+
     // Get main frame tree first
     const mainNodes = await this.getFullAXTree();
 
     try {
       await this.send("Page.enable");
       const frameTree = await this.getFrameTree();
-      const childFrames = collectChildFrames(frameTree);
-
-      if (childFrames.length === 0) return mainNodes;
+      // OOPIFs are in the frame tree too, but the tab's session can't read them
+      const sessionFrames = new Set(Array.from(this.frameSessions.values(), (session) => session.frameId));
+      const childFrames = collectChildFrames(frameTree).filter((frame) => !sessionFrames.has(frame.id));
+      this.sameProcessFrameIds = childFrames.map((frame) => frame.id);
 
       // Fetch each iframe's AX tree and merge
       for (const frame of childFrames) {
@@ -355,15 +937,400 @@ export class CDPClient {
           mainNodes.push(...frameNodes);
         }
       }
-
-      return mainNodes;
     } catch {
       // Page.enable or getFrameTree may fail on some pages
-      return mainNodes;
     }
+
+    await this.mergeFrameSessionTrees(mainNodes);
+    return mainNodes;
+  }
+
+  /**
+   * Fetch each out-of-process iframe's AX tree on its session and hang its
+   * root under the iframe element that embeds it. The nodes are tagged with
+   * their session ID: backend node IDs are per process, so they only mean
+   * something together with it.
+   */
+  private async mergeFrameSessionTrees(nodes: AXNode[]): Promise<void> {
+    // Parents attach before their children, so an enclosing frame's nodes
+    // are always merged by the time a nested frame looks for its owner
+    for (const session of this.frameSessions.values()) {
+      let frameNodes: AXNode[];
+      let ownerBackendId: number;
+      try {
+        frameNodes = (await this.send<{ nodes: AXNode[] }>("Accessibility.getFullAXTree", {}, session.sessionId)).nodes;
+        ({ backendNodeId: ownerBackendId } = await this.send<{ backendNodeId: number }>(
+          "DOM.getFrameOwner", { frameId: session.frameId }, session.parentSessionId
+        ));
+      } catch {
+        continue;   // Detached while we were reading it
+      }
+      if (frameNodes.length === 0) continue;
+
+      const prefix = `oopif_${session.frameId}_`;
+      for (const node of frameNodes) {
+        node.nodeId = prefix + node.nodeId;
+        if (node.childIds) {
+          node.childIds = node.childIds.map((id) => prefix + id);
+        }
+        node.sessionId = session.sessionId;
+      }
+
+      const owner = nodes.find((node) =>
+        node.backendDOMNodeId === ownerBackendId && node.sessionId === session.parentSessionId
+      );
+      if (owner) owner.childIds = [...(owner.childIds ?? []), frameNodes[0].nodeId];
+      nodes.push(...frameNodes);
+    }
+  }
+
+  /**
+   * The AX nodes that changed since getAllFrameAXTrees read the tree, from
+   * Accessibility.nodesUpdated, with node IDs prefixed and tagged the way
+   * that method does so each replaces its entry in the tree. Children new to
+   * the tree are fetched along with their parents. `current` looks a node up
+   * in the tree as it is.
+   *
+   * Null when the tree has to be read again in full: a document loaded or
+   * the root changed, or so much is new that fetching it piece by piece
+   * would take longer.
+   */
+  async takeAXUpdates(current: (nodeId: string) => AXNode | undefined): Promise<AXNode[] | null> {
+    // Changes made just before this call are reported ahead of its reply
+    const { node: root } = await this.send<{ node: AXNode }>("Accessibility.getRootAXNode");
+
+    const batches = this.axUpdates;
+    const documentLoaded = this.axDocumentLoaded;
+    this.axUpdates = [];
+    this.axDocumentLoaded = false;
+    if (documentLoaded || !current(root.nodeId)) return null;
+
+    const updated = new Map<string, AXNode>();
+    const newNodes = new Map<string, AXNode>();   // Reported before anything in the tree points at them
+    const prefixesOf = (sessionId: string | undefined): string[] | null => {
+      if (!sessionId) return ["", ...this.sameProcessFrameIds.map((id) => `frame_${id}_`)];
+      const session = this.frameSessions.get(sessionId);
+      return session ? [`oopif_${session.frameId}_`] : null;
+    };
+
+    for (const { sessionId, nodes } of batches) {
+      const prefixes = prefixesOf(sessionId);
+      if (!prefixes) continue;   // Its frame is gone
+      for (const node of nodes) {
+        const prefix = prefixes.find((p) => updated.has(p + node.nodeId) || current(p + node.nodeId));
+        if (prefix === undefined) {
+          for (const p of prefixes) newNodes.set(p + node.nodeId, tagAXNode(node, p, sessionId, undefined));
+          continue;
+        }
+        const id = prefix + node.nodeId;
+        updated.set(id, tagAXNode(node, prefix, sessionId, updated.get(id) ?? current(id)));
+      }
+    }
+
+    // Bring in children the tree doesn't have yet, level by level
+    let fetches = 0;
+    let parents = Array.from(updated.values());
+    while (parents.length > 0) {
+      const next: AXNode[] = [];
+      for (const parent of parents) {
+        const missing = (parent.childIds ?? []).filter((id) => !updated.has(id) && !current(id));
+        if (missing.length === 0) continue;
+
+        const prefix = frameIdPrefix(parent.nodeId);
+        const rawId = parent.nodeId.slice(prefix.length);
+        let children = missing.map((id) => newNodes.get(id)).filter((n): n is AXNode => !!n);
+        if (children.length < missing.length) {
+          if (++fetches > MAX_AX_UPDATE_FETCHES) return null;
+          const frameId = prefix.startsWith("frame_") ? prefix.slice("frame_".length, -1) : undefined;
+          try {
+            const { nodes } = await this.send<{ nodes: AXNode[] }>(
+              "Accessibility.getChildAXNodes",
+              frameId ? { id: rawId, frameId } : { id: rawId },
+              parent.sessionId
+            );
+            children = nodes.map((n) => tagAXNode(n, prefix, parent.sessionId, undefined))
+              .filter((n) => missing.includes(n.nodeId));
+          } catch {
+            return null;   // Gone again, or the frame went away: read it all
+          }
+        }
+        for (const child of children) {
+          updated.set(child.nodeId, child);
+          next.push(child);
+        }
+      }
+      parents = next;
+    }
+
+    return Array.from(updated.values());
   }
 }
 
+/** A batch of Accessibility.nodesUpdated nodes and the session they came from. */
+interface AXUpdateBatch {
+  sessionId?: string;
+  nodes: AXNode[];
+}
+
+/**
+ * Fetches of new subtrees takeAXUpdates makes before it gives up; past
+ * this, reading the whole tree is quicker.
+ */
+const MAX_AX_UPDATE_FETCHES = 50;
+
+/** The frame prefix of a node ID in the merged tree ("frame_<id>_", "oopif_<id>_"), or "". */
+function frameIdPrefix(nodeId: string): string {
+  return /^(?:frame|oopif)_.*_(?=[^_]*$)/.exec(nodeId)?.[0] ?? "";
+}
+
+/**
+ * A node as reported by CDP, keyed for the merged tree: IDs prefixed with
+ * its frame's prefix and tagged with its session. Children grafted in from
+ * other frames (iframe documents under their owner) are kept from `previous`.
+ */
+function tagAXNode(node: AXNode, prefix: string, sessionId: string | undefined, previous: AXNode | undefined): AXNode {
+  const grafted = (previous?.childIds ?? []).filter((id) => frameIdPrefix(id) !== prefix);
+  return {
+    ...node,
+    nodeId: prefix + node.nodeId,
+    childIds: [...(node.childIds ?? []).map((id) => prefix + id), ...grafted],
+    ...(sessionId ? { sessionId } : {}),
+  };
+}
+
+interface FrameSession {
+  sessionId: string;
+  frameId: string;            // An iframe target's ID is its frame ID
+  url: string;
+  parentSessionId?: string;   // Session of the embedding frame (unset: the tab's own)
+}
+
+const TEXT_NODE = 3;
+
+interface ShadowIndex {
+  roots: Map<number, ShadowRootInfo>;   // Host backend ID -> its shadow root
+  hosts: Map<number, number>;           // Node inside a shadow tree -> nearest host
+  containers: Set<number>;              // Elements with an open or closed root at or below them
+}
+
+function emptyShadowIndex(): ShadowIndex {
+  return { roots: new Map(), hosts: new Map(), containers: new Set() };
+}
+
+const STABLE_ATTRIBUTE_NAMES = new Map<string, keyof StableAttributes>([
+  ["id", "id"],
+  ["name", "name"],
+  ["data-testid", "testId"],
+  ["aria-label", "ariaLabel"],
+]);
+
+/**
+ * Record one node's stable attributes and shadow root, then its subtree.
+ * `host` is the shadow host the node sits under (null in light DOM).
+ * Returns whether an open or closed shadow root was found at or below it.
+ */
+function scanDOMNode(
+  node: DOMNode,
+  attributes: Map<number, StableAttributes>,
+  shadow: ShadowIndex,
+  host: number | null,
+): boolean {
+  const found = stableAttributesOf(node);
+  if (found) attributes.set(node.backendNodeId, found);
+  if (host !== null) shadow.hosts.set(node.backendNodeId, host);
+
+  let hasShadow = false;
+  for (const child of node.children ?? []) {
+    if (scanDOMNode(child, attributes, shadow, host)) hasShadow = true;
+  }
+  for (const root of node.shadowRoots ?? []) {
+    const info = shadowRootInfo(node, root);
+    shadow.roots.set(node.backendNodeId, info);
+    scanDOMNode(root, attributes, shadow, node.backendNodeId);
+    if (info.mode !== "user-agent") hasShadow = true;
+  }
+  // A frame's document is a new tree, outside any shadow host
+  if (node.contentDocument) scanDOMNode(node.contentDocument, attributes, shadow, null);
+
+  if (hasShadow) shadow.containers.add(node.backendNodeId);
+  return hasShadow;
+}
+
+/** An element's stable attributes, or undefined if it has none of them. */
+function stableAttributesOf(node: DOMNode): StableAttributes | undefined {
+  const found: StableAttributes = {};
+  let any = false;
+  const attrs = node.attributes ?? [];
+  for (let i = 0; i + 1 < attrs.length; i += 2) {
+    const key = STABLE_ATTRIBUTE_NAMES.get(attrs[i]);
+    if (key && attrs[i + 1]) {
+      found[key] = attrs[i + 1];
+      any = true;
+    }
+  }
+  return any ? found : undefined;
+}
+
+function shadowRootInfo(host: DOMNode, root: DOMNode & { childNodeCount?: number }): ShadowRootInfo {
+  return {
+    mode: root.shadowRootType ?? "open",
+    hostTag: host.localName || (host.nodeName ?? "").toLowerCase(),
+    childCount: root.children?.length ?? root.childNodeCount ?? 0,
+  };
+}
+
+function attributeOf(node: DOMNode, name: string): string | undefined {
+  const attrs = node.attributes ?? [];
+  for (let i = 0; i + 1 < attrs.length; i += 2) {
+    if (attrs[i] === name) return attrs[i + 1];
+  }
+  return undefined;
+}
+
+const SKIPPED_TEXT_ELEMENTS = new Set(["STYLE", "SCRIPT", "TEMPLATE", "NOSCRIPT"]);
+
+/**
+ * textContent across shadow boundaries: a host contributes its shadow tree
+ * instead of its children, and each <slot> contributes the host children
+ * assigned to it (by their slot attribute), or its own fallback content.
+ * `hosts` is the stack of shadow hosts being rendered into.
+ */
+function composedTextContent(node: DOMNode, hosts: DOMNode[]): string {
+  if (node.nodeType === TEXT_NODE) return node.nodeValue ?? "";
+  if (SKIPPED_TEXT_ELEMENTS.has(node.nodeName ?? "")) return "";
+
+  const roots = (node.shadowRoots ?? []).filter((root) => root.shadowRootType !== "user-agent");
+  if (roots.length > 0) {
+    return roots.map((root) => composedTextContent(root, [...hosts, node])).join("");
+  }
+  if (node.nodeName === "SLOT" && hosts.length > 0) {
+    const host = hosts[hosts.length - 1];
+    const slotName = attributeOf(node, "name") ?? "";
+    const assigned = (host.children ?? []).filter((child) =>
+      (child.nodeType === TEXT_NODE ? "" : attributeOf(child, "slot") ?? "") === slotName
+    );
+    if (assigned.length > 0) {
+      return assigned.map((child) => composedTextContent(child, hosts.slice(0, -1))).join("");
+    }
+  }
+  return (node.children ?? []).map((child) => composedTextContent(child, hosts)).join("");
+}
+
+/**
+ * innerText across open shadow boundaries, run on the element in page JS.
+ * Subtrees without shadow hosts use the browser's own innerText; the rest is
+ * walked through shadowRoot and slot.assignedNodes(), skipping hidden
+ * elements and putting block-level elements on their own lines.
+ */
+const COMPOSED_INNER_TEXT = `function() {
+  var hasShadowBelow = function (el) {
+    if (el.shadowRoot) return true;
+    return Array.prototype.some.call(el.querySelectorAll('*'), function (d) { return !!d.shadowRoot; });
+  };
+  var visible = function (el) {
+    if (el.checkVisibility) return el.checkVisibility({ visibilityProperty: true });
+    return !!(el.offsetWidth || el.offsetHeight || el.getClientRects().length);
+  };
+  var textOf = function (el) {
+    if (/^(STYLE|SCRIPT|TEMPLATE|NOSCRIPT)$/.test(el.tagName) || !visible(el)) return '';
+    if (!hasShadowBelow(el)) return el.innerText || el.value || '';
+    var kids = el.shadowRoot ? el.shadowRoot.childNodes
+      : el.tagName === 'SLOT' && el.assignedNodes({ flatten: true }).length ? el.assignedNodes({ flatten: true })
+      : el.childNodes;
+    var out = '';
+    Array.prototype.forEach.call(kids, function (kid) {
+      if (kid.nodeType === 3) { out += kid.nodeValue.replace(/\\s+/g, ' '); return; }
+      if (kid.nodeType !== 1) return;
+      var text = textOf(kid);
+      var display = getComputedStyle(kid).display;
+      out += display === 'inline' || display === 'inline-block' || display === 'contents' ? text : '\\n' + text + '\\n';
+    });
+    return out;
+  };
+  return textOf(this).replace(/[ \\t]*\\n[ \\t]*/g, '\\n').replace(/\\n{3,}/g, '\\n\\n').trim();
+}`;
+
+// Page JS shared by VISIBILITY_OF and VISIBLE_TEXT: shown(el) says whether an
+// element is rendered where a user could see it. Not when checkVisibility
+// says so (display, visibility, opacity 0, content-visibility), nor when it
+// or an ancestor is clipped to a pixel or less, the visually-hidden
+// (sr-only) pattern. display: contents elements have no box of their own and
+// take after their parent.
+const SHOWN_HELPER = `
+  var shownCache = new Map();
+  var shown = function (el) {
+    if (!el) return true;
+    if (shownCache.has(el)) return shownCache.get(el);
+    var parent = el.parentElement || (el.parentNode && el.parentNode.host) || null;
+    var style = getComputedStyle(el);
+    var ok;
+    if (style.display === 'contents') {
+      ok = shown(parent);
+    } else {
+      ok = el.checkVisibility
+        ? el.checkVisibility({ checkOpacity: true, opacityProperty: true, checkVisibilityCSS: true, visibilityProperty: true })
+        : !!(el.offsetWidth || el.offsetHeight || el.getClientRects().length);
+      if (ok) {
+        var r = el.getBoundingClientRect();
+        var clipped = (style.overflow !== 'visible' && r.width <= 1 && r.height <= 1)
+          || style.clip === 'rect(0px, 0px, 0px, 0px)' || style.clipPath === 'inset(50%)';
+        ok = !clipped && shown(parent);
+      }
+    }
+    shownCache.set(el, ok);
+    return ok;
+  };`;
+
+// Visibility of each node passed as an argument
+const VISIBILITY_OF = `function() {
+  ${SHOWN_HELPER}
+  return Array.prototype.map.call(arguments, function (node) {
+    if (!node.isConnected) return 'hidden';
+    if (!shown(node.nodeType === 1 ? node : node.parentElement || node.host)) return 'hidden';
+    var r;
+    if (node.nodeType === 1) {
+      r = node.getBoundingClientRect();
+    } else {
+      var range = (node.ownerDocument || node).createRange();
+      range.selectNodeContents(node);
+      r = range.getBoundingClientRect();
+    }
+    if (r.width === 0 || r.height === 0) return 'hidden';
+    var view = (node.ownerDocument || node).defaultView || window;
+    return r.bottom > 0 && r.right > 0 && r.top < view.innerHeight && r.left < view.innerWidth
+      ? 'in-viewport' : 'offscreen';
+  });
+}`;
+
+// Text of the visible text nodes below this node; a new block starts a new line
+const VISIBLE_TEXT = `function() {
+  ${SHOWN_HELPER}
+  if (this.nodeType === 3) return shown(this.parentElement) ? this.nodeValue.trim() : '';
+  var blockCache = new Map();
+  var blockOf = function (el) {
+    if (!el) return null;
+    if (!blockCache.has(el)) {
+      var display = getComputedStyle(el).display;
+      blockCache.set(el, display === 'inline' || display === 'inline-block' || display === 'contents' ? blockOf(el.parentElement) : el);
+    }
+    return blockCache.get(el);
+  };
+  var walker = (this.ownerDocument || this).createTreeWalker(this, NodeFilter.SHOW_TEXT);
+  var out = '';
+  var lastBlock = null;
+  for (var node = walker.nextNode(); node; node = walker.nextNode()) {
+    var el = node.parentElement;
+    if (!el || /^(STYLE|SCRIPT|TEMPLATE|NOSCRIPT)$/.test(el.tagName) || !shown(el)) continue;
+    var block = blockOf(el);
+    var text = node.nodeValue.replace(/\\s+/g, ' ');
+    if (!text.trim() && block !== lastBlock) continue;
+    if (block !== lastBlock && out) out += '\\n';
+    out += block !== lastBlock ? text.replace(/^ /, '') : text;
+    lastBlock = block;
+  }
+  return out.replace(/[ \\t]*\\n[ \\t]*/g, '\\n').replace(/ {2,}/g, ' ').trim();
+}`;
+
 interface FrameTreeNode {
   frame: { id: string; url: string; name?: string };
   childFrames?: FrameTreeNode[];
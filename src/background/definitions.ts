@@ -0,0 +1,112 @@
+/**
+ * User-defined command names: aliases (`alias ll='ls -l'`) and shell
+ * functions (`greet() { echo hi $1; }`). Both live under one key in
+ * chrome.storage so they survive service-worker restarts, and are cached in
+ * memory for synchronous tab completion. A function is stored as the source
+ * text of its body and re-parsed each time it is called.
+ */
+
+interface Definitions {
+  aliases: Record<string, string>;
+  functions: Record<string, string>;
+}
+
+/** Letters, digits, '_', '.' and '-', not starting with a digit, '.' or '-'. */
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+
+/** Own keys only, so names like "constructor" are not found on the prototype. */
+function hasName(record: Record<string, string>, name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, name);
+}
+
+export class DefinitionStore {
+  private definitions: Definitions = { aliases: {}, functions: {} };
+  private loaded: Promise<void>;
+
+  constructor(
+    private area: chrome.storage.StorageArea,
+    private key: string,
+  ) {
+    this.loaded = this.area.get(this.key)
+      .then((result) => {
+        const stored = result[this.key] as Partial<Definitions> | undefined;
+        this.definitions = { aliases: stored?.aliases ?? {}, functions: stored?.functions ?? {} };
+      })
+      .catch(() => {});
+  }
+
+  static isValidName(name: string): boolean {
+    return NAME_PATTERN.test(name);
+  }
+
+  /** Alias and function names, sorted (empty until the first load finishes). */
+  cachedNames(): string[] {
+    const { aliases, functions } = this.definitions;
+    return [...new Set([...Object.keys(aliases), ...Object.keys(functions)])].sort();
+  }
+
+  cachedAliasNames(): string[] {
+    return Object.keys(this.definitions.aliases).sort();
+  }
+
+  /** All aliases as [name, value] pairs, sorted by name. */
+  async aliases(): Promise<Array<[string, string]>> {
+    await this.loaded;
+    return Object.entries(this.definitions.aliases).sort(([a], [b]) => a.localeCompare(b));
+  }
+
+  /** All functions as [name, body] pairs, sorted by name. */
+  async functions(): Promise<Array<[string, string]>> {
+    await this.loaded;
+    return Object.entries(this.definitions.functions).sort(([a], [b]) => a.localeCompare(b));
+  }
+
+  async getAlias(name: string): Promise<string | undefined> {
+    await this.loaded;
+    return hasName(this.definitions.aliases, name) ? this.definitions.aliases[name] : undefined;
+  }
+
+  async getFunction(name: string): Promise<string | undefined> {
+    await this.loaded;
+    return hasName(this.definitions.functions, name) ? this.definitions.functions[name] : undefined;
+  }
+
+  async setAlias(name: string, value: string): Promise<void> {
+    await this.loaded;
+    await this.save({ ...this.definitions, aliases: { ...this.definitions.aliases, [name]: value } });
+  }
+
+  async setFunction(name: string, body: string): Promise<void> {
+    await this.loaded;
+    await this.save({ ...this.definitions, functions: { ...this.definitions.functions, [name]: body } });
+  }
+
+  /** Remove an alias, or every alias when `name` is omitted. Returns false if it did not exist. */
+  async removeAlias(name?: string): Promise<boolean> {
+    await this.loaded;
+    if (name === undefined) {
+      await this.save({ ...this.definitions, aliases: {} });
+      return true;
+    }
+    if (!hasName(this.definitions.aliases, name)) return false;
+    const aliases = { ...this.definitions.aliases };
+    delete aliases[name];
+    await this.save({ ...this.definitions, aliases });
+    return true;
+  }
+
+  /** Remove a function. Returns false if it did not exist. */
+  async removeFunction(name: string): Promise<boolean> {
+    await this.loaded;
+    if (!hasName(this.definitions.functions, name)) return false;
+    const functions = { ...this.definitions.functions };
+    delete functions[name];
+    await this.save({ ...this.definitions, functions });
+    return true;
+  }
+
+  private async save(definitions: Definitions): Promise<void> {
+    await this.area.set({ [this.key]: definitions });
+    this.definitions = definitions;
+  }
+}
@@ -0,0 +1,105 @@
+import type { DOMEntry, DOMNode } from "../shared/types.ts";
+
+/**
+ * Maps DOM nodes from CDP into the raw DOM view (~/tabs/<id>/@dom/), for the
+ * elements the Accessibility Tree leaves out: unlabelled divs holding prices,
+ * <script type="application/ld+json">, hidden inputs. Entries are named after
+ * their tag, id and classes; elements with child elements are directories.
+ * Iframe documents and shadow roots appear as #document and #shadow-root
+ * directories under their element.
+ */
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+const CDATA_SECTION_NODE = 4;
+
+// Characters that would split a path or read as a wildcard
+const UNSAFE_NAME_CHARS = /[\s/*?[\]]+/g;
+
+/** Classes that go into a name; more than this reads as noise (utility CSS). */
+const MAX_NAME_CLASSES = 2;
+
+function attributeValue(node: DOMNode, name: string): string | undefined {
+  const attrs = node.attributes ?? [];
+  for (let i = 0; i + 1 < attrs.length; i += 2) {
+    if (attrs[i] === name) return attrs[i + 1];
+  }
+  return undefined;
+}
+
+/** The attributes of an element as name/value pairs, in source order. */
+export function domAttributes(node: DOMNode): Array<[string, string]> {
+  const attrs = node.attributes ?? [];
+  const pairs: Array<[string, string]> = [];
+  for (let i = 0; i + 1 < attrs.length; i += 2) pairs.push([attrs[i], attrs[i + 1]]);
+  return pairs;
+}
+
+/** Tag name of an element (lower case), or #document / #shadow-root. */
+export function domTag(node: DOMNode): string {
+  if (node.shadowRootType) return "#shadow-root";
+  if (node.nodeName === "#document") return "#document";
+  return node.localName || (node.nodeName ?? "").toLowerCase();
+}
+
+/**
+ * Name of a DOM entry before de-duplication: tag#id when the element has an
+ * id, else the tag and its first classes (div.price.large), else the tag.
+ */
+export function domNodeName(node: DOMNode): string {
+  const tag = domTag(node);
+  if (tag.startsWith("#")) return tag;
+
+  const id = attributeValue(node, "id")?.trim();
+  if (id) return `${tag}#${id}`.replace(UNSAFE_NAME_CHARS, "_");
+
+  const classes = (attributeValue(node, "class") ?? "").split(/\s+/).filter(Boolean).slice(0, MAX_NAME_CLASSES);
+  return [tag, ...classes].join(".").replace(UNSAFE_NAME_CHARS, "_");
+}
+
+function isElementLike(node: DOMNode): boolean {
+  return node.nodeType === ELEMENT_NODE || !!node.shadowRootType || node.nodeName === "#document";
+}
+
+/**
+ * The nodes listed under a DOM node: its shadow roots (user-agent ones are
+ * part of built-in controls and left out), its child elements, and an
+ * iframe's document.
+ */
+function domChildNodes(node: DOMNode): DOMNode[] {
+  const shadowRoots = (node.shadowRoots ?? []).filter((root) => root.shadowRootType !== "user-agent");
+  const elements = (node.children ?? []).filter(isElementLike);
+  return [...shadowRoots, ...elements, ...(node.contentDocument ? [node.contentDocument] : [])];
+}
+
+/**
+ * Entries for the children of a DOM node fetched with at least two levels
+ * below it (so each child knows whether it has children of its own).
+ * Repeated names get _2, _3, ... in document order.
+ */
+export function getDOMChildEntries(node: DOMNode): DOMEntry[] {
+  const counts = new Map<string, number>();
+  return domChildNodes(node).map((child) => {
+    const base = domNodeName(child);
+    const count = (counts.get(base) ?? 0) + 1;
+    counts.set(base, count);
+    return {
+      name: count === 1 ? base : `${base}_${count}`,
+      tag: domTag(child),
+      isDirectory: domChildNodes(child).length > 0,
+      node: child,
+    };
+  });
+}
+
+/**
+ * All text below a DOM node, script and style contents included (the raw
+ * view is for reading what the page holds, such as JSON-LD), in listing
+ * order: shadow roots, then children, then an iframe's document.
+ */
+export function domTextContent(node: DOMNode): string {
+  if (node.nodeType === TEXT_NODE || node.nodeType === CDATA_SECTION_NODE) return node.nodeValue ?? "";
+  const roots = (node.shadowRoots ?? []).filter((root) => root.shadowRootType !== "user-agent");
+  const parts = [...roots, ...node.children ?? [], ...(node.contentDocument ? [node.contentDocument] : [])];
+  return parts.map(domTextContent).join("");
+}
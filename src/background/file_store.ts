@@ -0,0 +1,75 @@
+/**
+ * Flat directories of small text files kept in chrome.storage, for the parts
+ * of ~ that are not the browser (e.g. ~/scripts). Everything lives under one
+ * storage key as a name → file record, so a directory loads in a single read.
+ * Names are cached in memory for synchronous tab completion.
+ */
+
+export interface StoredFile {
+  name: string;
+  content: string;
+  modified: number;   // ms since epoch
+}
+
+/** Plain file names only: no slashes, no leading dot. */
+const FILE_NAME_PATTERN = /^[A-Za-z0-9_][A-Za-z0-9_.-]*$/;
+
+export class FileStore {
+  private names: string[] = [];
+
+  constructor(
+    private area: chrome.storage.StorageArea,
+    private key: string,
+  ) {
+    // Warm the completion cache; failures just leave it empty
+    this.load().catch(() => {});
+  }
+
+  static isValidName(name: string): boolean {
+    return FILE_NAME_PATTERN.test(name);
+  }
+
+  /** Cached file names, sorted (may lag a write made from another context). */
+  cachedNames(): string[] {
+    return this.names;
+  }
+
+  async list(): Promise<StoredFile[]> {
+    const files = await this.load();
+    return Object.values(files).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async read(name: string): Promise<StoredFile | null> {
+    const files = await this.load();
+    return files[name] ?? null;
+  }
+
+  async write(name: string, content: string): Promise<StoredFile> {
+    const files = await this.load();
+    const file = { name, content, modified: Date.now() };
+    files[name] = file;
+    await this.save(files);
+    return file;
+  }
+
+  /** Remove a file. Returns false if it did not exist. */
+  async remove(name: string): Promise<boolean> {
+    const files = await this.load();
+    if (!(name in files)) return false;
+    delete files[name];
+    await this.save(files);
+    return true;
+  }
+
+  private async load(): Promise<Record<string, StoredFile>> {
+    const result = await this.area.get(this.key);
+    const files = (result[this.key] as Record<string, StoredFile> | undefined) ?? {};
+    this.names = Object.keys(files).sort();
+    return files;
+  }
+
+  private async save(files: Record<string, StoredFile>): Promise<void> {
+    await this.area.set({ [this.key]: files });
+    this.names = Object.keys(files).sort();
+  }
+}
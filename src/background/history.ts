@@ -0,0 +1,109 @@
+/**
+ * Kernel-side command history, shared by the side panel and MCP clients.
+ * Entries are kept in chrome.storage.local so they survive service-worker
+ * restarts and closing the panel, and each one records where it came from.
+ */
+
+export interface HistoryEntry {
+  number: number;   // Like bash's history number; restarts at 1 after a clear
+  command: string;
+  origin: string;   // "panel" or "mcp:<session>"
+  time: number;     // ms since epoch
+}
+
+/** Oldest entries are dropped beyond this (HISTSIZE). */
+const MAX_ENTRIES = 1000;
+
+export class CommandHistory {
+  private entries: HistoryEntry[] = [];
+  private loaded: Promise<void>;
+
+  constructor(
+    private area: chrome.storage.StorageArea,
+    private key: string,
+  ) {
+    this.loaded = this.area.get(this.key)
+      .then((result) => {
+        this.entries = (result[this.key] as HistoryEntry[] | undefined) ?? [];
+      })
+      .catch(() => {});
+  }
+
+  async list(): Promise<HistoryEntry[]> {
+    await this.loaded;
+    return this.entries;
+  }
+
+  async add(command: string, origin: string): Promise<HistoryEntry> {
+    await this.loaded;
+    const last = this.entries[this.entries.length - 1];
+    const entry = { number: (last?.number ?? 0) + 1, command, origin, time: Date.now() };
+    this.entries = [...this.entries, entry].slice(-MAX_ENTRIES);
+    await this.save();
+    return entry;
+  }
+
+  async clear(): Promise<void> {
+    await this.loaded;
+    this.entries = [];
+    await this.save();
+  }
+
+  /**
+   * Expand history references like bash: !! (previous command), !N (entry N),
+   * !-N (N commands back) and !prefix (latest command starting with prefix).
+   * Single-quoted text is left alone, as is a ! before a space or = (so
+   * `test ! -e x` and `!=` still work); \! is a literal !.
+   * Throws `!ref: event not found` when a reference matches nothing.
+   */
+  async expand(line: string): Promise<{ line: string; expanded: boolean }> {
+    await this.loaded;
+    let out = "";
+    let expanded = false;
+    let inQuote: string | null = null;
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (inQuote === "'") {
+        if (char === "'") inQuote = null;
+        out += char;
+      } else if (char === "\\" && line[i + 1] === "!") {
+        out += "!";
+        i++;
+      } else if (char === "!") {
+        const ref = line.slice(i).match(/^!(!|-?[0-9]+|[A-Za-z_.~/][^\s;|&()<>"']*)/);
+        if (!ref) {
+          out += char;
+          continue;
+        }
+        const entry = this.find(ref[1]);
+        if (!entry) throw new Error(`${ref[0]}: event not found`);
+        out += entry.command;
+        expanded = true;
+        i += ref[0].length - 1;
+      } else {
+        if (char === '"' || char === "'") inQuote = inQuote === char ? null : inQuote ?? char;
+        out += char;
+      }
+    }
+    return { line: out, expanded };
+  }
+
+  private find(designator: string): HistoryEntry | null {
+    if (designator === "!") return this.entries[this.entries.length - 1] ?? null;
+    if (/^-[0-9]+$/.test(designator)) {
+      return this.entries[this.entries.length + parseInt(designator, 10)] ?? null;
+    }
+    if (/^[0-9]+$/.test(designator)) {
+      const number = parseInt(designator, 10);
+      return this.entries.find((e) => e.number === number) ?? null;
+    }
+    for (let i = this.entries.length - 1; i >= 0; i--) {
+      if (this.entries[i].command.startsWith(designator)) return this.entries[i];
+    }
+    return null;
+  }
+
+  private async save(): Promise<void> {
+    await this.area.set({ [this.key]: this.entries });
+  }
+}
@@ -1,13 +1,44 @@
 import { CDPClient } from "./cdp_client.ts";
 import {
   buildNodeMap,
+  expandGlob,
   findChildByName,
   findRootNode,
-  generateNodeName,
   getChildVFSNodes,
+  globSegmentToRegExp,
+  hasGlob,
+  hasStates,
+  locateByBackendId,
+  nodeName,
+  patchNodeMap,
   resolveByPath,
+  setNameRegistry,
+  setTransliteration,
+  STATE_WORDS,
+  stateWords,
 } from "./vfs_mapper.ts";
-import type { AXNode, ShellState, VFSNode } from "../shared/types.ts";
+import {
+  PIPE_FILTERS,
+  createMatcher,
+  isPipeFilter,
+  matchOptionsFromFlags,
+  runPipeFilter,
+  splitLines,
+  splitShortFlags,
+  stripAnsi,
+  withContext,
+} from "./text_filters.ts";
+import type { FilterResult, Matcher } from "./text_filters.ts";
+import { findSubstitutionEnd, formatStatements, parseScript, splitOnPipe, splitRedirection, splitScript } from "./shell_parser.ts";
+import type { Redirection, ShellNode, ShellStatement } from "./shell_parser.ts";
+import { FileStore } from "./file_store.ts";
+import type { StoredFile } from "./file_store.ts";
+import { CommandHistory } from "./history.ts";
+import { DefinitionStore } from "./definitions.ts";
+import { NameRegistry } from "./name_registry.ts";
+import { domAttributes, domTextContent, getDOMChildEntries } from "./dom_mapper.ts";
+import { INDEX_MOUNTS, buildIndex, findIndexEntry, indexEntryPath } from "./semantic_index.ts";
+import type { AXNode, CommandResult, CompleteResponseMessage, DOMEntry, DOMNode, HistoryMessage, IndexEntry, SelectorMatches, ShellState, StableAttributes, StderrMessage, StdoutMessage, VFSNode, Visibility } from "../shared/types.ts";
 import { INTERACTIVE_ROLES } from "../shared/types.ts";
 
 // ---- State ----
@@ -17,6 +48,7 @@ const cdp = new CDPClient();
 const state: ShellState = {
   path: [],                // Start at browser root (~)
   axNodeIds: [],           // No DOM context yet
+  domNodeIds: [],          // Not in the raw DOM view
   activeTabId: null,       // No tab attached yet
   env: {
     SHELL: "/bin/domshell",
@@ -27,6 +59,51 @@ const state: ShellState = {
 
 let nodeMap: Map<string, AXNode> = new Map();
 let treeStale = false;
+let treeReload = false;   // The document changed, not just some nodes: read the whole tree again
+// How the tree has been kept current: full reads vs. changed nodes patched in (for debug stats)
+const treeUpdateStats = { fullReads: 0, nodesRead: 0, patches: 0, nodesPatched: 0, nodesDropped: 0 };
+const changedDomNodes = new Set<string>();   // DOM nodes inserted, removed or modified since the tree was read
+let lastDomMutationAt = 0;
+const nameRegistries = new Map<number, NameRegistry>();   // Per tab, so names survive refreshes
+let lastExitStatus = 0;   // Exposed to command lines as $?
+
+// Lines from the side panel and MCP clients, tagged with where they came from
+const commandHistory = new CommandHistory(chrome.storage.local, "history");
+let currentOrigin = "panel";   // Origin of the line being run ("panel" or "mcp:<session>")
+
+// Directories of ~ that hold files in chrome.storage instead of browser objects
+const scripts = new FileStore(chrome.storage.local, "scripts");   // Saved scripts, kept across browser sessions
+const scratch = new FileStore(chrome.storage.session, "tmp");     // ~/tmp, cleared when the browser closes
+const STORED_DIRS = new Map<string, FileStore>([["scripts", scripts], ["tmp", scratch]]);
+const scriptStack: ScriptFrame[] = [];   // Scripts and functions being run, innermost last
+
+/**
+ * What a command line may do beyond what its MCP server checked in the line
+ * itself. They hold for everything the line runs, so a saved script or a
+ * function can't reach past them. Lines from the side panel may do it all.
+ */
+interface LinePermissions {
+  definitions: boolean;   // Expand aliases and functions (the server can't vet what they hold)
+  sensitive: boolean;     // Run whoami
+  exposeCookies: boolean; // Keep whoami output past the line (~/tmp files, variables)
+}
+const PANEL_PERMISSIONS: LinePermissions = { definitions: true, sensitive: true, exposeCookies: true };
+let linePermissions = PANEL_PERMISSIONS;   // Those of the line being run
+let lineRanWhoami = false;                 // The MCP server only redacts what comes back from the line
+
+/**
+ * Refuse to keep anything past the line once whoami has run in it, unless the
+ * line may expose cookies: a later line could read it back unredacted.
+ */
+function ensureNotKeepingCookies(cmd: string): void {
+  if (lineRanWhoami && !linePermissions.exposeCookies) {
+    throw new CommandError(`${cmd}: can't keep whoami output for this MCP server (it needs --expose-cookies)`);
+  }
+}
+
+// Aliases and shell functions, kept across browser sessions
+const definitions = new DefinitionStore(chrome.storage.local, "definitions");
+const activeAliases = new Set<string>();   // Aliases being expanded, never expanded again inside themselves
 
 // ---- Path Helpers ----
 
@@ -84,6 +161,7 @@ function ensureInsideTab(): void {
 
 /** Get the current AX node ID (last in axNodeIds). */
 function getCurrentNodeId(): string {
+  if (isInDomView()) throw new Error("Not available in the raw DOM view; 'cd @ax' goes back to the accessibility view.");
   if (state.axNodeIds.length === 0) throw new Error("No DOM context. Navigate into a tab first.");
   return state.axNodeIds[state.axNodeIds.length - 1];
 }
@@ -95,10 +173,289 @@ function getDomSegments(): string[] {
   return state.path.slice(start);
 }
 
+/** The current directory as a VFS node, named after the last path segment ("/" at the tab root). */
+function currentVFSNode(): VFSNode {
+  const axNodeId = getCurrentNodeId();
+  const node = nodeMap.get(axNodeId);
+  const domSegs = getDomSegments();
+  return {
+    axNodeId,
+    backendDOMNodeId: node?.backendDOMNodeId,
+    name: domSegs.length > 0 ? domSegs[domSegs.length - 1] : "/",
+    role: node?.role?.value ?? "",
+    isDirectory: true,
+    sessionId: node?.sessionId,
+  };
+}
+
+/** An element named by a path argument, with the path it matched (for headers). */
+interface ElementTarget {
+  path: string;
+  node: VFSNode;
+  pseudoFile?: string;   // NAME/.bbox and the like: the pseudo file asked for (see PSEUDO_FILES)
+}
+
+/** Cap on elements one wildcard argument may expand to, since each costs CDP calls. */
+const MAX_GLOB_MATCHES = 200;
+
+/**
+ * Run `render` for every element the path arguments name, expanding
+ * wildcards (*, ?, [abc], **) against the current directory. Outputs are
+ * separated by blank lines; `multiple` tells render to add a header naming
+ * the path. Like `cat a b` in bash, a path that matches nothing (or fails to
+ * render) is reported on stderr with status 1 while the others still print.
+ * With `pseudoFiles`, a path ending in a pseudo file (NAME/.bbox, or .bbox
+ * alone for the current element) names that file of each element it matches.
+ */
+async function runOnTargets(
+  cmd: string,
+  targets: string[],
+  render: (target: ElementTarget, multiple: boolean) => Promise<string>,
+  pseudoFiles = false,
+): Promise<string | CommandResult> {
+  const currentId = getCurrentNodeId();
+  const matches: ElementTarget[] = [];
+  const errors: string[] = [];
+  for (const argument of targets) {
+    const pseudo = pseudoFiles ? splitPseudoPath(argument) : null;
+    const target = pseudo ? pseudo.element : argument;
+    const withPseudo = (found: ElementTarget[]): ElementTarget[] => pseudo
+      ? found.map((t) => ({ ...t, path: `${t.path}/${pseudo.file}`, pseudoFile: pseudo.file }))
+      : found;
+
+    if (pseudo && !target) {
+      matches.push({ path: pseudo.file, node: currentVFSNode(), pseudoFile: pseudo.file });
+      continue;
+    }
+    if (isSelectorPath(target) || indexMountOf(target)) {
+      try {
+        matches.push(...withPseudo(isSelectorPath(target) ? await resolveSelector(cmd, target) : resolveIndexPath(cmd, target)));
+      } catch (err: any) {
+        if (!(err instanceof CommandError)) throw err;
+        errors.push(err.message);
+      }
+      continue;
+    }
+    const found = expandGlob(currentId, target, nodeMap);
+    if (found.length === 0) {
+      errors.push(hasGlob(target) ? `${cmd}: ${argument}: No matches` : `${cmd}: ${argument}: No such file or directory`);
+    } else if (found.length > MAX_GLOB_MATCHES) {
+      errors.push(`${cmd}: ${argument}: matches ${found.length} elements (limit ${MAX_GLOB_MATCHES}); narrow the pattern`);
+    } else {
+      matches.push(...withPseudo(found));
+    }
+  }
+
+  const outputs: string[] = [];
+  for (const match of matches) {
+    try {
+      outputs.push(await render(match, matches.length > 1));
+    } catch (err: any) {
+      if (!(err instanceof CommandError)) throw err;
+      errors.push(err.message);
+    }
+  }
+  const stdout = outputs.filter(Boolean).join("\r\n\r\n");
+  if (errors.length === 0) return stdout;
+  return { stdout, stderr: `\x1b[31m${errors.join("\r\n")}\x1b[0m`, status: 1 };
+}
+
+/** Path arguments that select elements by CSS selector or XPath instead of by name. */
+function isSelectorPath(target: string): boolean {
+  return target.startsWith("@css:") || target.startsWith("@xpath:");
+}
+
+/**
+ * Elements a `@css:SELECTOR` or `@xpath:EXPR` argument selects, in document
+ * order, each as its chain of nodes from the tab root (element last).
+ * Selectors search the whole document whatever the current directory;
+ * matches with no accessibility node (text nodes, elements hidden from the
+ * AX tree) are skipped.
+ */
+async function selectorChains(cmd: string, target: string): Promise<VFSNode[][]> {
+  const isCss = target.startsWith("@css:");
+  const query = target.slice(isCss ? "@css:".length : "@xpath:".length);
+  if (!query) throw new CommandError(`${cmd}: ${target}: empty selector`, 2);
+
+  let matches: SelectorMatches;
+  try {
+    matches = isCss
+      ? await cdp.querySelectorAll(query, MAX_GLOB_MATCHES)
+      : await cdp.evaluateXPath(query, MAX_GLOB_MATCHES);
+  } catch (err: any) {
+    throw new CommandError(`${cmd}: ${target}: invalid ${isCss ? "selector" : "XPath"} (${err.message})`, 2);
+  }
+  if (matches.count > MAX_GLOB_MATCHES) {
+    throw new CommandError(`${cmd}: ${target}: matches ${matches.count} elements (limit ${MAX_GLOB_MATCHES}); narrow the selector`);
+  }
+  const backendIds = matches.backendNodeIds;
+
+  const chains: VFSNode[][] = [];
+  for (const backendId of backendIds) {
+    const chain = locateByBackendId(backendId, nodeMap);
+    if (chain && chain.length > 0) chains.push(chain);
+  }
+  if (chains.length === 0) {
+    throw new CommandError(backendIds.length === 0
+      ? `${cmd}: ${target}: No matches`
+      : `${cmd}: ${target}: matches ${backendIds.length} element(s), none in the accessibility tree`);
+  }
+  return chains;
+}
+
+/** Selector matches as targets whose path runs from the tab root. */
+async function resolveSelector(cmd: string, target: string): Promise<ElementTarget[]> {
+  const chains = await selectorChains(cmd, target);
+  return chains.map((chain) => ({ path: chain.map((n) => n.name).join("/"), node: chain[chain.length - 1] }));
+}
+
+/**
+ * The one element a path argument names: a name or relative path (null if
+ * there is no such element), or the first match of an @css:/@xpath:
+ * selector or an index path like @links/NAME (which throw when nothing
+ * matches, saying why).
+ */
+async function resolveElement(cmd: string, target: string): Promise<VFSNode | null> {
+  if (indexMountOf(target)) return resolveIndexPath(cmd, target)[0].node;
+  if (!isSelectorPath(target)) return resolveByPath(getCurrentNodeId(), target, nodeMap);
+  return (await resolveSelector(cmd, target))[0].node;
+}
+
+/** The index directory a path starts in (@links for @links/home_link), or null. */
+function indexMountOf(target: string): string | null {
+  const mount = target.split("/")[0];
+  return INDEX_MOUNTS.has(mount) ? mount : null;
+}
+
+/** Entries of one of the attached tab's index directories. */
+function tabIndex(mount: string): IndexEntry[] {
+  return buildIndex(mount, state.axNodeIds[0], nodeMap);
+}
+
+/**
+ * Elements an index path names, from anywhere in the tab: @tables/NAME
+ * follows the entry to its element, and anything after it is a path below
+ * that element. Entry names and the rest of the path may use wildcards.
+ * Throws when nothing matches.
+ */
+function resolveIndexPath(cmd: string, target: string): ElementTarget[] {
+  const [mount, entryName, ...rest] = target.split("/").filter(Boolean);
+  if (!entryName) {
+    throw new CommandError(`${cmd}: ${target}: Is an index directory (see 'ls ${mount}')`);
+  }
+
+  const entries = tabIndex(mount);
+  const picked = hasGlob(entryName)
+    ? entries.filter((e) => globSegmentToRegExp(entryName).test(e.name))
+    : [findIndexEntry(entries, entryName)].filter((e): e is IndexEntry => e !== null);
+  const matches: ElementTarget[] = [];
+  for (const entry of picked) {
+    const node = entry.chain[entry.chain.length - 1];
+    const path = `${mount}/${entry.name}`;
+    if (rest.length === 0) {
+      matches.push({ path, node });
+      continue;
+    }
+    const below = rest.join("/") + (target.endsWith("/") ? "/" : "");
+    for (const found of expandGlob(node.axNodeId, below, nodeMap)) {
+      matches.push({ path: `${path}/${found.path}`, node: found.node });
+    }
+  }
+
+  if (matches.length === 0) {
+    throw new CommandError(hasGlob(target) ? `${cmd}: ${target}: No matches` : `${cmd}: ${target}: No such file or directory`);
+  }
+  if (matches.length > MAX_GLOB_MATCHES) {
+    throw new CommandError(`${cmd}: ${target}: matches ${matches.length} elements (limit ${MAX_GLOB_MATCHES}); narrow the pattern`);
+  }
+  return matches;
+}
+
+/**
+ * Stored file a path refers to: ~/DIR/NAME, or a relative path from ~
+ * (DIR/NAME) or from ~/DIR (NAME), where DIR is scripts or tmp. Null for any
+ * other path.
+ */
+function resolveStoredPath(target: string): StoredFileRef | null {
+  let segments: string[];
+  if (target.startsWith("~/")) {
+    segments = target.slice(2).split("/").filter(Boolean);
+  } else if (isInsideTab()) {
+    return null;
+  } else {
+    segments = [...state.path, ...target.split("/").filter(Boolean)];
+  }
+  const store = STORED_DIRS.get(segments[0]);
+  return store && segments.length === 2 ? { dir: segments[0], name: segments[1], store } : null;
+}
+
+/**
+ * Fetch the attached tab's AX tree into nodeMap. The tab's name registry
+ * takes in the new tree, so nodes that survived keep their names.
+ */
+async function loadAXTree(): Promise<void> {
+  treeReload = false;
+  const axNodes = await cdp.getAllFrameAXTrees();
+  nodeMap = buildNodeMap(axNodes);
+  treeUpdateStats.fullReads++;
+  treeUpdateStats.nodesRead += axNodes.length;
+  await updateNameRegistry(await cdp.scanDocument());
+}
+
+/**
+ * Bring nodeMap up to date by patching in the AX nodes that changed since
+ * it was read (Accessibility.nodesUpdated). Reads the whole tree instead
+ * when the document was replaced or its root changed.
+ */
+async function updateAXTree(): Promise<void> {
+  const changed = treeReload ? null : await cdp.takeAXUpdates((id) => nodeMap.get(id)).catch(() => null);
+  if (!changed) {
+    await loadAXTree();
+    return;
+  }
+  if (changed.length === 0) return;
+
+  const { patched, removed } = patchNodeMap(nodeMap, changed);
+  treeUpdateStats.patches++;
+  treeUpdateStats.nodesPatched += patched;
+  treeUpdateStats.nodesDropped += removed;
+
+  // Only the patched elements' DOM attributes can have changed with them
+  const elementIds = changed.filter((n) => n.backendDOMNodeId !== undefined && !n.sessionId).map((n) => n.backendDOMNodeId!);
+  await updateNameRegistry(await cdp.rescanElements(elementIds, domParentLookup()));
+}
+
+/** Backend DOM node ID of an element's parent in the tab's own AX tree. */
+function domParentLookup(): (backendNodeId: number) => number | undefined {
+  const parents = new Map<number, number>();
+  for (const node of nodeMap.values()) {
+    if (node.backendDOMNodeId === undefined || node.sessionId) continue;
+    for (const childId of node.childIds ?? []) {
+      const child = nodeMap.get(childId)?.backendDOMNodeId;
+      if (child !== undefined && child !== node.backendDOMNodeId) parents.set(child, node.backendDOMNodeId);
+    }
+  }
+  return (backendNodeId) => parents.get(backendNodeId);
+}
+
+/** Let the tab's name registry take in nodeMap as it now is, with the DOM attributes of its elements. */
+async function updateNameRegistry(attributes: Map<number, StableAttributes>): Promise<void> {
+  const tabId = state.activeTabId!;
+  let registry = nameRegistries.get(tabId);
+  if (!registry) {
+    registry = new NameRegistry();
+    nameRegistries.set(tabId, registry);
+  }
+  registry.update(nodeMap, attributes);
+  setNameRegistry(registry);
+}
+
 /** Internal: attach CDP to a tab and build its AX tree. */
 async function cdpSwitchToTab(tabId: number): Promise<{ tab: chrome.tabs.Tab; nodeCount: number; iframeCount: number }> {
   if (state.activeTabId === tabId && nodeMap.size > 0) {
-    // Already attached — just return info
+    // Already attached — just start over at the tab root and return info
+    const root = findRootNode(nodeMap);
+    state.axNodeIds = root ? [root.nodeId] : [];
     const tab = await chrome.tabs.get(tabId);
     let iframeCount = 0;
     for (const node of nodeMap.values()) {
@@ -112,8 +469,7 @@ async function cdpSwitchToTab(tabId: number): Promise<{ tab: chrome.tabs.Tab; no
   await cdp.attach(tabId);
   state.activeTabId = tabId;
 
-  const axNodes = await cdp.getAllFrameAXTrees();
-  nodeMap = buildNodeMap(axNodes);
+  await loadAXTree();
 
   const root = findRootNode(nodeMap);
   state.axNodeIds = root ? [root.nodeId] : [];
@@ -124,6 +480,8 @@ async function cdpSwitchToTab(tabId: number): Promise<{ tab: chrome.tabs.Tab; no
   // immediately re-fetch on the next command, and the new AX node IDs may differ,
   // causing a spurious "No DOM context" error.
   treeStale = false;
+  treeReload = false;
+  changedDomNodes.clear();
 
   const tab = await chrome.tabs.get(tabId);
   let iframeCount = 0;
@@ -178,8 +536,21 @@ function setWsStatus(status: "disabled" | "connecting" | "connected" | "disconne
   chrome.storage.local.set({ ws_status: status });
 }
 
-function stripAnsi(str: string): string {
-  return str.replace(/\x1b\[[0-9;]*[a-zA-Z]/g, "");
+/**
+ * The error an MCP request gets when the active tab's domain is not in the
+ * server's allowlist, or null when it may proceed (or there is no list).
+ */
+async function domainRefusal(allowedDomains: string[] | undefined): Promise<string | null> {
+  if (!allowedDomains || allowedDomains.length === 0 || !state.activeTabId) return null;
+  try {
+    const url = await cdp.getPageUrl();
+    const hostname = new URL(url).hostname.toLowerCase();
+    const allowed = allowedDomains.some((d) => hostname === d || hostname.endsWith("." + d));
+    return allowed ? null : `Error: Domain '${hostname}' is not in the allowed list: ${allowedDomains.join(", ")}`;
+  } catch {
+    // If we can't check the domain, proceed anyway
+    return null;
+  }
 }
 
 function wsConnect(): void {
@@ -211,35 +582,40 @@ function wsConnect(): void {
         const msg = JSON.parse(typeof event.data === "string" ? event.data : "");
 
         if (msg.type === "EXECUTE" && msg.command) {
-          // Domain allowlist check
-          if (msg.allowedDomains && msg.allowedDomains.length > 0 && state.activeTabId) {
-            try {
-              const url = await cdp.getPageUrl();
-              const hostname = new URL(url).hostname.toLowerCase();
-              const allowed = msg.allowedDomains.some((d: string) =>
-                hostname === d || hostname.endsWith("." + d)
-              );
-              if (!allowed) {
-                ws?.send(JSON.stringify({
-                  type: "RESULT",
-                  id: msg.id,
-                  result: `Error: Domain '${hostname}' is not in the allowed list: ${msg.allowedDomains.join(", ")}`,
-                }));
-                return;
-              }
-            } catch {
-              // If we can't check the domain, proceed anyway
-            }
+          const refusal = await domainRefusal(msg.allowedDomains);
+          if (refusal) {
+            ws?.send(JSON.stringify({ type: "RESULT", id: msg.id, result: refusal, status: 1 }));
+            return;
           }
 
           // Execute the command and send the result back
-          const output = await executeCommand(msg.command);
-          const cleanOutput = stripAnsi(output);
+          const origin = msg.session ? `mcp:${String(msg.session).slice(0, 8)}` : "mcp";
+          const result = await executeInteractive(msg.command, origin, {
+            definitions: msg.allowDefinitions === true,
+            sensitive: msg.allowSensitive === true,
+            exposeCookies: msg.exposeCookies === true,
+          });
+
+          ws?.send(JSON.stringify({
+            type: "RESULT",
+            id: msg.id,
+            result: stripAnsi(resultText(result)),
+            status: result.status,
+          }));
+        } else if (msg.type === "COMPLETE" && typeof msg.line === "string") {
+          const refusal = await domainRefusal(msg.allowedDomains);
+          if (refusal) {
+            ws?.send(JSON.stringify({ type: "RESULT", id: msg.id, result: refusal, status: 1 }));
+            return;
+          }
 
+          // One completion per line, with its hint after a tab
+          const completions = await completeLine(msg.line, msg.allowDefinitions === true);
           ws?.send(JSON.stringify({
             type: "RESULT",
             id: msg.id,
-            result: cleanOutput,
+            result: completions.map((c) => (c.hint ? `${c.value}\t${c.hint}` : c.value)).join("\n"),
+            status: 0,
           }));
         }
       } catch {
@@ -379,18 +755,62 @@ chrome.storage.onChanged.addListener((changes, area) => {
 
 // ---- CDP Event Listener for DOM / Navigation Changes ----
 
-chrome.debugger.onEvent.addListener((source, method) => {
+const DOM_MUTATION_EVENTS = new Set([
+  "DOM.childNodeInserted",
+  "DOM.childNodeRemoved",
+  "DOM.attributeModified",
+  "DOM.attributeRemoved",
+  "DOM.characterDataModified",
+  // Sent instead of childNodeInserted for a node whose children Chrome never sent
+  "DOM.childNodeCountUpdated",
+]);
+
+/** How long the DOM must be quiet before a changed page is read again (a render's mutations come in bursts). */
+const DOM_SETTLE_MS = 150;
+/** Longest a command waits for the DOM to settle; a page that never stops (tickers, animations) is read as it is. */
+const DOM_SETTLE_MAX_MS = 1000;
+
+/** Wait until the page has stopped mutating for DOM_SETTLE_MS, or DOM_SETTLE_MAX_MS has passed. */
+async function waitForDomToSettle(): Promise<void> {
+  const deadline = Date.now() + DOM_SETTLE_MAX_MS;
+  let quietFor = Date.now() - lastDomMutationAt;
+  while (quietFor < DOM_SETTLE_MS && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, DOM_SETTLE_MS - quietFor));
+    quietFor = Date.now() - lastDomMutationAt;
+  }
+}
+
+chrome.debugger.onEvent.addListener((source, method, params?: any) => {
   if (source.tabId !== state.activeTabId) return;
 
   if (
     method === "Page.frameNavigated" ||
     method === "Page.loadEventFired" ||
-    method === "DOM.documentUpdated"
+    method === "DOM.documentUpdated" ||
+    method === "Accessibility.loadComplete" ||
+    // An out-of-process iframe came or went
+    method === "Target.attachedToTarget" ||
+    method === "Target.detachedFromTarget"
   ) {
     treeStale = true;
+    treeReload = true;
+  } else if (method === "Accessibility.nodesUpdated" || method === "Page.navigatedWithinDocument") {
+    // Patched in by the next command (see updateAXTree)
+    treeStale = true;
+  } else if (DOM_MUTATION_EVENTS.has(method)) {
+    // Content a script put in after load: search results, feeds, toasts
+    const nodeId = params?.node?.nodeId ?? params?.nodeId;
+    changedDomNodes.add(`${source.sessionId ?? ""}:${nodeId}`);
+    lastDomMutationAt = Date.now();
+    treeStale = true;
   }
 });
 
+// A closed tab's node names can't come back
+chrome.tabs.onRemoved.addListener((tabId) => {
+  nameRegistries.delete(tabId);
+});
+
 // ---- Open Side Panel on Action Click ----
 
 chrome.sidePanel
@@ -404,12 +824,24 @@ chrome.runtime.onConnect.addListener((port) => {
 
   port.onMessage.addListener(async (msg) => {
     if (msg.type === "STDIN") {
-      const output = await executeCommand(msg.input);
-      port.postMessage({ type: "STDOUT", output });
+      const result = await executeInteractive(msg.input, "panel");
+      const reply: StdoutMessage | StderrMessage = result.stderr
+        ? { type: "STDERR", output: result.stdout, error: result.stderr, status: result.status }
+        : { type: "STDOUT", output: result.stdout, status: result.status };
+      port.postMessage(reply);
     } else if (msg.type === "COMPLETE") {
-      const matches = getCompletions(msg.partial, msg.command);
-      port.postMessage({ type: "COMPLETE_RESPONSE", matches, partial: msg.partial });
+      const completions = await getCompletions(msg.partial, msg.command);
+      const reply: CompleteResponseMessage = {
+        type: "COMPLETE_RESPONSE",
+        matches: completions.map((c) => c.value),
+        hints: completions.map((c) => c.hint ?? ""),
+        partial: msg.partial,
+      };
+      port.postMessage(reply);
     } else if (msg.type === "READY") {
+      const entries = await commandHistory.list();
+      const history: HistoryMessage = { type: "HISTORY", commands: entries.map((e) => e.command) };
+      port.postMessage(history);
       port.postMessage({
         type: "STDOUT",
         output: formatWelcome(),
@@ -512,7 +944,10 @@ const COMMAND_HELP: Record<string, string> = {
   ls: [
     "\x1b[1;36mls\x1b[0m \u2014 List children of the current node",
     "",
-    "\x1b[33mUsage:\x1b[0m ls [options]",
+    "\x1b[33mUsage:\x1b[0m ls [options] [path...]",
+    "",
+    "With paths, lists each matching directory instead of the current one;",
+    "paths may use wildcards (see cat --help), e.g. ls navigation/*/.",
     "",
     "\x1b[33mOptions:\x1b[0m",
     "  \x1b[32m-l, --long\x1b[0m      Long format: type prefix, role, and name",
@@ -523,15 +958,35 @@ const COMMAND_HELP: Record<string, string> = {
     "  \x1b[32m-n N\x1b[0m            Limit output to first N entries",
     "  \x1b[32m--offset N\x1b[0m      Skip first N entries (for pagination)",
     "  \x1b[32m--type ROLE\x1b[0m     Filter by AX role (e.g. --type button)",
+    "  \x1b[32m--state WORDS\x1b[0m   Only elements in all these states, comma-separated (see below)",
+    "  \x1b[32m--checked\x1b[0m, \x1b[32m--disabled\x1b[0m, ...  Same as --state WORD, for any state word",
+    "  \x1b[32m--level N\x1b[0m       Only elements at this level (headings: --level 2 for h2)",
+    "  \x1b[32m--visible\x1b[0m       Only elements a user could see, scrolled into view or not",
+    "  \x1b[32m--in-viewport\x1b[0m   Only visible elements inside the viewport right now",
+    "  \x1b[32m--hidden\x1b[0m        Only elements a user can't see (see Visibility below)",
     "  \x1b[32m--count\x1b[0m         Show count of children only",
     "  \x1b[32m--after NAME\x1b[0m    Show only children after the named element",
     "  \x1b[32m--before NAME\x1b[0m   Show only children before the named element",
+    "  \x1b[32m--shadow\x1b[0m        Group children rendered inside shadow roots under a",
+    "                  #shadow-root/ entry and mark shadow hosts [shadow:open]",
     "",
     "\x1b[33mType Prefixes (in long format):\x1b[0m",
     "  [d]  Directory (container node, cd-able)",
     "  [x]  Interactive (clickable: button, link, input, etc.)",
     "  [-]  Static (read-only: heading, image, text, etc.)",
     "",
+    "\x1b[33mStates (in long format and tree):\x1b[0m",
+    "  Shown after the name, e.g. [unchecked required] or [collapsed]. Words:",
+    "  disabled, checked, unchecked, mixed, expanded, collapsed, selected,",
+    "  required, invalid, focused, and level=N.",
+    "",
+    "\x1b[33mVisibility (in long format):\x1b[0m",
+    "  [offscreen]  Rendered, but outside the viewport (scroll to see it)",
+    "  [hidden]     Not shown: display/visibility, opacity 0, zero size, or",
+    "               clipped to a pixel (screen-reader-only text)",
+    "  Elements in the viewport get no flag. Checked in the page, from each",
+    "  element's box and computed styles.",
+    "",
     "\x1b[33mColor Legend:\x1b[0m",
     "  \x1b[1;34m\u25a0 Blue\x1b[0m     Directories   \x1b[1;32m\u25a0 Green\x1b[0m   Buttons",
     "  \x1b[1;35m\u25a0 Magenta\x1b[0m  Links         \x1b[1;33m\u25a0 Yellow\x1b[0m  Inputs/search",
@@ -539,6 +994,13 @@ const COMMAND_HELP: Record<string, string> = {
     "",
     "At browser level (~), ls shows windows/ and tabs/ directories.",
     "Inside a tab, ls shows the DOM's Accessibility Tree children.",
+    "Under @dom/ (see cd --help) it lists DOM elements instead; --type takes a",
+    "tag name there, and --meta shows every attribute.",
+    "",
+    "\x1b[33mIndex directories:\x1b[0m ls @headings, @forms, @landmarks, @links, @images,",
+    "@tables or @dialogs lists that kind of element from the whole page, each",
+    "entry with the real path it links to (-n, --offset and --count work).",
+    "@headings is indented as an outline, by heading level.",
   ].join("\r\n"),
 
   cd: [
@@ -562,6 +1024,25 @@ const COMMAND_HELP: Record<string, string> = {
     "  cd main/form       Multi-level path",
     "  cd ../sidebar      Go up then into 'sidebar'",
     "",
+    "\x1b[33mRaw DOM view (inside a tab):\x1b[0m",
+    "  cd @dom            Switch to the DOM tree, at the element behind the current",
+    "                     directory (ls, cd, cat, text, grep and find work there)",
+    "  cd @ax             Back to the accessibility view, at the same element",
+    "  Elements are named tag#id or tag.class.class (div.price, script_2);",
+    "  iframe documents and shadow roots show up as #document and #shadow-root.",
+    "",
+    "\x1b[33mSelectors (inside a tab):\x1b[0m",
+    "  cd '@css:form#login'        First element matching a CSS selector",
+    "  cd '@xpath://table[2]'      First node an XPath selects",
+    "  Searched across the whole document; the path becomes the element's",
+    "  path from the tab root. Quote them: [ ] > | and spaces mean something to the shell.",
+    "",
+    "\x1b[33mIndex directories (inside a tab):\x1b[0m",
+    "  cd @tables/table_4091       Follow an index entry to the element's real path",
+    "  @headings, @forms, @landmarks, @links, @images, @tables and @dialogs gather",
+    "  one kind of element from the whole page (see 'ls @links'). Their entries",
+    "  work as paths in other commands too: cat @links/home_link, click @forms/...",
+    "",
     "\x1b[33mPath variables:\x1b[0m",
     "  %here%             Expands to the focused tab (via its window path)",
     "  cd %here%          Enter the active tab",
@@ -580,31 +1061,54 @@ const COMMAND_HELP: Record<string, string> = {
   cat: [
     "\x1b[1;36mcat\x1b[0m \u2014 Read full metadata for a node (AX + DOM properties)",
     "",
-    "\x1b[33mUsage:\x1b[0m cat <name>",
+    "\x1b[33mUsage:\x1b[0m cat <name>...",
     "",
     "Shows AX info (role, type, value) plus real DOM properties:",
     "  tag, href/URL, src, action, id, class, alt, title, placeholder,",
-    "  target, name, text content (textContent), visible text (innerText),",
+    "  target, name, a CSS selector that finds the element again,",
+    "  text content (textContent), visible text (innerText),",
     "  and an outer HTML snippet.",
     "",
     "Accepts a name or relative path (e.g. cat main/article/link_name).",
+    "Paths may use wildcards: * (any characters), ? (one character),",
+    "[abc] / [a-z] / [^abc] (a set) and ** (any number of levels), e.g.",
+    "cat main/*_link or cat **/heading_*. With several matches, each gets",
+    "its own --- path --- header.",
+    "",
+    "Elements can also be named by CSS selector or XPath, matched across the",
+    "whole document: cat '@css:#checkout-button', cat '@xpath://table[2]//th'.",
+    "",
+    "\x1b[33mPseudo files:\x1b[0m cat <name>/.FILE (or cat .FILE for the current element)",
+    "  .attrs    HTML attributes",
+    "  .style    Computed styles (every property)",
+    "  .bbox     Position and size in the viewport, and whether it's on screen",
+    "  .states   AX states and properties (checked, expanded, disabled, required...)",
+    "  .html     The full outerHTML (the cat snippet stops at 300 characters)",
+    "  .events   Event listeners registered on the element",
+    "Each prints plain \"key: value\" lines, so pipe into grep for what you need:",
+    "  cat submit_btn/.style | grep -E '^(display|visibility|color):'",
     "",
     "Use 'cd ..' to navigate to a parent element if you need",
     "its properties (e.g. navigate up from a span to its <a> for href).",
     "",
-    "Requires a tab context (cd into a tab first).",
+    "Requires a tab context (cd into a tab first). Stored files",
+    "(cat ~/scripts/<name>, cat ~/tmp/<name>) are printed as plain text.",
   ].join("\r\n"),
 
   text: [
     "\x1b[1;36mtext\x1b[0m \u2014 Bulk extract text content from a node and its descendants",
     "",
-    "\x1b[33mUsage:\x1b[0m text [name] [-n N]",
+    "\x1b[33mUsage:\x1b[0m text [name...] [-n N] [--visible-only]",
     "",
     "\x1b[33mArguments:\x1b[0m",
-    "  name         Extract text from a specific child or path (default: current directory)",
+    "  name         Extract text from a specific child or path (default: current directory);",
+    "               wildcards (see cat --help) extract each match under its own header",
     "  -n N         Limit output to first N characters",
+    "  --visible-only  Only text a user can see: leaves out hidden, transparent,",
+    "               zero-size and screen-reader-only content (offscreen text stays)",
     "",
-    "Accepts a name or relative path (e.g. text main/article/paragraph).",
+    "Accepts a name or relative path (e.g. text main/article/paragraph),",
+    "or a selector: text '@css:article .summary' (see cat --help).",
     "",
     "Uses the DOM's textContent property, which returns all descendant text",
     "in a single call. Much faster than calling 'cat' on each element.",
@@ -613,6 +1117,8 @@ const COMMAND_HELP: Record<string, string> = {
     "  text                    All text from current directory",
     "  text main               All text from the 'main' child",
     "  text article -n 2000    First 2000 chars from 'article'",
+    "  text main/**/paragraph_* Every paragraph under main, one section each",
+    "  text main --visible-only What the page shows in 'main', without hidden SEO text",
   ].join("\r\n"),
 
   click: [
@@ -620,7 +1126,8 @@ const COMMAND_HELP: Record<string, string> = {
     "",
     "\x1b[33mUsage:\x1b[0m click <name>",
     "",
-    "Accepts a name or relative path (e.g. click form/submit_btn).",
+    "Accepts a name or relative path (e.g. click form/submit_btn), or a",
+    "selector: click '@css:#checkout-button' clicks the first match.",
     "Resolves the node to a DOM element and triggers a click.",
     "Falls back to coordinate-based click if JS click fails.",
   ].join("\r\n"),
@@ -630,7 +1137,8 @@ const COMMAND_HELP: Record<string, string> = {
     "",
     "\x1b[33mUsage:\x1b[0m focus <name>",
     "",
-    "Accepts a name or relative path (e.g. focus form/search_input).",
+    "Accepts a name or relative path (e.g. focus form/search_input),",
+    "or a selector such as focus '@css:input[name=email]'.",
     "Focuses the DOM element. Use before 'type' to direct keyboard input.",
   ].join("\r\n"),
 
@@ -652,7 +1160,7 @@ const COMMAND_HELP: Record<string, string> = {
     "",
     "\x1b[33mUsage:\x1b[0m submit <input_name> <value> [--submit button_name]",
     "",
-    "Accepts names or relative paths for input and button.",
+    "Accepts names, relative paths or @css:/@xpath: selectors for input and button.",
     "Focuses the input, clears existing value, types the new value,",
     "then either clicks the submit button or presses Enter.",
     "",
@@ -664,23 +1172,29 @@ const COMMAND_HELP: Record<string, string> = {
   extract_links: [
     "\x1b[1;36mextract_links\x1b[0m \u2014 Extract all links as [text](url) format",
     "",
-    "\x1b[33mUsage:\x1b[0m extract_links [element_name] [-n limit]",
+    "\x1b[33mUsage:\x1b[0m extract_links [element_name...] [-n limit]",
     "",
     "Accepts a name or relative path (e.g. extract_links main/sidebar).",
+    "With wildcards or several names, each match is listed under its own",
+    "header and -n applies per match.",
     "Recursively finds all link elements and returns their",
     "display text and URLs in markdown link format.",
     "",
     "\x1b[33mExamples:\x1b[0m",
     "  extract_links              All links under current directory",
     "  extract_links main -n 20   First 20 links in main section",
+    "  extract_links nav/*/ -n 5  First 5 links of each navigation group",
   ].join("\r\n"),
 
   extract_table: [
     "\x1b[1;36mextract_table\x1b[0m \u2014 Extract table as markdown or CSV",
     "",
-    "\x1b[33mUsage:\x1b[0m extract_table <table_name> [--format markdown|csv] [-n limit]",
+    "\x1b[33mUsage:\x1b[0m extract_table [table_name] [--format markdown|csv] [-n limit]",
     "",
-    "Accepts a name or relative path (e.g. extract_table main/table_1234).",
+    "Accepts a name or relative path (e.g. extract_table main/table_1234),",
+    "a selector (extract_table '@xpath://table[2]') or an index entry",
+    "(extract_table @tables/table_1234). Without a name it reads the current",
+    "directory, when that is a table (after cd @tables/table_1234).",
     "Reads all rows and cells of a table element and returns",
     "structured output. First row is treated as the header.",
     "",
@@ -699,8 +1213,18 @@ const COMMAND_HELP: Record<string, string> = {
     "  \x1b[32m-r, --recursive\x1b[0m  Search all descendants recursively (recommended)",
     "  \x1b[32m--content\x1b[0m        Also match against visible text content (slower)",
     "  \x1b[32m-n N\x1b[0m             Limit results to first N matches",
+    "  \x1b[32m-E\x1b[0m               Treat the pattern as a regular expression",
+    "  \x1b[32m-e PATTERN\x1b[0m       Give the pattern as an option (for one starting with -)",
+    "  \x1b[32m-v\x1b[0m               Invert: show elements that do NOT match",
+    "  \x1b[32m-i / -I\x1b[0m          Ignore case (default) / match case",
+    "  \x1b[32m-c\x1b[0m               Print only the number of matches",
+    "  \x1b[32m-o\x1b[0m               Print only the matched text (name:match)",
+    "  \x1b[32m-A N / -B N\x1b[0m      Also show N elements after / before each match",
+    "  \x1b[32m-C N\x1b[0m             Show N elements of context on both sides",
     "",
-    "Matches against name, role, and value. Case-insensitive.",
+    "Matches against name, role, and value. Case-insensitive unless -I.",
+    "Exits with status 1 when nothing matches (grep -c still prints 0).",
+    "Short flags can be grouped (grep -rE, grep -ric), as in find and piped grep.",
     "Use --content to also match against the element's displayed text.",
     "",
     "\x1b[33mWorkflow chains (grep \u2192 cd \u2192 extract):\x1b[0m",
@@ -715,6 +1239,12 @@ const COMMAND_HELP: Record<string, string> = {
     "  find --type link --meta | grep login     Filter find results",
     "  ls --text | grep keyword                 Filter ls output",
     "  text | grep pattern                      Search within text output",
+    "  find --type link --meta | grep -oE 'href=[^ ]*docs[^ ]*'",
+    "                                           Only the matching hrefs",
+    "  grep -i price ~/tmp/prices.csv           Search a saved scratch file",
+    "The same options (-E, -e, -v, -i, -I, -c, -o, -A, -B, -C) work on piped input",
+    "and on files in ~/tmp (or ~/scripts) given after the pattern.",
+    "  (see also: head, tail, wc, sort, uniq, cut, sed, tr)",
   ].join("\r\n"),
 
   find: [
@@ -724,18 +1254,35 @@ const COMMAND_HELP: Record<string, string> = {
     "",
     "\x1b[33mOptions:\x1b[0m",
     "  \x1b[32m--type ROLE\x1b[0m   Filter by AX role (e.g. --type combobox)",
+    "  \x1b[32m--state WORDS\x1b[0m Only elements in all these states, comma-separated:",
+    "                disabled, checked, unchecked, mixed, expanded, collapsed,",
+    "                selected, required, invalid, focused",
+    "  \x1b[32m--checked\x1b[0m, \x1b[32m--disabled\x1b[0m, ...  Same as --state WORD, for any state word",
+    "  \x1b[32m--level N\x1b[0m     Only elements at this level (find --type heading --level 2)",
+    "  \x1b[32m--visible\x1b[0m     Only elements a user could see (see ls --help, Visibility)",
+    "  \x1b[32m--in-viewport\x1b[0m Only visible elements inside the viewport right now",
+    "  \x1b[32m--hidden\x1b[0m      Only elements a user can't see",
     "  \x1b[32m--meta\x1b[0m        Include DOM properties (href, src, id, tag) per result",
     "  \x1b[32m--text\x1b[0m        Show visible text preview per result (uses innerText)",
     "  \x1b[32m--textlen N\x1b[0m   Max chars for text preview (default: 80)",
     "  \x1b[32m--content\x1b[0m     Also match against visible text content (slower)",
     "  \x1b[32m-n N\x1b[0m          Limit to first N results",
+    "  \x1b[32m-E\x1b[0m            Treat the pattern as a regular expression",
+    "  \x1b[32m-v\x1b[0m            Invert: elements whose name/role/value do NOT match",
+    "  \x1b[32m-i / -I\x1b[0m       Ignore case (default) / match case",
     "",
     "Searches the entire tree from CWD down. Shows the full path.",
+    "Exits with status 1 when nothing matches.",
     "Use --meta with --type link to find all URLs on a page.",
     "Use --content to find elements by their displayed text (e.g. find 'see also' --content).",
     "",
     "When --text is used with a pattern, also matches against visible text content.",
     "  find --type link --text login --meta    Find links with 'login' text + show hrefs",
+    "",
+    "A pattern is optional with --type, --state, --level or a visibility filter:",
+    "  find --type checkbox --state required,unchecked    Required boxes left unticked",
+    "  find --collapsed                                   Closed accordions and menus",
+    "  find --type button --in-viewport                   Buttons on screen right now",
   ].join("\r\n"),
 
   tree: [
@@ -745,6 +1292,8 @@ const COMMAND_HELP: Record<string, string> = {
     "",
     "\x1b[33mArguments:\x1b[0m",
     "  depth    Max depth to display (default: 2)",
+    "",
+    "Elements' AX states follow their names, as in ls -l: [checked], [collapsed].",
   ].join("\r\n"),
 
   read: [
@@ -782,6 +1331,28 @@ const COMMAND_HELP: Record<string, string> = {
     "\x1b[1;36menv\x1b[0m \u2014 Show environment variables",
     "",
     "\x1b[33mUsage:\x1b[0m env",
+    "",
+    "Variables expand in any command line as \x1b[33m$NAME\x1b[0m or \x1b[33m${NAME}\x1b[0m",
+    "(not inside single quotes; \\$ for a literal $). Unset names expand to nothing.",
+    "\x1b[33m$(command)\x1b[0m expands to the command's output, one argument per line",
+    "(one argument in total inside double quotes).",
+    "",
+    "\x1b[33mBuilt-ins (read-only):\x1b[0m",
+    "  $PWD    Current path (same as pwd)",
+    "  $TAB    ID of the tab you are in (unset at browser level)",
+    "  $URL    URL of the tab you are in (unset at browser level)",
+    "  $?      Exit status of the previous command (0 = success)",
+    "",
+    "\x1b[33mSettings:\x1b[0m",
+    "  TRANSLIT=1  Romanize element names (\u043f\u0440\u0438\u0432\u0435\u0442_link \u2192 privet_link);",
+    "              either spelling finds the element whether or not it is set",
+    "",
+    "\x1b[33mExamples:\x1b[0m",
+    "  export Q=checkout",
+    "  find $Q --type button",
+    "  navigate \"${URL}?page=2\"",
+    "  echo '$Q is not expanded here'",
+    "  cd $(grep -r results | head -n 1 | cut -f2)",
   ].join("\r\n"),
 
   export: [
@@ -789,16 +1360,205 @@ const COMMAND_HELP: Record<string, string> = {
     "",
     "\x1b[33mUsage:\x1b[0m export KEY=VALUE",
     "",
+    "The value may itself use $VARS. See 'env --help' for expansion rules.",
+    "",
     "\x1b[33mExamples:\x1b[0m",
     "  export API_KEY=sk-abc123",
     "  export USER=agent",
+    "  export HOME_URL=$URL",
+  ].join("\r\n"),
+
+  unset: [
+    "\x1b[1;36munset\x1b[0m \u2014 Remove environment variables or shell functions",
+    "",
+    "\x1b[33mUsage:\x1b[0m unset NAME...  |  unset -f NAME...",
+    "",
+    "Built-ins ($PWD, $TAB, $URL) cannot be unset. With -f the names are",
+    "shell functions (see alias --help) and are deleted from storage.",
+    "",
+    "\x1b[33mExamples:\x1b[0m",
+    "  unset API_KEY",
+    "  unset Q USER",
+    "  unset -f greet",
+  ].join("\r\n"),
+
+  alias: [
+    "\x1b[1;36malias\x1b[0m \u2014 Define or list aliases and shell functions",
+    "",
+    "\x1b[33mUsage:\x1b[0m alias  |  alias NAME  |  alias NAME='COMMAND'...",
+    "       NAME() { COMMAND; ...; }",
+    "",
+    "An alias replaces the first word of a command line before it runs, so",
+    "anything after it is appended (ll docs \u2192 find ... docs). Its value may",
+    "hold pipes, ;, && and ||. A function runs its body with the arguments",
+    "as $1..$n, $# and $@, and can span several lines in a script.",
+    "",
+    "Both are stored in the extension (chrome.storage.local) and survive browser",
+    "restarts. A function takes precedence over a builtin of the same name.",
+    "With no arguments, alias lists every alias and function.",
+    "",
+    "\x1b[33mExamples:\x1b[0m",
+    "  alias docs='find --type link --meta | grep docs | head -n 20'",
+    "  alias ll='ls -l'",
+    "  headings() { cd $1 && find --type heading; }",
+    "  unalias ll",
+    "  unset -f headings",
+  ].join("\r\n"),
+
+  unalias: [
+    "\x1b[1;36munalias\x1b[0m \u2014 Remove aliases",
+    "",
+    "\x1b[33mUsage:\x1b[0m unalias NAME...  |  unalias -a",
+    "",
+    "-a removes every alias. Functions are removed with 'unset -f NAME'.",
+  ].join("\r\n"),
+
+  test: [
+    "\x1b[1;36mtest\x1b[0m \u2014 Evaluate a condition (also spelled [ ... ])",
+    "",
+    "\x1b[33mUsage:\x1b[0m test EXPR  |  [ EXPR ]",
+    "",
+    "Prints nothing; the result is the exit status ($? = 0 true, 1 false, 2 error),",
+    "for use with if/while/&&/||. Element paths resolve like cat/click arguments.",
+    "",
+    "\x1b[33mElement predicates:\x1b[0m",
+    "  -e PATH          Element exists",
+    "  -d PATH          Element is a directory [d]",
+    "  -f PATH          Element exists and is not a directory",
+    "",
+    "\x1b[33mString and number predicates:\x1b[0m",
+    "  -n STR / -z STR  String is non-empty / empty",
+    "  STR              Same as -n STR",
+    "  A = B, A != B    String equality",
+    "  A -eq B          Integer comparison (-ne, -lt, -le, -gt, -ge)",
+    "  ! EXPR           Negate",
+    "",
+    "\x1b[33mScripting:\x1b[0m",
+    "  for NAME in WORDS; do ...; done",
+    "  while CONDITION; do ...; done     (stops after 1000 iterations)",
+    "  if CONDITION; then ...; [elif CONDITION; then ...;] [else ...;] fi",
+    "",
+    "\x1b[33mExamples:\x1b[0m",
+    "  if [ -e cookie_banner/accept_btn ]; then click cookie_banner/accept_btn; fi",
+    "  for l in $(find --type link | head -n 5 | cut -f2); do cat $l; done",
+    "  while test -e loading_spinner; do refresh; done",
+    "  [ \"$URL\" != \"about:blank\" ] && echo ready",
+  ].join("\r\n"),
+
+  "[": [
+    "\x1b[1;36m[\x1b[0m \u2014 Alias for test (the last argument must be ]). See test --help.",
+  ].join("\r\n"),
+
+  history: [
+    "\x1b[1;36mhistory\x1b[0m \u2014 Show the command history",
+    "",
+    "\x1b[33mUsage:\x1b[0m history [-n N | N] [--origin panel|mcp]  |  history -c",
+    "",
+    "Lists every command typed in the side panel or sent by an MCP client,",
+    "with its number, time and origin (panel, or mcp:<session> per MCP session).",
+    "The history is kept by the extension, so it survives closing the panel.",
+    "",
+    "\x1b[33mOptions:\x1b[0m",
+    "  \x1b[32m-n N\x1b[0m             Only the last N entries",
+    "  \x1b[32m--origin O\x1b[0m       Only entries whose origin starts with O (e.g. mcp)",
+    "  \x1b[32m-c\x1b[0m               Clear the history (side panel only)",
+    "",
+    "\x1b[33mRecall (anywhere in a line, except inside single quotes):\x1b[0m",
+    "  !!                Previous command",
+    "  !N / !-N          Command number N / the Nth most recent",
+    "  !prefix           Most recent command starting with prefix",
+    "The expanded line is shown before its output. \\! is a literal !.",
+    "",
+    "\x1b[33mExamples:\x1b[0m",
+    "  history -n 20",
+    "  history --origin mcp",
+    "  !find",
+    "  !! | grep login",
+  ].join("\r\n"),
+
+  echo: [
+    "\x1b[1;36mecho\x1b[0m \u2014 Print arguments",
+    "",
+    "\x1b[33mUsage:\x1b[0m echo [args...]",
+    "",
+    "Prints its arguments separated by single spaces, after variable expansion.",
+    "",
+    "\x1b[33mExamples:\x1b[0m",
+    "  echo $URL",
+    "  echo \"last status: $?\"",
+  ].join("\r\n"),
+
+  write: [
+    "\x1b[1;36mwrite\x1b[0m \u2014 Save a script to ~/scripts",
+    "",
+    "\x1b[33mUsage:\x1b[0m write [-a] <name> <text...>  |  cmd | write [-a] <name>",
+    "",
+    "Replaces the script with the text (the arguments joined by spaces, or the",
+    "piped input). With -a the text is appended as new line(s) instead, which",
+    "is how to build a script up one command at a time. Scripts are stored in",
+    "the extension (chrome.storage.local) and survive browser restarts.",
+    "",
+    "A bare name means ~/scripts/<name> (unless you are in ~/tmp); full paths",
+    "work too, and ~/tmp/<name> writes a scratch file (see also: cmd > ~/tmp/<name>).",
+    "",
+    "\x1b[33mExamples:\x1b[0m",
+    "  write daily.sh 'cd tabs/news'",
+    "  write -a daily.sh 'find --type link | head -n $1'",
+    "  cat daily.sh | sed 's/news/sports/' | write sports.sh",
+  ].join("\r\n"),
+
+  rm: [
+    "\x1b[1;36mrm\x1b[0m \u2014 Delete saved scripts and scratch files",
+    "",
+    "\x1b[33mUsage:\x1b[0m rm <name>...",
+    "",
+    "Only files in ~/scripts and ~/tmp can be removed; page elements cannot.",
+    "A bare name means ~/scripts/<name> (unless you are in ~/tmp).",
+    "",
+    "\x1b[33mExamples:\x1b[0m",
+    "  rm daily.sh",
+    "  rm ~/scripts/old.sh ~/tmp/prices.csv",
+  ].join("\r\n"),
+
+  run: [
+    "\x1b[1;36mrun\x1b[0m \u2014 Run a saved script from ~/scripts",
+    "",
+    "\x1b[33mUsage:\x1b[0m run <name> [args...]",
+    "",
+    "Runs the script one command line at a time, as if typed at the prompt,",
+    "and prints a transcript: each line (prefixed with +) followed by its output.",
+    "Compound commands (for/while/if) and lines ending in && or || continue",
+    "onto the next lines. Blank lines and lines starting with # are skipped.",
+    "",
+    "The run stops at the first line that fails (non-zero exit status) and",
+    "exits with that status; put 'set +e' in the script to keep going instead.",
+    "",
+    "\x1b[33mInside the script:\x1b[0m",
+    "  $1..$9, ${10}  Positional arguments",
+    "  $#            Number of arguments",
+    "  $@            All arguments, separated by spaces",
+    "  $0            Script name",
+    "",
+    "\x1b[33mExamples:\x1b[0m",
+    "  run daily.sh 20",
+    "  run ~/scripts/login.sh alice",
+  ].join("\r\n"),
+
+  set: [
+    "\x1b[1;36mset\x1b[0m \u2014 Set script options",
+    "",
+    "\x1b[33mUsage:\x1b[0m set -e | set +e",
+    "",
+    "Only valid inside a script started with run.",
+    "  -e    Stop the script at the first failing line (the default)",
+    "  +e    Keep going after failures",
   ].join("\r\n"),
 
   debug: [
     "\x1b[1;36mdebug\x1b[0m \u2014 Inspect raw AX tree data",
     "",
     "\x1b[33mSubcommands:\x1b[0m",
-    "  \x1b[32mstats\x1b[0m          AX tree statistics",
+    "  \x1b[32mstats\x1b[0m          AX tree statistics, and how often it was read in full vs. patched",
     "  \x1b[32mraw\x1b[0m            Raw children of current node (incl. ignored)",
     "  \x1b[32mnode <id>\x1b[0m      Inspect a specific AX node by its ID",
   ].join("\r\n"),
@@ -874,46 +1634,175 @@ const COMMAND_HELP: Record<string, string> = {
   ].join("\r\n"),
 
   head: [
-    "\x1b[1;36mhead\x1b[0m \u2014 Show first N lines (pipe consumer only)",
+    "\x1b[1;36mhead\x1b[0m \u2014 Show the first N lines (pipe consumer)",
     "",
-    "\x1b[33mUsage:\x1b[0m command | head -n N",
+    "\x1b[33mUsage:\x1b[0m command | head [-n N]",
+    "       head [-n N] ~/tmp/<file>",
     "",
-    "Only works as a pipe consumer. Shows the first N lines of piped output.",
-    "Default: 10 lines.",
+    "Shows the first N lines of piped output. Default: 10 lines.",
+    "Also accepts the short form -N (e.g. head -5).",
     "",
     "\x1b[33mExamples:\x1b[0m",
     "  find --type heading | head -n 5     First 5 headings",
     "  ls --text | head -n 3               First 3 children with text",
   ].join("\r\n"),
-};
 
-// ---- Arg Parsing Utility ----
+  tail: [
+    "\x1b[1;36mtail\x1b[0m \u2014 Show the last N lines (pipe consumer)",
+    "",
+    "\x1b[33mUsage:\x1b[0m command | tail [-n N | -n +N]",
+    "       tail [-n N | -n +N] ~/tmp/<file>",
+    "",
+    "Shows the last N lines of piped output. Default: 10 lines.",
+    "With -n +N, output starts at line N instead (skips the first N-1 lines).",
+    "",
+    "\x1b[33mExamples:\x1b[0m",
+    "  find --type link --meta | tail -n 5    Last 5 links on the page",
+    "  extract_links | tail -n +21            Everything after the first 20 links",
+  ].join("\r\n"),
 
-interface ParsedArgs {
-  flags: Set<string>;
-  named: Record<string, string>;
-  positional: string[];
-}
+  wc: [
+    "\x1b[1;36mwc\x1b[0m \u2014 Count lines, words and characters (pipe consumer)",
+    "",
+    "\x1b[33mUsage:\x1b[0m command | wc [-l] [-w] [-c]",
+    "       wc [-l] [-w] [-c] ~/tmp/<file>",
+    "",
+    "\x1b[33mOptions:\x1b[0m",
+    "  \x1b[32m-l\x1b[0m   Count lines",
+    "  \x1b[32m-w\x1b[0m   Count words",
+    "  \x1b[32m-c\x1b[0m   Count characters",
+    "",
+    "Without options, prints lines, words and characters.",
+    "",
+    "\x1b[33mExamples:\x1b[0m",
+    "  find --type link | wc -l         How many links are on the page",
+  ].join("\r\n"),
 
-function parseArgs(args: string[]): ParsedArgs {
-  const flags = new Set<string>();
-  const named: Record<string, string> = {};
-  const positional: string[] = [];
+  sort: [
+    "\x1b[1;36msort\x1b[0m \u2014 Sort lines (pipe consumer)",
+    "",
+    "\x1b[33mUsage:\x1b[0m command | sort [-r] [-n] [-u] [-f] [-k N]",
+    "       sort [-r] [-n] [-u] [-f] [-k N] ~/tmp/<file>",
+    "",
+    "\x1b[33mOptions:\x1b[0m",
+    "  \x1b[32m-r\x1b[0m     Reverse the order",
+    "  \x1b[32m-n\x1b[0m     Compare numerically",
+    "  \x1b[32m-u\x1b[0m     Drop duplicate lines",
+    "  \x1b[32m-f\x1b[0m     Ignore case",
+    "  \x1b[32m-k N\x1b[0m   Sort by the Nth whitespace-separated field onwards",
+    "",
+    "Colors are ignored when comparing but kept in the output.",
+    "",
+    "\x1b[33mExamples:\x1b[0m",
+    "  find --type link --meta | sort -u",
+    "  find --type heading | sort -f",
+  ].join("\r\n"),
 
-  let i = 0;
-  while (i < args.length) {
-    const a = args[i];
-    if (a === "--help") {
-      flags.add("--help");
-    } else if (a === "-l" || a === "--long") {
-      flags.add("-l");
-    } else if (a === "-r" || a === "--recursive") {
-      flags.add("-r");
-    } else if (a === "--count") {
-      flags.add("--count");
-    } else if ((a === "-n" || a === "-d" || a === "--offset" || a === "--type" || a === "--textlen" || a === "--format" || a === "--submit" || a === "--after" || a === "--before") && i + 1 < args.length) {
-      named[a] = args[++i];
-    } else if (a.startsWith("-")) {
+  uniq: [
+    "\x1b[1;36muniq\x1b[0m \u2014 Collapse adjacent duplicate lines (pipe consumer)",
+    "",
+    "\x1b[33mUsage:\x1b[0m command | uniq [-c] [-d] [-u] [-i]",
+    "       uniq [-c] [-d] [-u] [-i] ~/tmp/<file>",
+    "",
+    "\x1b[33mOptions:\x1b[0m",
+    "  \x1b[32m-c\x1b[0m   Prefix each line with its number of occurrences",
+    "  \x1b[32m-d\x1b[0m   Only print lines that are repeated",
+    "  \x1b[32m-u\x1b[0m   Only print lines that are not repeated",
+    "  \x1b[32m-i\x1b[0m   Ignore case when comparing",
+    "",
+    "Only adjacent lines are compared \u2014 pipe through sort first.",
+    "",
+    "\x1b[33mExamples:\x1b[0m",
+    "  find --type link --meta | cut -d= -f2 | sort | uniq -c | sort -rn",
+  ].join("\r\n"),
+
+  cut: [
+    "\x1b[1;36mcut\x1b[0m \u2014 Select fields or characters from each line (pipe consumer)",
+    "",
+    "\x1b[33mUsage:\x1b[0m command | cut [-d DELIM] -f LIST",
+    "       cut [-d DELIM] -f LIST ~/tmp/<file>",
+    "       command | cut -c LIST",
+    "",
+    "\x1b[33mOptions:\x1b[0m",
+    "  \x1b[32m-d DELIM\x1b[0m   Field delimiter (single character)",
+    "  \x1b[32m-f LIST\x1b[0m    Fields to keep, e.g. 1 or 1,3 or 2-4 or 3-",
+    "  \x1b[32m-c LIST\x1b[0m    Characters to keep, same LIST syntax",
+    "",
+    "Without -d, fields are separated by runs of whitespace.",
+    "Lines without the delimiter are printed unchanged.",
+    "",
+    "\x1b[33mExamples:\x1b[0m",
+    "  grep -r results | cut -f2                 Element names only",
+    "  find --type link --meta | cut -d= -f2     Text after 'href='",
+  ].join("\r\n"),
+
+  sed: [
+    "\x1b[1;36msed\x1b[0m \u2014 Rewrite lines with regular expressions (pipe consumer)",
+    "",
+    "\x1b[33mUsage:\x1b[0m command | sed [-E] 's/REGEX/REPLACEMENT/[gi]'",
+    "       sed [-E] 's/REGEX/REPLACEMENT/[gi]' ~/tmp/<file>",
+    "       command | sed [-E] '/REGEX/d'",
+    "",
+    "\x1b[33mOptions:\x1b[0m",
+    "  \x1b[32m-E, -r\x1b[0m     Extended regular expressions ( ) + ? | without backslashes",
+    "  \x1b[32m-e SCRIPT\x1b[0m  Add a script (repeat to run several in order)",
+    "",
+    "In the replacement, & is the whole match and \\1..\\9 are groups.",
+    "Any character may follow 's' as the delimiter (e.g. s#a#b#).",
+    "",
+    "\x1b[33mExamples:\x1b[0m",
+    "  find --type link --meta | sed 's/.*href=//'",
+    "  extract_links | sed -E 's/^[0-9]+\\. //'",
+    "  ls -l | sed '/generic/d'",
+  ].join("\r\n"),
+
+  tr: [
+    "\x1b[1;36mtr\x1b[0m \u2014 Translate, squeeze or delete characters (pipe consumer)",
+    "",
+    "\x1b[33mUsage:\x1b[0m command | tr [-s] SET1 SET2",
+    "       tr [-s] SET1 SET2 ~/tmp/<file>",
+    "       command | tr -d [-s] SET1",
+    "",
+    "\x1b[33mOptions:\x1b[0m",
+    "  \x1b[32m-d\x1b[0m   Delete characters in SET1",
+    "  \x1b[32m-s\x1b[0m   Squeeze runs of repeated characters into one",
+    "",
+    "Sets accept ranges (a-z), escapes (\\n, \\t) and classes ([:upper:], [:digit:], ...).",
+    "",
+    "\x1b[33mExamples:\x1b[0m",
+    "  text | tr a-z A-Z              Uppercase",
+    "  text | tr -s '\\n' ' '          Join lines",
+    "  find --type link | tr -d _",
+  ].join("\r\n"),
+};
+
+// ---- Arg Parsing Utility ----
+
+interface ParsedArgs {
+  flags: Set<string>;
+  named: Record<string, string>;
+  positional: string[];
+}
+
+function parseArgs(args: string[]): ParsedArgs {
+  const flags = new Set<string>();
+  const named: Record<string, string> = {};
+  const positional: string[] = [];
+
+  let i = 0;
+  while (i < args.length) {
+    const a = args[i];
+    if (a === "--help") {
+      flags.add("--help");
+    } else if (a === "-l" || a === "--long") {
+      flags.add("-l");
+    } else if (a === "-r" || a === "--recursive") {
+      flags.add("-r");
+    } else if (a === "--count") {
+      flags.add("--count");
+    } else if ((a === "-n" || a === "-d" || a === "--offset" || a === "--type" || a === "--textlen" || a === "--format" || a === "--submit" || a === "--after" || a === "--before" || a === "-A" || a === "-B" || a === "-C" || a === "--origin" || a === "--state" || a === "--level") && i + 1 < args.length) {
+      named[a] = args[++i];
+    } else if (a.startsWith("-")) {
       flags.add(a);
     } else {
       positional.push(a);
@@ -924,158 +1813,572 @@ function parseArgs(args: string[]): ParsedArgs {
   return { flags, named, positional };
 }
 
-// ---- Command Parser ----
+// Options that take a value, reported as such when the value is missing
+const VALUE_OPTIONS = new Set(["-n", "-A", "-B", "-C", "--type", "--textlen", "--state", "--level"]);
 
-function splitOnPipe(input: string): string[] {
-  const segments: string[] = [];
-  let current = "";
-  let inQuote: string | null = null;
-  for (const char of input) {
-    if (inQuote) {
-      current += char;
-      if (char === inQuote) inQuote = null;
-    } else if (char === '"' || char === "'") {
-      inQuote = char;
-      current += char;
-    } else if (char === "|") {
-      if (current.trim()) segments.push(current.trim());
-      current = "";
+/**
+ * Parse tree grep/find arguments the way piped grep reads its own: grouped
+ * short flags (-rE, -ic) are split, -e PATTERN gives a pattern that may start
+ * with '-', and any option not in `shortFlags` or `longFlags` is an error.
+ */
+function parseMatchArgs(cmd: string, args: string[], shortFlags: string, longFlags: string[]): ParsedArgs {
+  const { flags: short, rest } = splitShortFlags(args, shortFlags);
+  let pattern: string | null = null;
+  const others: string[] = [];
+  for (let i = 0; i < rest.length; i++) {
+    if (rest[i] === "-e") {
+      if (i + 1 >= rest.length) throw new CommandError(`${cmd}: option '-e' needs a value`, 2);
+      pattern = rest[++i];
     } else {
-      current += char;
+      others.push(rest[i]);
     }
   }
-  if (current.trim()) segments.push(current.trim());
-  return segments;
-}
-
-function grepLines(output: string, pattern: string, limit: number): string {
-  const stripAnsi = (s: string) => s.replace(/\x1b\[[0-9;]*m/g, "");
-  const lines = output.split("\r\n").filter(Boolean);
-  const matches: string[] = [];
-  for (const line of lines) {
-    if (stripAnsi(line).toLowerCase().includes(pattern.toLowerCase())) {
-      matches.push(line);
-      if (limit > 0 && matches.length >= limit) break;
-    }
-  }
-  return matches.length > 0 ? matches.join("\r\n") : "\x1b[90m(no matches)\x1b[0m";
-}
-
-async function executeCommand(raw: string): Promise<string> {
-  const trimmed = raw.trim();
-  if (!trimmed) return "";
-
-  // Pipe support: split on | and chain outputs
-  const pipeSegments = splitOnPipe(trimmed);
-  if (pipeSegments.length > 1) {
-    let currentOutput = await executeCommand(pipeSegments[0]);
-    for (let i = 1; i < pipeSegments.length; i++) {
-      const pipeCmd = parseCommandLine(pipeSegments[i]);
-      const pipeName = pipeCmd[0]?.toLowerCase();
-      const pipeArgs = pipeCmd.slice(1);
-      if (pipeName === "grep") {
-        const pa = parseArgs(pipeArgs);
-        const pattern = pa.positional[0] || "";
-        const limit = pa.named["-n"] ? parseInt(pa.named["-n"], 10) : 0;
-        if (!pattern) return "\x1b[31mgrep: missing pattern\x1b[0m";
-        currentOutput = grepLines(currentOutput, pattern, limit);
-      } else if (pipeName === "head") {
-        const pa = parseArgs(pipeArgs);
-        const n = pa.named["-n"] ? parseInt(pa.named["-n"], 10) : 10;
-        const lines = currentOutput.split("\r\n").filter(Boolean);
-        currentOutput = lines.slice(0, n).join("\r\n");
-      } else {
-        return `\x1b[31mPipe: '${pipeName}' not supported as pipe consumer. Use grep or head.\x1b[0m`;
+
+  const pa = parseArgs(others);
+  for (const flag of pa.flags) {
+    if (VALUE_OPTIONS.has(flag)) throw new CommandError(`${cmd}: option '${flag}' needs a value`, 2);
+    if (flag !== "--help" && !longFlags.includes(flag)) {
+      throw new CommandError(`${cmd}: unknown option '${flag}'`, 2);
+    }
+  }
+  for (const c of short) pa.flags.add(`-${c}`);
+  if (pattern !== null) pa.positional.unshift(pattern);
+  return pa;
+}
+
+function matcherFromArgs(cmd: string, pattern: string, pa: ParsedArgs): Matcher {
+  try {
+    return createMatcher(pattern, matchOptionsFromFlags(pa.flags));
+  } catch (err: any) {
+    throw new CommandError(`${cmd}: ${err.message}`, 2);
+  }
+}
+
+/**
+ * The element filter ls and find share: --type ROLE, --level N and the
+ * states asked for with --state WORD[,WORD...] or a --WORD flag (--checked,
+ * --disabled, ...). Null when none is given.
+ */
+function nodeFilterFromArgs(cmd: string, pa: ParsedArgs): ((node: VFSNode) => boolean) | null {
+  const type = pa.named["--type"]?.toLowerCase();
+  const words = [
+    ...(pa.named["--state"] ?? "").split(",").map((w) => w.trim().toLowerCase()).filter(Boolean),
+    ...STATE_WORDS.filter((w) => pa.flags.has(`--${w}`)),
+  ];
+  const unknown = words.find((w) => !STATE_WORDS.includes(w));
+  if (unknown) {
+    throw new CommandError(`${cmd}: --state ${unknown}: unknown state (one of ${STATE_WORDS.join(", ")})`, 2);
+  }
+  const levelArg = pa.named["--level"];
+  const level = levelArg !== undefined ? parseInt(levelArg, 10) : undefined;
+  if (level !== undefined && !(level > 0)) {
+    throw new CommandError(`${cmd}: --level ${levelArg}: not a positive number`, 2);
+  }
+
+  if (!type && words.length === 0 && level === undefined) return null;
+  return (node) => (!type || node.role.toLowerCase() === type)
+    && (level === undefined || node.states?.level === level)
+    && hasStates(node, words);
+}
+
+/**
+ * The visibility filter ls and find share: --visible (not hidden),
+ * --in-viewport or --hidden (see Visibility). Null when none is given.
+ */
+function visibilityFilterFromArgs(cmd: string, pa: ParsedArgs): ((visibility: Visibility) => boolean) | null {
+  const given = ["--visible", "--in-viewport", "--hidden"].filter((f) => pa.flags.has(f));
+  if (given.length > 1) throw new CommandError(`${cmd}: ${given.join(" and ")} can't be combined`, 2);
+  switch (given[0]) {
+    case "--visible": return (v) => v !== "hidden";
+    case "--in-viewport": return (v) => v === "in-viewport";
+    case "--hidden": return (v) => v === "hidden";
+    default: return null;
+  }
+}
+
+/**
+ * Whether each item can be seen on the page, checked in one page call per
+ * frame. `backing` gives an item's DOM node; items without one, or whose
+ * node is gone, are left out of the map.
+ */
+async function visibilityOfItems<T>(
+  items: T[],
+  backing: (item: T) => { backendDOMNodeId?: number; sessionId?: string },
+): Promise<Map<T, Visibility>> {
+  const bySession = new Map<string | undefined, Array<{ item: T; id: number }>>();
+  for (const item of items) {
+    const { backendDOMNodeId, sessionId } = backing(item);
+    if (!backendDOMNodeId) continue;
+    if (!bySession.has(sessionId)) bySession.set(sessionId, []);
+    bySession.get(sessionId)!.push({ item, id: backendDOMNodeId });
+  }
+
+  const visibility = new Map<T, Visibility>();
+  for (const [sessionId, group] of bySession) {
+    const byId = await cdp.getVisibility(group.map((g) => g.id), sessionId);
+    for (const { item, id } of group) {
+      const v = byId.get(id);
+      if (v) visibility.set(item, v);
+    }
+  }
+  return visibility;
+}
+
+/** The items whose visibility passes `keep`; items that can't be checked count as hidden. */
+async function filterByVisibility<T>(
+  items: T[],
+  backing: (item: T) => { backendDOMNodeId?: number; sessionId?: string },
+  keep: (visibility: Visibility) => boolean,
+): Promise<T[]> {
+  const visibility = await visibilityOfItems(items, backing);
+  return items.filter((item) => keep(visibility.get(item) ?? "hidden"));
+}
+
+// ---- Command Results ----
+
+/**
+ * A failed command: `message` goes to stderr (in red) with exit status `status`.
+ * Handlers throw this instead of returning red text; any other thrown error is
+ * reported as "Error: <message>" with status 1.
+ */
+class CommandError extends Error {
+  constructor(message: string, readonly status: number = 1) {
+    super(message);
+  }
+}
+
+function successResult(stdout: string): CommandResult {
+  return { stdout, stderr: "", status: 0 };
+}
+
+/**
+ * grep and find found nothing: status 1, like grep, with the notice on
+ * stderr so that pipes and $(...) see no output.
+ */
+function noMatchResult(notice: string): CommandResult {
+  return { stdout: "", stderr: `\x1b[33m${notice}\x1b[0m`, status: 1 };
+}
+
+function countResult(count: number): CommandResult {
+  return { stdout: String(count), stderr: "", status: count > 0 ? 0 : 1 };
+}
+
+function errorResult(err: any): CommandResult {
+  if (err instanceof CommandError) {
+    return { stdout: "", stderr: `\x1b[31m${err.message}\x1b[0m`, status: err.status };
+  }
+  return { stdout: "", stderr: `\x1b[31mError: ${err.message}\x1b[0m`, status: 1 };
+}
+
+/** Concatenate results in order, skipping empty streams, with the given final status. */
+function joinResults(results: CommandResult[], status: number): CommandResult {
+  const join = (parts: string[]) => parts.filter(Boolean).join("\r\n");
+  return {
+    stdout: join(results.map((r) => r.stdout)),
+    stderr: join(results.map((r) => r.stderr)),
+    status,
+  };
+}
+
+/** Both streams as one text, stdout first, for consumers with a single channel (MCP). */
+function resultText(result: CommandResult): string {
+  return [result.stdout, result.stderr].filter(Boolean).join("\r\n");
+}
+
+// ---- Command Parser ----
+
+// Interactive lines waiting their turn. The origin, definition permission,
+// $? and script stack are kernel globals, so panel and MCP lines must not
+// interleave while one of them awaits.
+let lineQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Entry point for a line typed in the side panel or sent by an MCP client:
+ * expand history references (!!, !N, !prefix), record the line under its
+ * origin, then run it. An expanded line is echoed before its output.
+ * `permissions` say what an MCP server lets the line do; they hold for
+ * everything it runs, scripts and functions included. Lines run one at a
+ * time, in the order they arrive.
+ */
+function executeInteractive(raw: string, origin: string, permissions = PANEL_PERMISSIONS): Promise<CommandResult> {
+  const run = lineQueue.then(() => runInteractiveLine(raw, origin, permissions));
+  lineQueue = run.catch(() => {});
+  return run;
+}
+
+async function runInteractiveLine(raw: string, origin: string, permissions: LinePermissions): Promise<CommandResult> {
+  let line = raw.trim();
+  let echo = "";
+  try {
+    const expansion = await commandHistory.expand(line);
+    line = expansion.line;
+    if (expansion.expanded) echo = `\x1b[90m${line}\x1b[0m`;
+  } catch (err: any) {
+    lastExitStatus = 1;
+    return errorResult(new CommandError(`domshell: ${err.message}`));
+  }
+
+  if (line) {
+    try {
+      await commandHistory.add(line, origin);
+    } catch {
+      // Storage full or unavailable — run the command anyway
+    }
+  }
+  currentOrigin = origin;
+  linePermissions = permissions;
+  lineRanWhoami = false;
+  const result = await executeCommand(line);
+  return echo ? { ...result, stdout: [echo, result.stdout].filter(Boolean).join("\r\n") } : result;
+}
+
+async function executeCommand(raw: string): Promise<CommandResult> {
+  let script: ShellStatement[];
+  try {
+    script = parseScript(raw);
+  } catch (err: any) {
+    lastExitStatus = 2;
+    return errorResult(new CommandError(err.message, 2));
+  }
+  return await runStatements(script);
+}
+
+// ---- Control Flow ----
+
+/** Upper bound on while-loop iterations, so a condition that never fails can't hang the kernel. */
+const MAX_LOOP_ITERATIONS = 1000;
+
+/**
+ * Run statements in order, honouring && (only after success) and || (only
+ * after failure). The returned status, like $?, is the last executed one's.
+ */
+async function runStatements(statements: ShellStatement[]): Promise<CommandResult> {
+  const results: CommandResult[] = [];
+  for (const { connector, node } of statements) {
+    if (connector === "&&" && lastExitStatus !== 0) continue;
+    if (connector === "||" && lastExitStatus === 0) continue;
+    results.push(await runNode(node));
+  }
+  return joinResults(results, lastExitStatus);
+}
+
+/** Run one statement and record its status as $?. */
+async function runNode(node: ShellNode): Promise<CommandResult> {
+  const result = await evaluateNode(node);
+  lastExitStatus = result.status;
+  return result;
+}
+
+async function evaluateNode(node: ShellNode): Promise<CommandResult> {
+  switch (node.kind) {
+    case "command":
+      return await runPipeline(node.text);
+    case "for": {
+      let items: string[];
+      try {
+        items = await parseCommandLine(node.words, await getShellVariables());
+      } catch (err: any) {
+        return errorResult(err);
+      }
+      const results: CommandResult[] = [];
+      let status = 0;
+      try {
+        ensureNotKeepingCookies("for");   // The loop variable outlives the line
+      } catch (err: any) {
+        return errorResult(err);
       }
+      for (const item of items) {
+        state.env[node.variable] = item;
+        const result = await runStatements(node.body);
+        results.push(result);
+        status = result.status;
+      }
+      return joinResults(results, status);
+    }
+    case "while": {
+      const results: CommandResult[] = [];
+      let status = 0;
+      for (let iteration = 0; ; iteration++) {
+        const condition = await runStatements(node.condition);
+        results.push(condition);
+        if (condition.status !== 0) break;
+        if (iteration >= MAX_LOOP_ITERATIONS) {
+          results.push(errorResult(new CommandError(`while: stopped after ${MAX_LOOP_ITERATIONS} iterations`)));
+          status = 1;
+          break;
+        }
+        const body = await runStatements(node.body);
+        results.push(body);
+        status = body.status;
+      }
+      return joinResults(results, status);
+    }
+    case "if": {
+      const results: CommandResult[] = [];
+      let body = node.elseBody;
+      for (const branch of node.branches) {
+        const condition = await runStatements(branch.condition);
+        results.push(condition);
+        if (condition.status === 0) {
+          body = branch.body;
+          break;
+        }
+      }
+      if (body.length === 0) return joinResults(results, 0);
+      const result = await runStatements(body);
+      results.push(result);
+      return joinResults(results, result.status);
     }
-    return currentOutput;
+    case "function":
+      try {
+        await defineFunction(node.name, node.body);
+        return successResult("");
+      } catch (err: any) {
+        return errorResult(err);
+      }
   }
+}
+
+/**
+ * Run one pipeline: the first stage is a command, later stages are text
+ * filters over its stdout, and a trailing > / >> sends the final stdout to
+ * ~/tmp. Stderr passes through; the status is the last stage's. A leading
+ * alias is expanded first (see runAliased).
+ */
+async function runPipeline(text: string): Promise<CommandResult> {
+  const trimmed = text.trim();
+  const aliased = await runAliased(trimmed);
+  if (aliased) return aliased;
+
+  // Variables are snapshotted once per pipeline ($URL needs an async tab lookup)
+  const vars = trimmed.includes("$") ? await getShellVariables() : {};
+
+  let redirection: Redirection | null;
+  try {
+    redirection = splitRedirection(trimmed);
+  } catch (err: any) {
+    return errorResult(new CommandError(err.message, 2));
+  }
+  const result = await runStages(redirection?.command ?? trimmed, vars);
+  return redirection ? await redirectStdout(result, redirection, vars) : result;
+}
 
-  const parts = parseCommandLine(trimmed);
-  const cmd = parts[0].toLowerCase();
-  const args = parts.slice(1);
+async function runStages(text: string, vars: Record<string, string>): Promise<CommandResult> {
+  const [first, ...filters] = splitOnPipe(text);
+  let result = await runSimpleCommand(first ?? "", vars);
+  for (const segment of filters) {
+    try {
+      const { output, status } = await applyPipeFilter(segment, vars, result.stdout);
+      result = { stdout: output, stderr: result.stderr, status };
+    } catch (err: any) {
+      const failure = errorResult(err);
+      return { ...failure, stderr: [result.stderr, failure.stderr].filter(Boolean).join("\r\n") };
+    }
+  }
+  return result;
+}
 
-  // Universal --help check
+async function applyPipeFilter(segment: string, vars: Record<string, string>, input: string): Promise<FilterResult> {
+  const words = await parseCommandLine(segment, vars);
+  const name = words[0]?.toLowerCase() ?? "";
+  const args = words.slice(1);
+  if (!isPipeFilter(name) && name !== "write") {
+    throw new CommandError(`Pipe: '${name}' not supported as pipe consumer. Use one of: ${PIPE_FILTERS.join(", ")}, write.`);
+  }
   if (args.includes("--help")) {
-    return COMMAND_HELP[cmd] ?? `No help available for '${cmd}'.`;
+    return { output: COMMAND_HELP[name], status: 0 };
+  }
+  if (name === "write") {
+    return { output: await handleWrite(args, input), status: 0 };
+  }
+  try {
+    return runPipeFilter(name, args, input);
+  } catch (err: any) {
+    throw new CommandError(err.message);
   }
+}
 
+async function runSimpleCommand(text: string, vars: Record<string, string>): Promise<CommandResult> {
   try {
-    switch (cmd) {
-      case "help":
-        return handleHelp();
-      case "tabs":
-        return await handleTabs();
-      case "windows":
-        return await handleWindows();
-      case "ls":
-        return await handleLs(args);
-      case "cd":
-        return await handleCd(args);
-      case "pwd":
-        return handlePwd();
-      case "here":
-        return await handleHere();
-      case "cat":
-        return await handleCat(args);
-      case "text":
-        return await handleText(args);
-      case "click":
-        return await handleClick(args);
-      case "type":
-        return await handleType(args);
-      case "focus":
-        return await handleFocus(args);
-      case "submit":
-        return await handleSubmit(args);
-      case "extract_links":
-        return await handleExtractLinks(args);
-      case "extract_table":
-        return await handleExtractTable(args);
-      case "grep":
-        return await handleGrep(args);
-      case "find":
-        return await handleFind(args);
-      case "whoami":
-        return await handleWhoami();
-      case "env":
-        return handleEnv();
-      case "export":
-        return handleExport(args);
-      case "tree":
-        return await handleTree(args);
-      case "read":
-        return await handleRead(args);
-      case "refresh":
-        return await handleRefresh();
-      case "debug":
-        return await handleDebug(args);
-      case "navigate":
-      case "goto":
-        return await handleNavigate(args);
-      case "open":
-        return await handleOpen(args);
-      case "connect":
-        return handleConnect(args);
-      case "disconnect":
-        return handleDisconnect();
-      case "clear":
-        return "\x1b[2J\x1b[H";
-      default:
-        return `\x1b[31mdomshell: ${cmd}: command not found\x1b[0m\r\nType 'help' for available commands. Use '<command> --help' for details.`;
+    const parts = await parseCommandLine(text, vars);
+    if (parts.length === 0) return successResult("");
+
+    // Functions shadow builtins, like in bash
+    const body = linePermissions.definitions ? await definitions.getFunction(parts[0]) : undefined;
+    if (body !== undefined) return await callFunction(parts[0], body, parts.slice(1));
+
+    const cmd = parts[0].toLowerCase();
+    const args = parts.slice(1);
+
+    // Universal --help check
+    if (args.includes("--help")) {
+      return successResult(COMMAND_HELP[cmd] ?? `No help available for '${cmd}'.`);
     }
+
+    const output = await dispatchCommand(cmd, args);
+    return typeof output === "string" ? successResult(output) : output;
   } catch (err: any) {
-    return `\x1b[31mError: ${err.message}\x1b[0m`;
+    return errorResult(err);
+  }
+}
+
+/** Run a builtin. Handlers return their stdout, or a CommandResult when they set the status themselves. */
+async function dispatchCommand(cmd: string, args: string[]): Promise<string | CommandResult> {
+  switch (cmd) {
+    case "help":
+      return handleHelp();
+    case "tabs":
+      return await handleTabs();
+    case "windows":
+      return await handleWindows();
+    case "ls":
+      return await handleLs(args);
+    case "cd":
+      return await handleCd(args);
+    case "pwd":
+      return handlePwd();
+    case "here":
+      return await handleHere();
+    case "cat":
+      return await handleCat(args);
+    case "text":
+      return await handleText(args);
+    case "click":
+      return await handleClick(args);
+    case "type":
+      return await handleType(args);
+    case "focus":
+      return await handleFocus(args);
+    case "submit":
+      return await handleSubmit(args);
+    case "extract_links":
+      return await handleExtractLinks(args);
+    case "extract_table":
+      return await handleExtractTable(args);
+    case "grep":
+      return (await runFilterOnFile(cmd, args)) ?? await handleGrep(args);
+    case "find":
+      return await handleFind(args);
+    case "whoami":
+      return await handleWhoami();
+    case "env":
+      return handleEnv();
+    case "export":
+      return handleExport(args);
+    case "unset":
+      return await handleUnset(args);
+    case "history":
+      return await handleHistory(args);
+    case "alias":
+      return await handleAlias(args);
+    case "unalias":
+      return await handleUnalias(args);
+    case "echo":
+      return args.join(" ");
+    case "test":
+    case "[":
+      return await handleTest(cmd, args);
+    case "write":
+      return await handleWrite(args);
+    case "rm":
+      return await handleRm(args);
+    case "run":
+      return await handleRun(args);
+    case "set":
+      return handleSet(args);
+    case "tree":
+      return await handleTree(args);
+    case "read":
+      return await handleRead(args);
+    case "refresh":
+      return await handleRefresh();
+    case "debug":
+      return await handleDebug(args);
+    case "navigate":
+    case "goto":
+      return await handleNavigate(args);
+    case "open":
+      return await handleOpen(args);
+    case "connect":
+      return handleConnect(args);
+    case "disconnect":
+      return handleDisconnect();
+    case "clear":
+      return "\x1b[2J\x1b[H";
+    case "head":
+    case "tail":
+    case "wc":
+    case "sort":
+    case "uniq":
+    case "cut":
+    case "sed":
+    case "tr": {
+      const output = await runFilterOnFile(cmd, args);
+      if (output !== null) return output;
+      throw new CommandError(`${cmd}: reads from a pipe or a ~/tmp file (e.g. 'find --type link | ${cmd}'). See '${cmd} --help'.`);
+    }
+    default:
+      if (definitions.cachedNames().includes(cmd)) ensureDefinitionsEnabled(`domshell: ${cmd}`);
+      return {
+        stdout: "",
+        stderr: `\x1b[31mdomshell: ${cmd}: command not found\x1b[0m\r\nType 'help' for available commands. Use '<command> --help' for details.`,
+        status: 127,
+      };
   }
 }
 
-function parseCommandLine(input: string): string[] {
+/**
+ * Split a command line into words. Quotes group words; $NAME, ${NAME}, $? and
+ * $(command) expand everywhere except inside single quotes. Unquoted variables
+ * are word-split on whitespace like bash, unquoted substitutions give one word
+ * per output line. \$ yields a literal $, and "" stays an (empty) argument.
+ */
+async function parseCommandLine(input: string, vars: Record<string, string> = {}): Promise<string[]> {
   const parts: string[] = [];
   let current = "";
   let inQuote: string | null = null;
-
-  for (const char of input) {
-    if (inQuote) {
+  let quoted = false;   // current word had quotes, so keep it even if empty ("")
+
+  const endWord = () => {
+    if (current || quoted) parts.push(current);
+    current = "";
+    quoted = false;
+  };
+
+  // Unquoted expansion: the first piece extends the current word, the rest start new ones
+  const appendPieces = (pieces: string[]) => {
+    current += pieces[0] ?? "";
+    for (const piece of pieces.slice(1)) {
+      endWord();
+      current = piece;
+    }
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    const ref = char === "$" && inQuote !== "'" ? readVariableRef(input, i) : null;
+    if (inQuote !== "'" && char === "\\" && input[i + 1] === "$") {
+      current += "$";
+      i++;
+    } else if (inQuote !== "'" && char === "$" && input[i + 1] === "(") {
+      const end = findSubstitutionEnd(input, i);
+      if (end === -1) throw new CommandError("syntax error: unterminated $(", 2);
+      const lines = await substituteCommand(input.slice(i + 2, end));
+      i = end;
+      if (inQuote) {
+        current += lines.join("\n");
+      } else {
+        appendPieces(lines);
+      }
+    } else if (ref) {
+      const value = vars[ref.name] ?? "";
+      i = ref.end - 1;
+      if (inQuote) {
+        current += value;
+      } else {
+        appendPieces(value.split(/[ \t]+/));
+      }
+    } else if (inQuote) {
       if (char === inQuote) {
         inQuote = null;
       } else {
@@ -1083,19 +2386,68 @@ function parseCommandLine(input: string): string[] {
       }
     } else if (char === '"' || char === "'") {
       inQuote = char;
+      quoted = true;
     } else if (char === " " || char === "\t") {
-      if (current) {
-        parts.push(current);
-        current = "";
-      }
+      endWord();
     } else {
       current += char;
     }
   }
-  if (current) parts.push(current);
+  endWord();
   return parts;
 }
 
+/**
+ * Run the body of a $(...) and return its stdout lines, ANSI stripped and
+ * trimmed. As in bash, a failing inner command doesn't stop the outer one: it
+ * gets whatever stdout there was, and only $? tells of the failure.
+ */
+async function substituteCommand(body: string): Promise<string[]> {
+  const result = await executeCommand(body);
+  lastExitStatus = result.status;
+  return splitLines(stripAnsi(result.stdout)).map((line) => line.trim()).filter(Boolean);
+}
+
+/**
+ * Parse a variable reference ($NAME, ${NAME}, $?, $#, $@, $1, ${10}) starting
+ * at input[start] === "$". Like bash, a bare positional is one digit.
+ */
+function readVariableRef(input: string, start: number): { name: string; end: number } | null {
+  const rest = input.slice(start + 1);
+  const braced = rest.match(/^\{([A-Za-z_][A-Za-z0-9_]*|[0-9]+|[?#@])\}/);
+  if (braced) return { name: braced[1], end: start + 1 + braced[0].length };
+  const bare = rest.match(/^([A-Za-z_][A-Za-z0-9_]*|[0-9?#@])/);
+  if (bare) return { name: bare[1], end: start + 1 + bare[0].length };
+  return null;
+}
+
+/**
+ * Variables visible to expansion: exported env plus the read-only built-ins
+ * $PWD, $TAB and $URL (the latter two only inside a tab), $?, and while a
+ * script runs its positional parameters $0..$n, $# and $@.
+ */
+async function getShellVariables(): Promise<Record<string, string>> {
+  const vars: Record<string, string> = { ...state.env, PWD: handlePwd(), "?": String(lastExitStatus) };
+  const frame = scriptStack[scriptStack.length - 1];
+  if (frame) {
+    vars["0"] = frame.name;
+    frame.args.forEach((arg, i) => { vars[String(i + 1)] = arg; });
+    vars["#"] = String(frame.args.length);
+    vars["@"] = frame.args.join(" ");
+  }
+  const tabId = getTabIdFromPath(state.path);
+  if (tabId !== null) {
+    vars.TAB = String(tabId);
+    try {
+      const tab = await chrome.tabs.get(tabId);
+      vars.URL = tab.url ?? "";
+    } catch {
+      // Tab closed since we entered it — leave $URL unset
+    }
+  }
+  return vars;
+}
+
 // ---- Command Implementations ----
 
 function handleHelp(): string {
@@ -1132,13 +2484,38 @@ function handleHelp(): string {
     "  \x1b[32mfocus <name>\x1b[0m    Focus an input element",
     "  \x1b[32mtype <text>\x1b[0m     Type text into the focused element",
     "",
+    "\x1b[1;33mPipes:\x1b[0m",
+    "  \x1b[32mcmd | grep <pat>\x1b[0m Filter lines matching a pattern",
+    "  \x1b[32mcmd | head/tail\x1b[0m  First/last N lines (-n N)",
+    "  \x1b[32mcmd | sort/uniq\x1b[0m  Sort lines (-r, -n, -u) / collapse repeats (-c)",
+    "  \x1b[32mcmd | wc -l\x1b[0m      Count lines (-w words, -c chars)",
+    "  \x1b[32mcmd | cut\x1b[0m        Select fields (-d D -f LIST) or chars (-c LIST)",
+    "  \x1b[32mcmd | sed/tr\x1b[0m     Rewrite text (s/re/new/g) / translate characters",
+    "  \x1b[32mcmd $(cmd2)\x1b[0m      Use cmd2's output lines as arguments",
+    "  \x1b[32mcmd > ~/tmp/<f>\x1b[0m  Save output to a scratch file (>> appends)",
+    "",
     "\x1b[1;33mSystem:\x1b[0m",
     "  \x1b[32mwhoami\x1b[0m          Check authentication cookies",
     "  \x1b[32menv\x1b[0m             Show environment variables",
-    "  \x1b[32mexport K=V\x1b[0m      Set an environment variable",
+    "  \x1b[32mexport K=V\x1b[0m      Set an environment variable (use as $K)",
+    "  \x1b[32munset K\x1b[0m         Remove an environment variable",
+    "  \x1b[32mecho <args>\x1b[0m     Print arguments (e.g. echo $URL)",
+    "  \x1b[32mhistory\x1b[0m         Show command history (!! / !N / !prefix re-run)",
+    "  \x1b[32malias N='cmd'\x1b[0m   Define an alias (alias lists them, unalias removes)",
     "  \x1b[32mdebug\x1b[0m           Inspect raw AX tree data",
     "  \x1b[32mclear\x1b[0m           Clear the terminal",
     "",
+    "\x1b[1;33mScripting:\x1b[0m",
+    "  \x1b[32mfor x in ...; do ...; done\x1b[0m  Loop over words (e.g. $(find ... | cut -f2))",
+    "  \x1b[32mwhile ...; do ...; done\x1b[0m     Loop while a condition succeeds",
+    "  \x1b[32mif ...; then ...; fi\x1b[0m        Branch on a condition (elif/else supported)",
+    "  \x1b[32mtest / [ ]\x1b[0m      Conditions: -e/-d PATH, -n/-z STR, A = B, A -lt B",
+    "  \x1b[32ma && b\x1b[0m          Run b only if a succeeds (|| if it fails, ; always)",
+    "  \x1b[32mwrite <name> ...\x1b[0m Save a script to ~/scripts (-a appends a line)",
+    "  \x1b[32mrun <name> ...\x1b[0m   Run a saved script; its arguments are $1..$n",
+    "  \x1b[32mrm <name>\x1b[0m       Delete a saved script",
+    "  \x1b[32mname() { ...; }\x1b[0m Define a function; its arguments are $1..$n",
+    "",
     "\x1b[1;33mMCP Bridge:\x1b[0m",
     "  \x1b[32mconnect <token>\x1b[0m Connect to an MCP server (WebSocket)",
     "  \x1b[32mdisconnect\x1b[0m      Disconnect from the MCP server",
@@ -1155,8 +2532,9 @@ function handleHelp(): string {
 async function handleRefresh(): Promise<string> {
   ensureInsideTab();
 
-  const axNodes = await cdp.getAllFrameAXTrees();
-  nodeMap = buildNodeMap(axNodes);
+  treeStale = false;
+  changedDomNodes.clear();
+  await loadAXTree();
 
   const root = findRootNode(nodeMap);
 
@@ -1166,96 +2544,322 @@ async function handleRefresh(): Promise<string> {
     state.path = state.path.slice(0, domStart);
   }
   state.axNodeIds = root ? [root.nodeId] : [];
+  state.domNodeIds = [];
 
   return `\x1b[32m\u2713 Refreshed. ${nodeMap.size} AX nodes loaded.\x1b[0m`;
 }
 
 /**
- * If the DOM/page has changed since last fetch, re-fetch the AX tree.
- * Returns a status message if refresh happened, empty string otherwise.
+ * If the DOM/page has changed since last fetch, bring the AX tree up to
+ * date once the page stops mutating. Returns a status message if refresh
+ * happened (with how many DOM nodes changed), empty string otherwise.
  */
 async function ensureFreshTree(): Promise<string> {
   if (!treeStale) return "";
 
+  await waitForDomToSettle();
   treeStale = false;
+  const changed = changedDomNodes.size;
+  changedDomNodes.clear();
 
-  const axNodes = await cdp.getAllFrameAXTrees();
-  nodeMap = buildNodeMap(axNodes);
+  // The directories on the CWD, to find them again in the new tree
+  const cwdNodes = state.axNodeIds.map((id) => nodeMap.get(id));
 
-  // Check if current AX node still exists in the new tree
-  const currentId = state.axNodeIds[state.axNodeIds.length - 1];
-  if (!currentId || !nodeMap.has(currentId)) {
-    // CWD is gone — page navigated or node IDs changed, reset to root
-    const root = findRootNode(nodeMap);
-    const domStart = getDomStartIndex(state.path);
-    if (domStart >= 0) {
-      state.path = state.path.slice(0, domStart);
+  await updateAXTree();
+
+  const lost = isInDomView() ? await reresolveDomCwd() : reresolveCwd(cwdNodes);
+  if (lost) {
+    return `\x1b[33m(page changed \u2014 tree refreshed, ${nodeMap.size} nodes; ${lost})\x1b[0m\r\n`;
+  }
+
+  const changedNote = changed > 0 ? `${changed} node${changed === 1 ? "" : "s"} changed \u2014 ` : "";
+  return `\x1b[90m(${changedNote}tree auto-refreshed, ${nodeMap.size} nodes)\x1b[0m\r\n`;
+}
+
+/**
+ * Find the CWD again after the tree was refreshed: each directory on the
+ * path under the one before it, by its backend DOM node or else by name
+ * (the page may have rebuilt it). `previous` are the CWD's nodes as they
+ * were, root first. Stops at the first directory that can't be found,
+ * leaving the CWD at its deepest surviving ancestor, and says which one
+ * was lost; null when the whole path still resolves.
+ */
+function reresolveCwd(previous: Array<AXNode | undefined>): string | null {
+  if (state.axNodeIds.length > 0 && state.axNodeIds.every((id) => nodeMap.has(id))) return null;
+
+  const domStart = getDomStartIndex(state.path);
+  const names = state.path.slice(domStart);
+  const root = findRootNode(nodeMap);
+  state.path = state.path.slice(0, domStart);
+  state.axNodeIds = root ? [root.nodeId] : [];
+  state.domNodeIds = [];
+  if (!root) return names.length > 0 ? lostSegmentNote(names, 0) : null;
+
+  for (let i = 0; i < names.length; i++) {
+    const old = previous[i + 1];
+    const parentId = state.axNodeIds[state.axNodeIds.length - 1];
+    const sameElement = old?.backendDOMNodeId !== undefined
+      ? getChildVFSNodes(parentId, nodeMap).find((c) =>
+        c.isDirectory && c.backendDOMNodeId === old.backendDOMNodeId && c.sessionId === old.sessionId)
+      : undefined;
+    const byName = findChildByName(parentId, names[i], nodeMap);
+    const match = sameElement ?? (byName?.isDirectory ? byName : null);
+    if (!match) return lostSegmentNote(names, i);
+    state.path.push(match.name);
+    state.axNodeIds.push(match.axNodeId);
+  }
+  return null;
+}
+
+/**
+ * In the raw DOM view, the CWD after a refresh: its deepest element still
+ * in the page. A new document leaves the view for the tab root. Says which
+ * element was lost; null when the CWD is still there.
+ */
+async function reresolveDomCwd(): Promise<string | null> {
+  const root = findRootNode(nodeMap);
+  state.axNodeIds = root ? [root.nodeId] : [];
+
+  const domStart = getDomStartIndex(state.path);
+  const names = state.path.slice(domStart);   // @dom, then one name per element below the document
+  let alive = state.domNodeIds.length;
+  while (alive > 0 && !await cdp.describeDOMNode(state.domNodeIds[alive - 1], 0).then(() => true, () => false)) alive--;
+  if (alive === state.domNodeIds.length) return null;
+
+  state.path = state.path.slice(0, domStart + alive);
+  state.domNodeIds = state.domNodeIds.slice(0, alive);
+  return alive > 0 ? lostSegmentNote(names, alive) : "new document, now at tab root";
+}
+
+/** "main/results_list is gone, now in main": segment `lost` of `names` (the CWD's path in the tab) and where that leaves the CWD. */
+function lostSegmentNote(names: string[], lost: number): string {
+  const now = names.slice(0, lost).join("/");
+  return `${names.slice(0, lost + 1).join("/")} is gone, now ${now ? `in ${now}` : "at tab root"}`;
+}
+
+// ---- Tab Completion ----
+
+const COMMANDS = [
+  "help", "tabs", "windows", "here", "refresh", "ls", "cd", "pwd", "cat",
+  "click", "focus", "type", "grep", "find", "whoami", "env", "export", "unset", "echo", "test", "history", "alias", "unalias",
+  "tree", "read", "debug", "clear", "navigate", "goto", "open", "connect", "disconnect", "text",
+  "submit", "extract_links", "extract_table", "write", "rm", "run", "set",
+  "head", "tail", "wc", "sort", "uniq", "cut", "sed", "tr",
+];
+
+/** A completion: the word to insert, and a note shown beside it (a tab's title, what a flag does). */
+interface Completion {
+  value: string;
+  hint?: string;
+}
+
+function asCompletions(values: string[]): Completion[] {
+  return values.map((value) => ({ value }));
+}
+
+/** Commands whose arguments name elements, completed as paths from the current node. */
+const NODE_COMMANDS = new Set([
+  "cd", "cat", "click", "focus", "ls", "grep", "find", "text", "read", "submit",
+  "extract_links", "extract_table", "test", "[",
+]);
+
+/** Words that can come before a command in a statement ("do ca<Tab>" completes a command). */
+const SCRIPT_KEYWORDS = new Set(["do", "then", "else", "if", "elif", "while"]);
+
+async function getCompletions(partial: string, command: string, includeDefinitions = true): Promise<Completion[]> {
+  // If no command yet (completing the command name itself)
+  if (!command || command === partial) {
+    const lower = partial.toLowerCase();
+    const names = includeDefinitions ? definitions.cachedNames() : [];
+    const defined = names.filter((n) => n.startsWith(partial) && !COMMANDS.includes(n));
+    return asCompletions([...COMMANDS.filter((c) => c.startsWith(lower)), ...defined]);
+  }
+
+  if (partial.startsWith("-")) {
+    return flagCompletions(command, partial);
+  }
+
+  if (command === "unalias") {
+    if (!includeDefinitions) return [];
+    return asCompletions(definitions.cachedAliasNames().filter((n) => n.startsWith(partial)));
+  }
+
+  // Environment variable completion ($NAME)
+  if (partial.startsWith("$")) {
+    const names = [...Object.keys(state.env), ...BUILTIN_VARIABLES];
+    return asCompletions(names.map((n) => "$" + n).filter((v) => v.startsWith(partial)));
+  }
+
+  // Stored files: ~/DIR/NAME anywhere, bare names in ~/DIR, bare script names for run/write/rm
+  const storedDir = partial.match(/^~\/([^/]+)\//)?.[1];
+  const cwdDir = !isInsideTab() && state.path.length === 1 ? state.path[0] : "";
+  const fileCommand = command === "run" || command === "write" || command === "rm";
+  if ((storedDir && STORED_DIRS.has(storedDir)) || (STORED_DIRS.has(cwdDir) && (fileCommand || command === "cat"))) {
+    const dir = storedDir ?? cwdDir;
+    const prefix = storedDir ? `~/${dir}/` : "";
+    return asCompletions(STORED_DIRS.get(dir)!.cachedNames().map((n) => prefix + n).filter((n) => n.startsWith(partial)));
+  }
+  if (fileCommand) {
+    return asCompletions(scripts.cachedNames().filter((n) => n.startsWith(partial)));
+  }
+
+  // Path variable completion for cd
+  if (command === "cd" && partial.startsWith("%")) {
+    return asCompletions(["%here%"].filter((v) => v.startsWith(partial)));
+  }
+
+  // Browser-level paths: anything under ~, and relative paths for cd/ls outside a tab
+  if (partial.startsWith("~") || (!isInsideTab() && (command === "cd" || command === "ls"))) {
+    return await completeBrowserPath(partial, command === "cd");
+  }
+
+  if (partial.startsWith("@") && isInsideTab() && (command === "cd" || NODE_COMMANDS.has(command))) {
+    return completeIndexPath(partial, command === "cd");
+  }
+
+  if (!NODE_COMMANDS.has(command)) return [];
+  try {
+    return completeElementPath(partial, command === "cd");
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Complete the last word of a whole command line, the way Tab does in the
+ * side panel: the command is the first word of the last statement or pipe
+ * stage. Used for MCP clients, which send the line as typed so far; alias and
+ * function names are only offered when the client may run them.
+ */
+async function completeLine(line: string, includeDefinitions: boolean): Promise<Completion[]> {
+  const start = Math.max(line.lastIndexOf("|"), line.lastIndexOf(";")) + 1;
+  const words = line.slice(start).trimStart().split(/\s+/);
+  while (words.length > 1 && SCRIPT_KEYWORDS.has(words[0])) words.shift();
+  const partial = words[words.length - 1];
+  return await getCompletions(partial, words.length <= 1 ? partial : words[0], includeDefinitions);
+}
+
+/** Flags listed in a command's --help text, with their descriptions as hints. */
+function flagCompletions(command: string, partial: string): Completion[] {
+  const flags = new Map<string, string>([["--help", "Show usage for this command"]]);
+  for (const line of splitLines(stripAnsi(COMMAND_HELP[command] ?? ""))) {
+    // "  -l, --long      Long format" or "  -n N            Limit output"
+    const m = line.match(/^\s+(-{1,2}[A-Za-z][\w-]*)(?:,\s*(-{1,2}[A-Za-z][\w-]*))?(?:\s+[A-Z]+)?\s{2,}(\S.*)$/);
+    if (!m) continue;
+    for (const flag of [m[1], m[2]]) {
+      if (flag && !flags.has(flag)) flags.set(flag, m[3]);
+    }
+  }
+  return [...flags]
+    .filter(([flag]) => flag.startsWith(partial))
+    .map(([value, hint]) => ({ value, hint }));
+}
+
+/**
+ * Complete a browser-level path (~/tabs/12<Tab>, windows/3/<Tab>). Tab IDs
+ * also match on their title, so cd ~/tabs/git<Tab> offers GitHub tabs by ID.
+ */
+async function completeBrowserPath(partial: string, directoriesOnly: boolean): Promise<Completion[]> {
+  if (partial === "~") return [{ value: "~/" }];
+  const slash = partial.lastIndexOf("/");
+  const dirPart = partial.slice(0, slash + 1);   // Kept as typed, e.g. "~/tabs/"
+  const leaf = partial.slice(slash + 1);
+
+  const typed = partial.startsWith("~/") ? dirPart.slice(2).split("/") : [...state.path, ...dirPart.split("/")];
+  const path: string[] = [];
+  for (const segment of typed.filter(Boolean)) {
+    if (segment === "..") {
+      path.pop();
+    } else if (segment !== ".") {
+      path.push(segment);
     }
-    state.axNodeIds = root ? [root.nodeId] : [];
-    return `\x1b[33m(page changed \u2014 tree refreshed, ${nodeMap.size} nodes, path reset to tab root)\x1b[0m\r\n`;
   }
 
-  return `\x1b[90m(tree auto-refreshed, ${nodeMap.size} nodes)\x1b[0m\r\n`;
+  const byTitle = leaf !== "" && !/^\d+$/.test(leaf);
+  return (await browserEntries(path))
+    .filter((c) => c.value.toLowerCase().startsWith(leaf.toLowerCase()) || (byTitle && c.hint?.toLowerCase().includes(leaf.toLowerCase())))
+    .filter((c) => !directoriesOnly || c.value.endsWith("/"))
+    .map((c) => ({ value: dirPart + c.value, hint: c.hint }));
 }
 
-// ---- Tab Completion ----
-
-const COMMANDS = [
-  "help", "tabs", "windows", "here", "refresh", "ls", "cd", "pwd", "cat",
-  "click", "focus", "type", "grep", "find", "whoami", "env", "export",
-  "tree", "read", "debug", "clear", "navigate", "goto", "open", "connect", "disconnect", "text",
-  "submit", "extract_links", "extract_table",
-];
+/** Entries of a browser-level directory: tabs and windows by ID (titles as hints), stored files by name. */
+async function browserEntries(path: string[]): Promise<Completion[]> {
+  if (path.length === 0) return asCompletions(["tabs/", "windows/", "scripts/", "tmp/"]);
 
-function getCompletions(partial: string, command: string): string[] {
-  // If no command yet (completing the command name itself)
-  if (!command || command === partial) {
-    const lower = partial.toLowerCase();
-    return COMMANDS.filter((c) => c.startsWith(lower));
-  }
+  const store = STORED_DIRS.get(path[0]);
+  if (store) return path.length === 1 ? asCompletions(store.cachedNames()) : [];
 
-  // Path variable completion for cd
-  if (command === "cd" && partial.startsWith("%")) {
-    return ["%here%"].filter((v) => v.startsWith(partial));
+  const tabEntry = (tab: chrome.tabs.Tab): Completion => ({ value: `${tab.id}/`, hint: tab.title || tab.url || "" });
+  if (path[0] === "tabs" && path.length === 1) {
+    const tabs = await chrome.tabs.query({});
+    return tabs.filter((t) => t.id !== undefined).map(tabEntry);
   }
-
-  // For cd at browser level, complete browser-level names
-  if (command === "cd" && !isInsideTab()) {
-    const lower = partial.toLowerCase();
-    if (state.path.length === 0) {
-      // At ~: complete "tabs" or "windows"
-      return ["tabs/", "windows/"].filter((c) => c.toLowerCase().startsWith(lower));
+  if (path[0] === "windows" && path.length <= 2) {
+    const windows = await chrome.windows.getAll({ populate: true });
+    if (path.length === 1) {
+      return windows.map((w) => ({ value: `${w.id}/`, hint: `${w.tabs?.length ?? 0} tabs` }));
     }
-    // At ~/tabs or ~/windows/<id>: could complete tab IDs but too dynamic
-    return [];
+    const win = windows.find((w) => String(w.id) === path[1]);
+    return (win?.tabs ?? []).filter((t) => t.id !== undefined).map(tabEntry);
   }
+  return [];
+}
 
-  // For commands that take node names, complete against current directory children
-  const nodeCommands = new Set(["cd", "cat", "click", "focus", "ls", "grep", "find", "text"]);
-  if (!nodeCommands.has(command)) return [];
-
-  try {
-    if (!state.activeTabId || nodeMap.size === 0 || !isInsideTab()) return [];
-    const currentId = getCurrentNodeId();
-    const children = getChildVFSNodes(currentId, nodeMap);
+/**
+ * Complete an @ path: index directories (and @dom / @ax for cd), then the
+ * entries of an index directory (@links/ho<Tab>).
+ */
+function completeIndexPath(partial: string, directoriesOnly: boolean): Completion[] {
+  const slash = partial.indexOf("/");
+  if (slash < 0) {
+    const mounts = [...INDEX_MOUNTS.keys()].map((m) => `${m}/`);
+    return asCompletions([...(directoriesOnly ? [`${DOM_MOUNT}/`, AX_MOUNT] : []), ...mounts].filter((v) => v.startsWith(partial)));
+  }
+  const mount = partial.slice(0, slash);
+  if (!INDEX_MOUNTS.has(mount) || nodeMap.size === 0 || partial.indexOf("/", slash + 1) >= 0) return [];
+  const lower = partial.slice(slash + 1).toLowerCase();
+  return tabIndex(mount)
+    .filter((e) => e.name.toLowerCase().startsWith(lower))
+    .filter((e) => !directoriesOnly || e.chain[e.chain.length - 1].isDirectory)
+    .map((e) => ({ value: `${mount}/${e.name}${e.chain[e.chain.length - 1].isDirectory ? "/" : ""}` }));
+}
 
-    const lower = partial.toLowerCase();
-    let matches = children.filter((c) => c.name.toLowerCase().startsWith(lower));
+/** Complete an element path from the current node (main/art<Tab>, ../foot<Tab>). */
+function completeElementPath(partial: string, directoriesOnly: boolean): Completion[] {
+  if (!state.activeTabId || nodeMap.size === 0 || !isInsideTab() || isInDomView()) return [];
+  const slash = partial.lastIndexOf("/");
+  const dirPart = partial.slice(0, slash + 1);
+  const lower = partial.slice(slash + 1).toLowerCase();
 
-    // For 'cd', only show directories
-    if (command === "cd") {
-      matches = matches.filter((c) => c.isDirectory);
+  // Walk the directories typed so far; ".." climbs back up the cwd
+  const stack = [...state.axNodeIds];
+  for (const segment of dirPart.split("/").filter(Boolean)) {
+    if (segment === "..") {
+      if (stack.length <= 1) return [];
+      stack.pop();
+    } else if (segment !== ".") {
+      const child = findChildByName(stack[stack.length - 1], segment, nodeMap);
+      if (!child) return [];
+      stack.push(child.axNodeId);
     }
+  }
 
-    return matches.map((m) => m.name + (m.isDirectory ? "/" : ""));
-  } catch {
-    return [];
+  const completions = getChildVFSNodes(stack[stack.length - 1], nodeMap)
+    .filter((c) => c.name.toLowerCase().startsWith(lower))
+    .filter((c) => !directoriesOnly || c.isDirectory)
+    .map((c) => ({ value: dirPart + c.name + (c.isDirectory ? "/" : "") }));
+  // The element's own pseudo files (btn/.b<Tab>)
+  if (!directoriesOnly && lower.startsWith(".")) {
+    for (const file of PSEUDO_FILES.keys()) {
+      if (file.startsWith(lower)) completions.push({ value: dirPart + file });
+    }
   }
+  return completions;
 }
 
 // ---- ls ----
 
-async function handleLs(args: string[]): Promise<string> {
+async function handleLs(args: string[]): Promise<string | CommandResult> {
   const pa = parseArgs(args);
 
   // Check for explicit ~ path argument
@@ -1279,7 +2883,24 @@ async function handleLs(args: string[]): Promise<string> {
   // DOM-level listing
   ensureInsideTab();
   const refreshMsg = await ensureFreshTree();
+  const indexMount = pa.positional.length === 1 ? pa.positional[0].replace(/\/$/, "") : "";
+  if (INDEX_MOUNTS.has(indexMount)) return refreshMsg + listIndex(indexMount, pa);
+  if (isInDomView()) return refreshMsg + await listDomView(pa);
+
+  // Path arguments: list each matched directory (or show each matched element)
+  if (pa.positional.length > 0) {
+    const result = await runOnTargets("ls", pa.positional, async (target, multiple) => {
+      if (!target.node.isDirectory) return formatColoredName({ ...target.node, name: target.path });
+      const listing = await listElementChildren(target.node.axNodeId, pa);
+      return multiple ? `\x1b[1;34m${target.path}/\x1b[0m:\r\n${listing}` : listing;
+    });
+    return typeof result === "string" ? refreshMsg + result : { ...result, stdout: refreshMsg + result.stdout };
+  }
+  return refreshMsg + await listElementChildren(getCurrentNodeId(), pa);
+}
 
+/** The ls listing of one element's children, honouring the ls options in `pa`. */
+async function listElementChildren(parentId: string, pa: ParsedArgs): Promise<string> {
   const longFormat = pa.flags.has("-l");
   const showMeta = pa.flags.has("--meta");
   const showText = pa.flags.has("--text");
@@ -1288,10 +2909,11 @@ async function handleLs(args: string[]): Promise<string> {
   const countOnly = pa.flags.has("--count");
   const limit = pa.named["-n"] ? parseInt(pa.named["-n"], 10) : 0;
   const offset = pa.named["--offset"] ? parseInt(pa.named["--offset"], 10) : 0;
-  const typeFilter = pa.named["--type"]?.toLowerCase();
+  const filter = nodeFilterFromArgs("ls", pa);
+  const visibilityFilter = visibilityFilterFromArgs("ls", pa);
+  const showShadow = pa.flags.has("--shadow");
 
-  const currentId = getCurrentNodeId();
-  let children = getChildVFSNodes(currentId, nodeMap);
+  let children = getChildVFSNodes(parentId, nodeMap);
 
   // Recursive: also include children of directory children
   if (recursive) {
@@ -1312,18 +2934,21 @@ async function handleLs(args: string[]): Promise<string> {
   const beforeName = pa.named["--before"];
   if (afterName) {
     const idx = children.findIndex((c) => c.name === afterName);
-    if (idx === -1) return `\x1b[31mls: --after ${afterName}: No such child element\x1b[0m`;
+    if (idx === -1) throw new CommandError(`ls: --after ${afterName}: No such child element`);
     children = children.slice(idx + 1);
   }
   if (beforeName) {
     const idx = children.findIndex((c) => c.name === beforeName);
-    if (idx === -1) return `\x1b[31mls: --before ${beforeName}: No such child element\x1b[0m`;
+    if (idx === -1) throw new CommandError(`ls: --before ${beforeName}: No such child element`);
     children = children.slice(0, idx);
   }
 
-  // Type filter
-  if (typeFilter) {
-    children = children.filter((c) => c.role.toLowerCase() === typeFilter);
+  // Type, state and level filters
+  if (filter) {
+    children = children.filter(filter);
+  }
+  if (visibilityFilter) {
+    children = await filterByVisibility(children, (c) => c, visibilityFilter);
   }
 
   // Count only
@@ -1347,14 +2972,14 @@ async function handleLs(args: string[]): Promise<string> {
     children = children.slice(0, limit);
   }
 
-  const lines: string[] = [];
+  const visibility = longFormat ? await visibilityOfItems(children, (c) => c) : new Map<VFSNode, Visibility>();
 
-  for (const child of children) {
+  const renderChild = async (child: VFSNode): Promise<string> => {
     const tp = typePrefix(child);
     let meta = "";
     if (showMeta && child.backendDOMNodeId) {
       try {
-        const props = await cdp.getElementProperties(child.backendDOMNodeId);
+        const props = await cdp.getElementProperties(child.backendDOMNodeId, child.sessionId);
         const parts: string[] = [];
         if (props.href) parts.push(`href=${props.href}`);
         if (props.src) parts.push(`src=${props.src}`);
@@ -1366,22 +2991,50 @@ async function handleLs(args: string[]): Promise<string> {
     let textPreview = "";
     if (showText && child.backendDOMNodeId) {
       try {
-        const innerText = await cdp.getInnerText(child.backendDOMNodeId);
+        const innerText = await cdp.getInnerText(child.backendDOMNodeId, child.sessionId);
         textPreview = formatTextPreview(innerText, textLen);
       } catch { /* stale node */ }
     }
+    let shadowMark = "";
+    if (showShadow && child.backendDOMNodeId) {
+      const root = cdp.shadowRootOf(child.backendDOMNodeId, child.sessionId);
+      if (root && root.mode !== "user-agent") shadowMark = `  \x1b[90m[shadow:${root.mode}]\x1b[0m`;
+    }
     if (longFormat || showMeta || showText) {
       const role = child.role.padEnd(14);
       const name = child.isDirectory
         ? `\x1b[1;34m${child.name}/\x1b[0m`
         : formatColoredName(child);
-      lines.push(`${tp} ${role} ${name}${textPreview}${meta}`);
-    } else {
-      if (child.isDirectory) {
-        lines.push(`\x1b[1;34m${child.name}/\x1b[0m`);
-      } else {
-        lines.push(formatColoredName(child));
+      return `${tp} ${role} ${name}${formatStates(child, visibility.get(child))}${textPreview}${meta}${shadowMark}`;
+    }
+    return (child.isDirectory ? `\x1b[1;34m${child.name}/\x1b[0m` : formatColoredName(child)) + shadowMark;
+  };
+
+  const lines: string[] = [];
+
+  if (showShadow) {
+    // Children rendered inside a shadow tree go under a #shadow-root/ entry
+    // for their host; user-agent roots (built-in controls) aren't shown
+    const shadowHost = (node: { backendDOMNodeId?: number; sessionId?: string } | undefined): number | null => {
+      const host = node?.backendDOMNodeId !== undefined ? cdp.shadowHostOf(node.backendDOMNodeId, node.sessionId) : null;
+      return host !== null && cdp.shadowRootOf(host)?.mode !== "user-agent" ? host : null;
+    };
+    const outerHost = shadowHost(nodeMap.get(parentId));
+    let currentHost = outerHost;
+    for (const child of children) {
+      const host = child.backendDOMNodeId ? shadowHost(child) : currentHost;
+      if (host !== currentHost && host !== null && host !== outerHost) {
+        const root = cdp.shadowRootOf(host)!;
+        const label = `\x1b[1;34m#shadow-root/\x1b[0m  \x1b[90m${root.mode} <${root.hostTag}>\x1b[0m`;
+        lines.push(longFormat || showMeta || showText ? `[d] ${"shadow-root".padEnd(14)} ${label}` : label);
       }
+      currentHost = host;
+      const line = await renderChild(child);
+      lines.push(host !== null && host !== outerHost ? `    ${line}` : line);
+    }
+  } else {
+    for (const child of children) {
+      lines.push(await renderChild(child));
     }
   }
 
@@ -1392,7 +3045,34 @@ async function handleLs(args: string[]): Promise<string> {
     lines.push(`\x1b[90m... ${offset + 1}-${offset + children.length} of ${total}\x1b[0m`);
   }
 
-  return refreshMsg + lines.join("\r\n");
+  return lines.join("\r\n");
+}
+
+/**
+ * ls @links: an index directory's entries with the real path each one links
+ * to; @headings is indented as an outline, by heading level. Takes -n,
+ * --offset and --count like a directory listing.
+ */
+function listIndex(mount: string, pa: ParsedArgs): string {
+  const limit = pa.named["-n"] ? parseInt(pa.named["-n"], 10) : 0;
+  const offset = pa.named["--offset"] ? parseInt(pa.named["--offset"], 10) : 0;
+  const entries = tabIndex(mount);
+
+  if (pa.flags.has("--count")) return `${entries.length} total`;
+  if (entries.length === 0) return "\x1b[90m(empty directory)\x1b[0m";
+
+  const shown = entries.slice(offset, limit > 0 ? offset + limit : undefined);
+  const lines = shown.map((entry) => {
+    const node = entry.chain[entry.chain.length - 1];
+    const name = node.isDirectory ? `\x1b[1;34m${entry.name}/\x1b[0m` : formatColoredName({ ...node, name: entry.name });
+    return `${"  ".repeat(entry.level - 1)}${name} \x1b[90m-> ${indexEntryPath(entry)}\x1b[0m`;
+  });
+  if (limit > 0 && offset + limit < entries.length) {
+    lines.push(`\x1b[90m... ${offset + 1}-${offset + shown.length} of ${entries.length} (--offset ${offset + limit} for next page)\x1b[0m`);
+  } else if (offset > 0) {
+    lines.push(`\x1b[90m... ${offset + 1}-${offset + shown.length} of ${entries.length}\x1b[0m`);
+  }
+  return lines.join("\r\n");
 }
 
 async function listBrowserLevel(browserPath: string[]): Promise<string> {
@@ -1401,9 +3081,13 @@ async function listBrowserLevel(browserPath: string[]): Promise<string> {
   if (browserPath.length === 0) {
     // Browser root: show windows/ and tabs/ directories
     const totalTabs = allWindows.reduce((sum, w) => sum + (w.tabs?.length ?? 0), 0);
+    const scriptCount = (await scripts.list()).length;
+    const scratchCount = (await scratch.list()).length;
     const lines = [
       `  \x1b[1;34mwindows/\x1b[0m       \x1b[90m(${allWindows.length} windows)\x1b[0m`,
       `  \x1b[1;34mtabs/\x1b[0m          \x1b[90m(${totalTabs} tabs)\x1b[0m`,
+      `  \x1b[1;34mscripts/\x1b[0m       \x1b[90m(${scriptCount} saved scripts)\x1b[0m`,
+      `  \x1b[1;34mtmp/\x1b[0m           \x1b[90m(${scratchCount} scratch files)\x1b[0m`,
     ];
     if (state.activeTabId) {
       try {
@@ -1415,6 +3099,10 @@ async function listBrowserLevel(browserPath: string[]): Promise<string> {
     return lines.join("\r\n");
   }
 
+  if (STORED_DIRS.has(browserPath[0])) {
+    return await listStoredFiles(browserPath[0], browserPath.slice(1));
+  }
+
   if (browserPath[0] === "tabs") {
     // Flat list of all tabs
     const lines: string[] = [
@@ -1468,7 +3156,7 @@ async function listBrowserLevel(browserPath: string[]): Promise<string> {
     // List tabs in a specific window
     const windowId = parseInt(browserPath[1], 10);
     const win = allWindows.find((w) => w.id === windowId);
-    if (!win) return `\x1b[31mWindow ${windowId} not found.\x1b[0m`;
+    if (!win) throw new CommandError(`Window ${windowId} not found.`);
 
     const lines: string[] = [
       `  \x1b[90mID     TITLE                                URL\x1b[0m`,
@@ -1485,7 +3173,7 @@ async function listBrowserLevel(browserPath: string[]): Promise<string> {
     return lines.join("\r\n");
   }
 
-  return `\x1b[31mInvalid browser path.\x1b[0m`;
+  throw new CommandError(`Invalid browser path.`);
 }
 
 // ---- tabs / windows shortcut commands ----
@@ -1498,6 +3186,17 @@ async function handleWindows(): Promise<string> {
   return await listBrowserLevel(["windows"]);
 }
 
+/**
+ * A node's states as compact flags after its name ("  [unchecked required]"),
+ * or "" if it has none. A visibility other than in-viewport leads the flags
+ * ("[offscreen]", "[hidden disabled]").
+ */
+function formatStates(node: VFSNode, visibility?: Visibility): string {
+  const words = stateWords(node.states);
+  if (visibility && visibility !== "in-viewport") words.unshift(visibility);
+  return words.length > 0 ? `  \x1b[90m[${words.join(" ")}]\x1b[0m` : "";
+}
+
 function formatColoredName(node: VFSNode): string {
   switch (node.role) {
     case "button":
@@ -1531,7 +3230,12 @@ async function handleCd(args: string[]): Promise<string> {
   try {
     target = await expandPathVariable(target);
   } catch (err: any) {
-    return `\x1b[31m${err.message}\x1b[0m`;
+    throw new CommandError(`${err.message}`);
+  }
+
+  // cd @css:... / @xpath:... — jump to the first match, from the tab root
+  if (isSelectorPath(target)) {
+    return await cdToSelector(target);
   }
 
   // cd / or cd ~ or cd (empty) — go to browser root
@@ -1554,20 +3258,69 @@ async function handleCd(args: string[]): Promise<string> {
   return await navigateSegments(segments);
 }
 
+/** Make the first element a selector matches the current directory, with its path from the tab root. */
+async function cdToSelector(target: string): Promise<string> {
+  ensureInsideTab();
+  await ensureFreshTree();
+
+  const [chain] = await selectorChains("cd", target);
+  const node = chain[chain.length - 1];
+  if (!node.isDirectory) {
+    throw new CommandError(`cd: ${target}: Not a directory (type: [x] ${node.role})`);
+  }
+  const domStart = getDomStartIndex(state.path);
+  state.path = [...state.path.slice(0, domStart), ...chain.map((n) => n.name)];
+  state.axNodeIds = [state.axNodeIds[0], ...chain.map((n) => n.axNodeId)];
+  return "";
+}
+
+/** cd @tables/NAME: make the element an index entry points to the current directory, at its real path. */
+async function cdToIndexEntry(mount: string, name: string | undefined): Promise<void> {
+  await ensureFreshTree();
+  if (!name) {
+    throw new CommandError(`cd: ${mount}: Is an index directory; cd into one of its entries (see 'ls ${mount}')`);
+  }
+  const entry = findIndexEntry(tabIndex(mount), name);
+  if (!entry) throw new CommandError(`cd: ${mount}/${name}: No such directory`);
+  const node = entry.chain[entry.chain.length - 1];
+  if (!node.isDirectory) {
+    throw new CommandError(`cd: ${mount}/${name}: Not a directory (type: [x] ${node.role})`);
+  }
+  const domStart = getDomStartIndex(state.path);
+  state.path = [...state.path.slice(0, domStart), ...entry.chain.map((n) => n.name)];
+  state.axNodeIds = [state.axNodeIds[0], ...entry.chain.map((n) => n.axNodeId)];
+  state.domNodeIds = [];
+}
+
 /**
  * Navigate through path segments from the current position.
  * Handles both browser-level and DOM-level navigation seamlessly.
  */
 async function navigateSegments(segments: string[]): Promise<string> {
-  for (const segment of segments) {
+  let entered = "";
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
     if (segment === ".") continue;
 
+    // @tables/NAME: the entry is a symlink, so land on the element's real path
+    if (INDEX_MOUNTS.has(segment) && getTabIdFromPath(state.path) !== null) {
+      await cdToIndexEntry(segment, segments[++i]);
+      continue;
+    }
+
     if (segment === "..") {
       if (state.path.length === 0) {
         // Already at browser root, can't go higher
         continue;
       }
 
+      // In the raw DOM view: pop one element; popping @dom itself lands on the tab root
+      if (isInDomView()) {
+        state.path.pop();
+        state.domNodeIds.pop();
+        continue;
+      }
+
       // Check if we're leaving a tab (popping from tab entry point)
       const tabId = getTabIdFromPath(state.path);
       const domStart = getDomStartIndex(state.path);
@@ -1589,16 +3342,18 @@ async function navigateSegments(segments: string[]): Promise<string> {
       continue;
     }
 
-    // Determine what level we're at to interpret the segment
+    // Determine what level we're at to interpret the segment; entering a
+    // tab is reported once the rest of the path (~/tabs/12/@dom/...) is walked
     const result = await navigateOneSegment(segment);
-    if (result) return result; // Error message
+    if (result) entered = result;
   }
-  return "";
+  return entered;
 }
 
 /**
  * Navigate a single segment from the current path position.
- * Returns an error string, or empty string on success.
+ * Throws a CommandError on failure; returns the tab summary when entering a
+ * tab, or empty string otherwise.
  */
 async function navigateOneSegment(segment: string): Promise<string> {
   const tabId = getTabIdFromPath(state.path);
@@ -1610,20 +3365,35 @@ async function navigateOneSegment(segment: string): Promise<string> {
       try {
         await cdpSwitchToTab(tabId);
       } catch (err: any) {
-        return `\x1b[31mFailed to attach to tab ${tabId}: ${err.message}\x1b[0m`;
+        throw new CommandError(`Failed to attach to tab ${tabId}: ${err.message}`);
       }
     }
 
     await ensureFreshTree();
 
+    if (segment === DOM_MOUNT) return await enterDomView();
+    if (segment === AX_MOUNT) return await leaveDomView();
+    if (isInDomView()) {
+      const entry = (await domChildEntries("cd", currentDomNodeId())).find((e) => e.name === segment);
+      if (!entry) {
+        throw new CommandError(`cd: ${segment}: No such directory`);
+      }
+      if (!entry.isDirectory) {
+        throw new CommandError(`cd: ${segment}: Not a directory (type: [-] ${entry.tag})`);
+      }
+      state.path.push(entry.name);
+      state.domNodeIds.push(entry.node.backendNodeId);
+      return "";
+    }
+
     const currentId = getCurrentNodeId();
     const match = findChildByName(currentId, segment, nodeMap);
 
     if (!match) {
-      return `\x1b[31mcd: ${segment}: No such directory\x1b[0m`;
+      throw new CommandError(`cd: ${segment}: No such directory`);
     }
     if (!match.isDirectory) {
-      return `\x1b[31mcd: ${segment}: Not a directory (type: [x] ${match.role})\x1b[0m`;
+      throw new CommandError(`cd: ${segment}: Not a directory (type: [x] ${match.role})`);
     }
 
     state.path.push(match.name);
@@ -1635,12 +3405,16 @@ async function navigateOneSegment(segment: string): Promise<string> {
   const depth = state.path.length;
 
   if (depth === 0) {
-    // At browser root (~): only "tabs" and "windows" are valid
-    if (segment === "tabs" || segment === "windows") {
+    // At browser root (~): only "tabs", "windows", "scripts" and "tmp" are valid
+    if (segment === "tabs" || segment === "windows" || STORED_DIRS.has(segment)) {
       state.path.push(segment);
       return "";
     }
-    return `\x1b[31mcd: ${segment}: No such directory (try 'tabs' or 'windows')\x1b[0m`;
+    throw new CommandError(`cd: ${segment}: No such directory (try 'tabs', 'windows', 'scripts' or 'tmp')`);
+  }
+
+  if (STORED_DIRS.has(state.path[0])) {
+    throw new CommandError(`cd: ${segment}: Not a directory (use 'cat ${segment}' or 'run ${segment}')`);
   }
 
   if (state.path[0] === "tabs" && depth === 1) {
@@ -1652,15 +3426,15 @@ async function navigateOneSegment(segment: string): Promise<string> {
     // At ~/windows/ — segment is a window ID
     const windowId = parseInt(segment, 10);
     if (isNaN(windowId)) {
-      return `\x1b[31mcd: ${segment}: Invalid window ID\x1b[0m`;
+      throw new CommandError(`cd: ${segment}: Invalid window ID`);
     }
     try {
       const win = await chrome.windows.get(windowId, { populate: true });
-      if (!win) return `\x1b[31mcd: ${segment}: Window not found\x1b[0m`;
+      if (!win) throw new CommandError(`cd: ${segment}: Window not found`);
       state.path.push(segment);
       return "";
     } catch {
-      return `\x1b[31mcd: ${segment}: Window not found\x1b[0m`;
+      throw new CommandError(`cd: ${segment}: Window not found`);
     }
   }
 
@@ -1669,7 +3443,7 @@ async function navigateOneSegment(segment: string): Promise<string> {
     return await enterTab(segment);
   }
 
-  return `\x1b[31mcd: ${segment}: Cannot navigate deeper\x1b[0m`;
+  throw new CommandError(`cd: ${segment}: Cannot navigate deeper`);
 }
 
 /**
@@ -1679,7 +3453,7 @@ async function navigateOneSegment(segment: string): Promise<string> {
 async function enterTab(target: string): Promise<string> {
   try {
     const tab = await resolveTabTarget(target);
-    if (!tab?.id) return `\x1b[31mcd: Tab has no ID.\x1b[0m`;
+    if (!tab?.id) throw new Error("Tab has no ID.");
 
     // Push tab ID onto path
     state.path.push(String(tab.id));
@@ -1702,8 +3476,332 @@ async function enterTab(target: string): Promise<string> {
     lines.push("");
     return lines.join("\r\n");
   } catch (err: any) {
-    return `\x1b[31mcd: ${err.message}\x1b[0m`;
+    throw new CommandError(`cd: ${err.message}`);
+  }
+}
+
+// ---- @dom (raw DOM view) ----
+
+// Path segments under a tab that switch between the two views of its page
+const DOM_MOUNT = "@dom";
+const AX_MOUNT = "@ax";
+
+/** Is the current directory in the raw DOM view (~/tabs/<id>/@dom/...)? */
+function isInDomView(): boolean {
+  const domStart = getDomStartIndex(state.path);
+  return domStart >= 0 && state.path[domStart] === DOM_MOUNT && state.domNodeIds.length > 0;
+}
+
+/** Backend node ID of the current directory in the raw DOM view. */
+function currentDomNodeId(): number {
+  return state.domNodeIds[state.domNodeIds.length - 1];
+}
+
+/** Entries under a DOM node; a node that has left the page is an error. */
+async function domChildEntries(cmd: string, backendId: number): Promise<DOMEntry[]> {
+  return getDOMChildEntries(await describeDomNode(cmd, backendId, 2));
+}
+
+async function describeDomNode(cmd: string, backendId: number, depth: number): Promise<DOMNode> {
+  try {
+    return await cdp.describeDOMNode(backendId, depth);
+  } catch {
+    throw new CommandError(`${cmd}: element is no longer in the page (try 'refresh')`);
+  }
+}
+
+/** A DOM node named by a path argument in the raw DOM view, with its name and whether it holds elements. */
+interface DomTarget {
+  name: string;
+  backendId: number;
+  isDirectory: boolean;
+  pseudoFile?: string;
+}
+
+/** Resolve a path relative to the current DOM directory (".." climbs, up to the document). */
+async function resolveDomPath(cmd: string, target: string): Promise<DomTarget> {
+  const domStart = getDomStartIndex(state.path);
+  const names = state.path.slice(domStart);
+  const ids = [...state.domNodeIds];
+  let isDirectory = true;
+  for (const segment of target.split("/").filter(Boolean)) {
+    if (segment === ".") continue;
+    if (segment === "..") {
+      if (ids.length <= 1) throw new CommandError(`${cmd}: ${target}: No such file or directory`);
+      ids.pop();
+      names.pop();
+      isDirectory = true;
+      continue;
+    }
+    if (!isDirectory) throw new CommandError(`${cmd}: ${target}: Not a directory`);
+    const entry = (await domChildEntries(cmd, ids[ids.length - 1])).find((e) => e.name === segment);
+    if (!entry) throw new CommandError(`${cmd}: ${target}: No such file or directory`);
+    ids.push(entry.node.backendNodeId);
+    names.push(entry.name);
+    isDirectory = entry.isDirectory;
+  }
+  return { name: names[names.length - 1], backendId: ids[ids.length - 1], isDirectory };
+}
+
+/**
+ * cd @dom: switch to the DOM tree, at the element behind the current AX
+ * directory (or the document, from the tab root or an AX-only node). The
+ * DOM path to it is found by walking the document.
+ */
+async function enterDomView(): Promise<string> {
+  if (isInDomView()) return "";
+
+  const domStart = getDomStartIndex(state.path);
+  const axNode = nodeMap.get(getCurrentNodeId());
+  const targetId = state.axNodeIds.length > 1 && !axNode?.sessionId ? axNode?.backendDOMNodeId : undefined;
+
+  const document = await cdp.getDocumentNode();
+  let chain: DOMEntry[] = [];
+  if (targetId !== undefined) {
+    chain = findDomChain(await describeDomNode("cd", document.backendNodeId, -1), targetId) ?? [];
+    // Land on the nearest element that is a directory
+    while (chain.length > 0 && !chain[chain.length - 1].isDirectory) chain.pop();
+  }
+
+  state.path = [...state.path.slice(0, domStart), DOM_MOUNT, ...chain.map((e) => e.name)];
+  state.axNodeIds = state.axNodeIds.slice(0, 1);
+  state.domNodeIds = [document.backendNodeId, ...chain.map((e) => e.node.backendNodeId)];
+  return "";
+}
+
+/** Entries leading from `root` down to the node with the given backend ID, or null if it isn't below root. */
+function findDomChain(root: DOMNode, backendId: number): DOMEntry[] | null {
+  for (const entry of getDOMChildEntries(root)) {
+    if (entry.node.backendNodeId === backendId) return [entry];
+    const rest = findDomChain(entry.node, backendId);
+    if (rest) return [entry, ...rest];
+  }
+  return null;
+}
+
+/**
+ * cd @ax: back to the accessibility view, at the AX directory of the current
+ * DOM element. Elements the AX tree leaves out map to their nearest ancestor
+ * that is in it, which is reported.
+ */
+async function leaveDomView(): Promise<string> {
+  if (!isInDomView()) return "";
+
+  const domStart = getDomStartIndex(state.path);
+  const domNames = state.path.slice(domStart + 1);
+  let chain: VFSNode[] = [];
+  let depth = state.domNodeIds.length - 1;
+  for (; depth > 0; depth--) {
+    const located = locateByBackendId(state.domNodeIds[depth], nodeMap);
+    if (located && located.length > 0) {
+      chain = located;
+      break;
+    }
+  }
+  const exact = depth === state.domNodeIds.length - 1 && chain[chain.length - 1]?.isDirectory !== false;
+  while (chain.length > 0 && !chain[chain.length - 1].isDirectory) chain.pop();
+
+  state.path = [...state.path.slice(0, domStart), ...chain.map((n) => n.name)];
+  state.axNodeIds = [state.axNodeIds[0], ...chain.map((n) => n.axNodeId)];
+  state.domNodeIds = [];
+  if (exact || domNames.length === 0) return "";
+  const where = chain.length > 0 ? chain.map((n) => n.name).join("/") : "the tab root";
+  return `\x1b[90m(${domNames[domNames.length - 1]} has no accessibility directory; now at ${where})\x1b[0m`;
+}
+
+/** One ls line for a DOM entry. */
+function formatDomEntry(entry: DOMEntry, longFormat: boolean, extra = ""): string {
+  const name = entry.isDirectory ? `\x1b[1;34m${entry.name}/\x1b[0m` : entry.name;
+  if (!longFormat) return name + extra;
+  return `${entry.isDirectory ? "[d]" : "[-]"} ${entry.tag.padEnd(14)} ${name}${extra}`;
+}
+
+/** An element's attributes as an inline `key=value` summary (class is in its name already). */
+function domAttributeSummary(node: DOMNode): string {
+  const parts = domAttributes(node)
+    .filter(([name]) => name !== "class")
+    .map(([name, value]) => `${name}=${value.length > 60 ? value.slice(0, 60) + "..." : value}`);
+  return parts.length > 0 ? `  \x1b[90m${parts.join(" ")}\x1b[0m` : "";
+}
+
+/** ls in the raw DOM view: entries of the current (or named) DOM directory. */
+async function listDomView(pa: ParsedArgs): Promise<string> {
+  const longFormat = pa.flags.has("-l");
+  const showMeta = pa.flags.has("--meta");
+  const showText = pa.flags.has("--text");
+  const textLen = pa.named["--textlen"] ? parseInt(pa.named["--textlen"], 10) : 80;
+  const limit = pa.named["-n"] ? parseInt(pa.named["-n"], 10) : 0;
+  const offset = pa.named["--offset"] ? parseInt(pa.named["--offset"], 10) : 0;
+  const typeFilter = pa.named["--type"]?.toLowerCase();
+  const visibilityFilter = visibilityFilterFromArgs("ls", pa);
+
+  const target = await resolveDomPath("ls", pa.positional[0] ?? ".");
+  if (!target.isDirectory) return target.name;
+
+  const backing = (e: DOMEntry) => ({ backendDOMNodeId: e.node.backendNodeId });
+  let entries = await domChildEntries("ls", target.backendId);
+  if (typeFilter) entries = entries.filter((e) => e.tag === typeFilter);
+  if (visibilityFilter) entries = await filterByVisibility(entries, backing, visibilityFilter);
+  if (pa.flags.has("--count")) {
+    const dirs = entries.filter((e) => e.isDirectory).length;
+    return `${entries.length} total (\x1b[1;34m${dirs} [d]\x1b[0m, ${entries.length - dirs} [-])`;
+  }
+  if (entries.length === 0) return "\x1b[90m(empty directory)\x1b[0m";
+
+  const total = entries.length;
+  if (offset > 0) entries = entries.slice(offset);
+  if (limit > 0) entries = entries.slice(0, limit);
+
+  const visibility = longFormat ? await visibilityOfItems(entries, backing) : new Map<DOMEntry, Visibility>();
+  const lines: string[] = [];
+  for (const entry of entries) {
+    let textPreview = "";
+    if (showText && !entry.tag.startsWith("#")) {
+      try {
+        textPreview = formatTextPreview(await cdp.getTextContent(entry.node.backendNodeId), textLen);
+      } catch { /* stale node */ }
+    }
+    const meta = showMeta ? domAttributeSummary(entry.node) : "";
+    const v = visibility.get(entry);
+    const flag = v && v !== "in-viewport" ? `  \x1b[90m[${v}]\x1b[0m` : "";
+    lines.push(formatDomEntry(entry, longFormat || showMeta || showText, flag + textPreview + meta));
+  }
+  if (limit > 0 && offset + limit < total) {
+    lines.push(`\x1b[90m... ${offset + 1}-${offset + entries.length} of ${total} (--offset ${offset + limit} for next page)\x1b[0m`);
+  }
+  return lines.join("\r\n");
+}
+
+/**
+ * Run `render` for each DOM path argument, like runOnTargets does for AX
+ * paths (without wildcards): outputs separated by blank lines, paths that
+ * don't resolve reported on stderr with status 1. With `pseudoFiles`, a path
+ * ending in a pseudo file names that file of the element.
+ */
+async function runOnDomTargets(
+  cmd: string,
+  targets: string[],
+  render: (target: DomTarget, multiple: boolean) => Promise<string>,
+  pseudoFiles = false,
+): Promise<string | CommandResult> {
+  const outputs: string[] = [];
+  const errors: string[] = [];
+  for (const path of targets) {
+    const pseudo = pseudoFiles ? splitPseudoPath(path) : null;
+    try {
+      const target = await resolveDomPath(cmd, pseudo ? pseudo.element : path);
+      outputs.push(await render(pseudo ? { ...target, name: path, pseudoFile: pseudo.file } : target, targets.length > 1));
+    } catch (err: any) {
+      if (!(err instanceof CommandError)) throw err;
+      errors.push(err.message);
+    }
+  }
+  const stdout = outputs.filter(Boolean).join("\r\n\r\n");
+  if (errors.length === 0) return stdout;
+  return { stdout, stderr: `\x1b[31m${errors.join("\r\n")}\x1b[0m`, status: 1 };
+}
+
+/** cat in the raw DOM view: tag, attributes, where the element is in the AX view, text and markup. */
+async function catDomNode(target: DomTarget): Promise<string> {
+  const node = await describeDomNode("cat", target.backendId, -1);
+  const lines: string[] = [];
+  lines.push(`\x1b[1;36m--- ${target.name} ---\x1b[0m`);
+  lines.push(`  \x1b[33mTag:\x1b[0m   ${node.nodeType === 1 ? `<${node.localName}>` : node.nodeName}`);
+  lines.push(`  \x1b[33mDOM:\x1b[0m   backend#${target.backendId}`);
+
+  const chain = locateByBackendId(target.backendId, nodeMap);
+  lines.push(`  \x1b[33mAX:\x1b[0m    ${chain && chain.length > 0 ? chain.map((n) => n.name).join("/") : "\x1b[90m(not in the accessibility tree)\x1b[0m"}`);
+
+  const attributes = domAttributes(node);
+  if (attributes.length > 0) {
+    lines.push(`  \x1b[33mAttributes:\x1b[0m`);
+    for (const [name, value] of attributes) {
+      lines.push(`    ${name}=${JSON.stringify(value.length > 200 ? value.slice(0, 200) + "..." : value)}`);
+    }
+  }
+  lines.push(`  \x1b[33mChildren:\x1b[0m ${getDOMChildEntries(node).length}`);
+
+  const text = domTextContent(node).trim();
+  if (text) {
+    lines.push(`  \x1b[33mText:\x1b[0m`);
+    lines.push(`  ${text.slice(0, 500)}`);
+    if (text.length > 500) lines.push(`  \x1b[90m... (${text.length} chars total)\x1b[0m`);
+  }
+
+  if (node.nodeType === 1) {
+    try {
+      const html = await cdp.getOuterHTML(target.backendId);
+      lines.push(`  \x1b[33mHTML:\x1b[0m`);
+      lines.push(`  \x1b[90m${html.length > 300 ? html.slice(0, 300) + "..." : html}\x1b[0m`);
+    } catch {
+      // Element may be stale
+    }
+  }
+  return lines.join("\r\n");
+}
+
+/** Every entry below a DOM node (fetched in full), with the path leading to it. */
+function collectDomEntries(node: DOMNode, pathPrefix: string, out: Array<{ path: string; entry: DOMEntry }>): void {
+  for (const entry of getDOMChildEntries(node)) {
+    out.push({ path: pathPrefix, entry });
+    collectDomEntries(entry.node, pathPrefix + entry.name + "/", out);
+  }
+}
+
+/** Does a DOM entry match a grep/find pattern: by name or tag, or (with --content) by its text? */
+function domEntryMatches(entry: DOMEntry, matcher: Matcher, contentMatch: boolean): boolean {
+  const hit = matcher.found(entry.name) || matcher.found(entry.tag) ||
+    (contentMatch && matcher.found(domTextContent(entry.node)));
+  return hit !== matcher.invert;
+}
+
+/** grep in the raw DOM view: children (or with -r all descendants) whose name, tag or text matches. */
+async function grepDomView(pa: ParsedArgs, matcher: Matcher, pattern: string): Promise<string | CommandResult> {
+  const limit = pa.named["-n"] ? parseInt(pa.named["-n"], 10) : 0;
+  const node = await describeDomNode("grep", currentDomNodeId(), pa.flags.has("-r") || pa.flags.has("--content") ? -1 : 2);
+  const candidates: Array<{ path: string; entry: DOMEntry }> = [];
+  if (pa.flags.has("-r")) {
+    collectDomEntries(node, "", candidates);
+  } else {
+    for (const entry of getDOMChildEntries(node)) candidates.push({ path: "", entry });
+  }
+
+  let matches = candidates.filter((c) => domEntryMatches(c.entry, matcher, pa.flags.has("--content")));
+  if (limit > 0) matches = matches.slice(0, limit);
+  if (pa.flags.has("-c")) return countResult(matches.length);
+  if (matches.length === 0) return noMatchResult(`No matches for '${pattern}'`);
+  return matches
+    .map((m) => `${m.entry.isDirectory ? "[d]" : "[-]"} \x1b[90m${m.path}\x1b[0m${formatDomEntry(m.entry, false)} \x1b[90m(${m.entry.tag})\x1b[0m`)
+    .join("\r\n");
+}
+
+/** find in the raw DOM view: every descendant matching the pattern and/or --type TAG, with its path. */
+async function findDomView(pa: ParsedArgs, matcher: Matcher | null): Promise<string | CommandResult> {
+  const typeFilter = pa.named["--type"]?.toLowerCase();
+  const limit = pa.named["-n"] ? parseInt(pa.named["-n"], 10) : 0;
+  const textLen = pa.named["--textlen"] ? parseInt(pa.named["--textlen"], 10) : 80;
+  const contentMatch = pa.flags.has("--content") || (pa.flags.has("--text") && !!matcher);
+
+  const all: Array<{ path: string; entry: DOMEntry }> = [];
+  collectDomEntries(await describeDomNode("find", currentDomNodeId(), -1), "", all);
+  let results = all.filter((r) =>
+    (!typeFilter || r.entry.tag === typeFilter) && (!matcher || domEntryMatches(r.entry, matcher, contentMatch))
+  );
+  const visibilityFilter = visibilityFilterFromArgs("find", pa);
+  if (visibilityFilter) {
+    results = await filterByVisibility(results, (r) => ({ backendDOMNodeId: r.entry.node.backendNodeId }), visibilityFilter);
+  }
+  if (limit > 0) results = results.slice(0, limit);
+  if (results.length === 0) {
+    const desc = typeFilter ? `type '${typeFilter}'` : pa.positional[0] ? `'${pa.positional[0]}'` : "the given visibility";
+    return noMatchResult(`No matches for ${desc}`);
   }
+
+  return results.map((r) => {
+    const textPreview = pa.flags.has("--text") ? formatTextPreview(domTextContent(r.entry.node), textLen) : "";
+    const meta = pa.flags.has("--meta") ? domAttributeSummary(r.entry.node) : "";
+    return `${r.entry.isDirectory ? "[d]" : "[-]"} \x1b[90m${r.path}\x1b[0m${formatDomEntry(r.entry, false)} \x1b[90m(${r.entry.tag})\x1b[0m${textPreview}${meta}`;
+  }).join("\r\n");
 }
 
 // ---- here ----
@@ -1712,7 +3810,7 @@ async function handleHere(): Promise<string> {
   const lastFocused = await chrome.windows.getLastFocused({ populate: true });
   const activeTab = lastFocused.tabs?.find(t => t.active);
   if (!activeTab?.id) {
-    return "\x1b[31mNo active tab found.\x1b[0m";
+    throw new CommandError("No active tab found.");
   }
 
   // Already inside this tab?
@@ -1734,31 +3832,56 @@ function handlePwd(): string {
 
 // ---- cat ----
 
-async function handleCat(args: string[]): Promise<string> {
+async function handleCat(args: string[]): Promise<string | CommandResult> {
+  const stored = args.length > 0 ? resolveStoredPath(args[0]) : null;
+  if (stored) {
+    const file = await readStoredFile(stored, "cat", args[0]);
+    return file.content.split("\n").join("\r\n");
+  }
+
   ensureInsideTab();
   await ensureFreshTree();
 
   if (args.length === 0) {
-    return "\x1b[31mUsage: cat <name> (see cat --help)\x1b[0m";
+    throw new CommandError("Usage: cat <name>... (see cat --help)");
   }
-
-  const targetName = args[0];
-  const currentId = getCurrentNodeId();
-  const match = resolveByPath(currentId, targetName, nodeMap);
-
-  if (!match) {
-    return `\x1b[31mcat: ${targetName}: No such file or directory\x1b[0m`;
+  if (isInDomView()) {
+    return await runOnDomTargets("cat", args, async (target, multiple) => {
+      if (!target.pseudoFile) return await catDomNode(target);
+      const chain = locateByBackendId(target.backendId, nodeMap);
+      const axNode = chain && chain.length > 0 ? nodeMap.get(chain[chain.length - 1].axNodeId) : undefined;
+      return await readPseudoFile(target.pseudoFile, { backendDOMNodeId: target.backendId }, axNode, target.name, multiple);
+    }, true);
   }
 
+  return await runOnTargets("cat", args, (target, multiple) => target.pseudoFile
+    ? readPseudoFile(target.pseudoFile, target.node, nodeMap.get(target.node.axNodeId), target.path, multiple)
+    : catElement(target.node, multiple ? target.path : target.node.name), true);
+}
+
+/** Metadata and text of one element, under a `--- label ---` header. */
+async function catElement(match: VFSNode, label: string): Promise<string> {
   const tp = typePrefix(match);
   const lines: string[] = [];
-  lines.push(`\x1b[1;36m--- ${match.name} ---\x1b[0m`);
+  lines.push(`\x1b[1;36m--- ${label} ---\x1b[0m`);
   lines.push(`  \x1b[33mRole:\x1b[0m  ${match.role}`);
   lines.push(`  \x1b[33mType:\x1b[0m  ${tp} ${match.isDirectory ? "directory" : INTERACTIVE_ROLES.has(match.role) ? "interactive" : "static"}`);
   lines.push(`  \x1b[33mAXID:\x1b[0m  ${match.axNodeId}`);
 
   if (match.backendDOMNodeId) {
     lines.push(`  \x1b[33mDOM:\x1b[0m   backend#${match.backendDOMNodeId}`);
+    if (match.sessionId) {
+      lines.push(`  \x1b[33mFrame:\x1b[0m out-of-process iframe ${cdp.frameSessionUrl(match.sessionId) ?? ""}`.trimEnd());
+    }
+    const root = cdp.shadowRootOf(match.backendDOMNodeId, match.sessionId);
+    if (root) {
+      lines.push(`  \x1b[33mShadow:\x1b[0m ${root.mode} root, ${root.childCount} top-level node${root.childCount === 1 ? "" : "s"}`);
+    }
+    const host = cdp.shadowHostOf(match.backendDOMNodeId, match.sessionId);
+    const hostRoot = host !== null ? cdp.shadowRootOf(host) : undefined;
+    if (hostRoot) {
+      lines.push(`  \x1b[33mIn shadow:\x1b[0m <${hostRoot.hostTag}> (${hostRoot.mode})`);
+    }
   }
 
   if (match.value) {
@@ -1774,7 +3897,7 @@ async function handleCat(args: string[]): Promise<string> {
     // Pull real DOM properties (href, src, tag, id, class, etc.)
     let props: Record<string, string> = {};
     try {
-      props = await cdp.getElementProperties(match.backendDOMNodeId);
+      props = await cdp.getElementProperties(match.backendDOMNodeId, match.sessionId);
       if (props.tag) {
         lines.push(`  \x1b[33mTag:\x1b[0m   <${props.tag}>`);
       }
@@ -1808,6 +3931,10 @@ async function handleCat(args: string[]): Promise<string> {
       if (props.name) {
         lines.push(`  \x1b[33mName:\x1b[0m  ${props.name}`);
       }
+      if (props.selector) {
+        // Ready to paste back: cat/click/cd '@css:...'
+        lines.push(`  \x1b[33mSelector:\x1b[0m ${quoteArgument("@css:" + props.selector)}`);
+      }
     } catch {
       // Element may be stale
     }
@@ -1815,7 +3942,7 @@ async function handleCat(args: string[]): Promise<string> {
     // Text content (textContent — includes hidden elements)
     let textContent = "";
     try {
-      textContent = await cdp.getTextContent(match.backendDOMNodeId);
+      textContent = await cdp.getTextContent(match.backendDOMNodeId, match.sessionId);
       if (textContent.trim()) {
         lines.push(`  \x1b[33mText:\x1b[0m`);
         const wrapped = textContent.trim().slice(0, 500);
@@ -1830,7 +3957,7 @@ async function handleCat(args: string[]): Promise<string> {
 
     // Visible text (innerText — respects CSS display/visibility)
     try {
-      const visibleText = await cdp.getInnerText(match.backendDOMNodeId);
+      const visibleText = await cdp.getInnerText(match.backendDOMNodeId, match.sessionId);
       if (visibleText.trim() && visibleText.trim() !== textContent.trim()) {
         lines.push(`  \x1b[33mVisibleText:\x1b[0m`);
         const wrapped = visibleText.trim().slice(0, 500);
@@ -1853,62 +3980,173 @@ async function handleCat(args: string[]): Promise<string> {
   return lines.join("\r\n");
 }
 
+// ---- pseudo files (cat NAME/.bbox) ----
+
+/**
+ * Per-element pseudo files, like /proc: `cat NAME/.style` reads one aspect
+ * of an element in full, as plain "key: value" lines for grep. They are not
+ * listed by ls, only read by path.
+ */
+const PSEUDO_FILES = new Map<string, string>([
+  [".attrs", "HTML attributes"],
+  [".style", "computed styles"],
+  [".bbox", "position and size in the viewport"],
+  [".states", "accessibility states and properties (checked, expanded, disabled, ...)"],
+  [".html", "the full outerHTML"],
+  [".events", "event listeners registered on the element"],
+]);
+
+/** Split a path ending in a pseudo file into the element path ("" for the current element) and the file. */
+function splitPseudoPath(target: string): { element: string; file: string } | null {
+  const slash = target.lastIndexOf("/");
+  const file = target.slice(slash + 1);
+  if (!PSEUDO_FILES.has(file)) return null;
+  return { element: slash < 0 ? "" : target.slice(0, slash), file };
+}
+
+/**
+ * The contents of one pseudo file of an element, under a `--- path ---`
+ * header when several are read at once. `.states` comes from the AX node;
+ * the others are read from the page.
+ */
+async function readPseudoFile(
+  file: string,
+  element: { backendDOMNodeId?: number; sessionId?: string },
+  axNode: AXNode | undefined,
+  path: string,
+  multiple: boolean,
+): Promise<string> {
+  let lines: string[];
+  if (file === ".states") {
+    if (!axNode) throw new CommandError(`cat: ${path}: not in the accessibility tree`);
+    lines = axStateLines(axNode);
+  } else {
+    if (!element.backendDOMNodeId) throw new CommandError(`cat: ${path}: No DOM node backing (AX-only node)`);
+    try {
+      lines = await pagePseudoFileLines(file, element.backendDOMNodeId, element.sessionId);
+    } catch (err: any) {
+      throw new CommandError(`cat: ${path}: can't read ${file} (${err.message})`);
+    }
+  }
+
+  if (lines.length === 0) lines = ["\x1b[90m(empty)\x1b[0m"];
+  return multiple ? [`\x1b[1;36m--- ${path} ---\x1b[0m`, ...lines].join("\r\n") : lines.join("\r\n");
+}
+
+/** AX properties of a node as "name: value" lines. */
+function axStateLines(node: AXNode): string[] {
+  const lines: string[] = [];
+  if (node.ignored) lines.push("ignored: true");
+  for (const property of node.properties ?? []) {
+    const value = property.value?.value;
+    // Relations (labelledby, controls, ...) hold node lists rather than a value
+    if (value === undefined || value === null || typeof value === "object") continue;
+    lines.push(`${property.name}: ${value}`);
+  }
+  return lines;
+}
+
+async function pagePseudoFileLines(file: string, backendId: number, sessionId?: string): Promise<string[]> {
+  const oneLine = (text: string): string => text.replace(/\s*\n\s*/g, " ");
+  switch (file) {
+    case ".attrs":
+      return domAttributes(await cdp.describeDOMNode(backendId, 0, sessionId))
+        .map(([name, value]) => `${name}: ${oneLine(value)}`);
+    case ".style":
+      return Object.entries(await cdp.getComputedStyle(backendId, sessionId))
+        .map(([name, value]) => `${name}: ${oneLine(value)}`);
+    case ".bbox": {
+      const box = await cdp.getBoundingBox(backendId, sessionId);
+      return [`x: ${box.x}`, `y: ${box.y}`, `width: ${box.width}`, `height: ${box.height}`, `inViewport: ${box.inViewport}`];
+    }
+    case ".html":
+      return (await cdp.getOuterHTML(backendId, sessionId)).split(/\r?\n/);
+    case ".events":
+      return (await cdp.getEventListeners(backendId, sessionId)).map((listener) => {
+        const flags = [listener.useCapture ? "capture" : "bubble"];
+        if (listener.passive) flags.push("passive");
+        if (listener.once) flags.push("once");
+        const source = listener.source ? oneLine(listener.source) : "";
+        const location = `script ${listener.scriptId}:${listener.lineNumber + 1}:${listener.columnNumber + 1}`;
+        return `${listener.type}: ${flags.join(" ")}  ${location}${source ? `  ${source.length > 120 ? source.slice(0, 120) + "..." : source}` : ""}`;
+      });
+    default:
+      return [];
+  }
+}
+
 // ---- text (bulk text extraction) ----
 
-async function handleText(args: string[]): Promise<string> {
+async function handleText(args: string[]): Promise<string | CommandResult> {
   ensureInsideTab();
   await ensureFreshTree();
 
   const pa = parseArgs(args);
   const maxLength = pa.named["-n"] ? parseInt(pa.named["-n"], 10) : 0;
-
-  let backendId: number | undefined;
-  let targetName = "current directory";
+  const visibleOnly = pa.flags.has("--visible-only");
+
+  if (isInDomView()) {
+    return await runOnDomTargets("text", pa.positional.length > 0 ? pa.positional : ["."], async (target) => {
+      const text = visibleOnly
+        ? await cdp.getVisibleText(target.backendId)
+        : domTextContent(await describeDomNode("text", target.backendId, -1));
+      return formatElementText(text, target.name, maxLength);
+    });
+  }
 
   if (pa.positional.length > 0) {
-    const name = pa.positional[0];
-    const currentId = getCurrentNodeId();
-    const match = resolveByPath(currentId, name, nodeMap);
-    if (!match) {
-      return `\x1b[31mtext: ${name}: No such file or directory\x1b[0m`;
-    }
-    backendId = match.backendDOMNodeId;
-    targetName = match.name;
-  } else {
-    const currentId = getCurrentNodeId();
-    const node = nodeMap.get(currentId);
-    backendId = node?.backendDOMNodeId;
-    const domSegs = getDomSegments();
-    targetName = domSegs.length > 0 ? domSegs[domSegs.length - 1] : "/";
+    return await runOnTargets("text", pa.positional, (target, multiple) =>
+      textOfElement(target.node, multiple ? target.path : target.node.name, maxLength, visibleOnly));
   }
 
-  if (!backendId) {
-    return `\x1b[31mtext: ${targetName}: No DOM node backing (AX-only node)\x1b[0m`;
+  const node = nodeMap.get(getCurrentNodeId());
+  const domSegs = getDomSegments();
+  return await textOfElement(node, domSegs.length > 0 ? domSegs[domSegs.length - 1] : "/", maxLength, visibleOnly);
+}
+
+/**
+ * Text content of one element under a `--- Text: name ---` header, cut to
+ * maxLength if set. With visibleOnly, only the text a user can see.
+ */
+async function textOfElement(
+  node: { backendDOMNodeId?: number; sessionId?: string } | undefined,
+  targetName: string,
+  maxLength: number,
+  visibleOnly = false,
+): Promise<string> {
+  if (!node?.backendDOMNodeId) {
+    throw new CommandError(`text: ${targetName}: No DOM node backing (AX-only node)`);
   }
 
   try {
-    let text = await cdp.getTextContent(backendId);
-    text = text.trim();
-
-    if (!text) {
-      return `\x1b[33m(no text content in ${targetName})\x1b[0m`;
-    }
+    const text = visibleOnly
+      ? await cdp.getVisibleText(node.backendDOMNodeId, node.sessionId)
+      : await cdp.getTextContent(node.backendDOMNodeId, node.sessionId);
+    return formatElementText(text, targetName, maxLength);
+  } catch (err: any) {
+    throw new CommandError(`text: Error extracting text: ${err.message}`);
+  }
+}
 
-    const lines: string[] = [];
-    lines.push(`\x1b[1;36m--- Text: ${targetName} ---\x1b[0m`);
+/** An element's text under a `--- Text: name ---` header, cut to maxLength if set. */
+function formatElementText(rawText: string, targetName: string, maxLength: number): string {
+  const text = rawText.trim();
+  if (!text) {
+    return `\x1b[33m(no text content in ${targetName})\x1b[0m`;
+  }
 
-    if (maxLength > 0 && text.length > maxLength) {
-      lines.push(text.slice(0, maxLength));
-      lines.push(`\x1b[90m... (${text.length} chars total, showing first ${maxLength})\x1b[0m`);
-    } else {
-      lines.push(text);
-      lines.push(`\x1b[90m(${text.length} chars)\x1b[0m`);
-    }
+  const lines: string[] = [];
+  lines.push(`\x1b[1;36m--- Text: ${targetName} ---\x1b[0m`);
 
-    return lines.join("\r\n");
-  } catch (err: any) {
-    return `\x1b[31mtext: Error extracting text: ${err.message}\x1b[0m`;
+  if (maxLength > 0 && text.length > maxLength) {
+    lines.push(text.slice(0, maxLength));
+    lines.push(`\x1b[90m... (${text.length} chars total, showing first ${maxLength})\x1b[0m`);
+  } else {
+    lines.push(text);
+    lines.push(`\x1b[90m(${text.length} chars)\x1b[0m`);
   }
+
+  return lines.join("\r\n");
 }
 
 // ---- click ----
@@ -1918,32 +4156,31 @@ async function handleClick(args: string[]): Promise<string> {
   await ensureFreshTree();
 
   if (args.length === 0) {
-    return "\x1b[31mUsage: click <name> (see click --help)\x1b[0m";
+    throw new CommandError("Usage: click <name> (see click --help)");
   }
 
   const targetName = args[0];
-  const currentId = getCurrentNodeId();
-  const match = resolveByPath(currentId, targetName, nodeMap);
+  const match = await resolveElement("click", targetName);
 
   if (!match) {
-    return `\x1b[31mclick: ${targetName}: No such element\x1b[0m`;
+    throw new CommandError(`click: ${targetName}: No such element`);
   }
 
   if (!match.backendDOMNodeId) {
-    return `\x1b[31mclick: ${targetName}: No DOM node backing (AX-only node)\x1b[0m`;
+    throw new CommandError(`click: ${targetName}: No DOM node backing (AX-only node)`);
   }
 
   try {
-    await cdp.clickByBackendNodeId(match.backendDOMNodeId);
+    await cdp.clickByBackendNodeId(match.backendDOMNodeId, match.sessionId);
     treeStale = true;
     return `\x1b[32m\u2713 Clicked: ${match.name} (${match.role})\x1b[0m\r\n\x1b[90m(tree will auto-refresh on next command)\x1b[0m`;
   } catch {
     try {
-      await cdp.clickByCoordinates(match.backendDOMNodeId);
+      await cdp.clickByCoordinates(match.backendDOMNodeId, match.sessionId);
       treeStale = true;
       return `\x1b[32m\u2713 Clicked (coords): ${match.name} (${match.role})\x1b[0m\r\n\x1b[90m(tree will auto-refresh on next command)\x1b[0m`;
     } catch (err: any) {
-      return `\x1b[31mclick failed: ${err.message}\x1b[0m`;
+      throw new CommandError(`click failed: ${err.message}`);
     }
   }
 }
@@ -1955,22 +4192,21 @@ async function handleFocus(args: string[]): Promise<string> {
   await ensureFreshTree();
 
   if (args.length === 0) {
-    return "\x1b[31mUsage: focus <name> (see focus --help)\x1b[0m";
+    throw new CommandError("Usage: focus <name> (see focus --help)");
   }
 
   const targetName = args[0];
-  const currentId = getCurrentNodeId();
-  const match = resolveByPath(currentId, targetName, nodeMap);
+  const match = await resolveElement("focus", targetName);
 
   if (!match) {
-    return `\x1b[31mfocus: ${targetName}: No such element\x1b[0m`;
+    throw new CommandError(`focus: ${targetName}: No such element`);
   }
 
   if (!match.backendDOMNodeId) {
-    return `\x1b[31mfocus: ${targetName}: No DOM node backing\x1b[0m`;
+    throw new CommandError(`focus: ${targetName}: No DOM node backing`);
   }
 
-  await cdp.focusByBackendNodeId(match.backendDOMNodeId);
+  await cdp.focusByBackendNodeId(match.backendDOMNodeId, match.sessionId);
   return `\x1b[32m\u2713 Focused: ${match.name}\x1b[0m`;
 }
 
@@ -1980,7 +4216,7 @@ async function handleType(args: string[]): Promise<string> {
   ensureInsideTab();
 
   if (args.length === 0) {
-    return "\x1b[31mUsage: type <text> (see type --help)\x1b[0m";
+    throw new CommandError("Usage: type <text> (see type --help)");
   }
 
   const text = args.join(" ");
@@ -1998,42 +4234,41 @@ async function handleSubmit(args: string[]): Promise<string> {
   const submitBtnName = pa.named["--submit"];
 
   if (pa.positional.length < 2) {
-    return "\x1b[31mUsage: submit <input_name> <value> [--submit button_name]\x1b[0m";
+    throw new CommandError("Usage: submit <input_name> <value> [--submit button_name]");
   }
 
   const inputName = pa.positional[0];
   const value = pa.positional.slice(1).join(" ");
-  const currentId = getCurrentNodeId();
 
   // 1. Find and focus the input
-  const input = resolveByPath(currentId, inputName, nodeMap);
+  const input = await resolveElement("submit", inputName);
   if (!input) {
-    return `\x1b[31msubmit: ${inputName}: No such element\x1b[0m`;
+    throw new CommandError(`submit: ${inputName}: No such element`);
   }
   if (!input.backendDOMNodeId) {
-    return `\x1b[31msubmit: ${inputName}: No DOM node backing\x1b[0m`;
+    throw new CommandError(`submit: ${inputName}: No DOM node backing`);
   }
-  await cdp.focusByBackendNodeId(input.backendDOMNodeId);
+  await cdp.focusByBackendNodeId(input.backendDOMNodeId, input.sessionId);
 
   // 2. Clear existing value (select all + delete via JS)
   await cdp.send("Runtime.callFunctionOn", {
-    objectId: (await cdp.send<{ object: { objectId: string } }>("DOM.resolveNode", { backendNodeId: input.backendDOMNodeId })).object.objectId,
+    objectId: (await cdp.send<{ object: { objectId: string } }>("DOM.resolveNode", { backendNodeId: input.backendDOMNodeId }, input.sessionId)).object.objectId,
     functionDeclaration: `function() { this.value = ''; this.dispatchEvent(new Event('input', { bubbles: true })); }`,
     returnByValue: true,
-  });
+  }, input.sessionId);
 
   // 3. Type the value
   await cdp.typeText(value);
 
   // 4. Submit: click button or press Enter
   if (submitBtnName) {
-    const btn = resolveByPath(currentId, submitBtnName, nodeMap);
+    const btn = await resolveElement("submit", submitBtnName).catch(() => null);
     if (btn && btn.backendDOMNodeId) {
       try {
-        await cdp.clickByBackendNodeId(btn.backendDOMNodeId);
+        await cdp.clickByBackendNodeId(btn.backendDOMNodeId, btn.sessionId);
       } catch {
         try {
-          await cdp.clickByCoordinates(btn.backendDOMNodeId);
+          await cdp.clickByCoordinates(btn.backendDOMNodeId, btn.sessionId);
         } catch {
           // Fallback to Enter
           await cdp.send("Input.dispatchKeyEvent", { type: "keyDown", key: "Enter", code: "Enter", text: "\r" });
@@ -2058,27 +4293,27 @@ async function handleSubmit(args: string[]): Promise<string> {
 
 // ---- extract_links ----
 
-async function handleExtractLinks(args: string[]): Promise<string> {
+async function handleExtractLinks(args: string[]): Promise<string | CommandResult> {
   ensureInsideTab();
   await ensureFreshTree();
 
   const pa = parseArgs(args);
   const limit = pa.named["-n"] ? parseInt(pa.named["-n"], 10) : 0;
 
-  let targetId: string;
   if (pa.positional.length > 0) {
-    const name = pa.positional[0];
-    const currentId = getCurrentNodeId();
-    const match = resolveByPath(currentId, name, nodeMap);
-    if (!match) return `\x1b[31mextract_links: ${name}: No such element\x1b[0m`;
-    targetId = match.axNodeId;
-  } else {
-    targetId = getCurrentNodeId();
+    return await runOnTargets("extract_links", pa.positional, async (target, multiple) => {
+      const links = await linksUnder(target.node.axNodeId, limit);
+      return multiple ? `\x1b[1;36m--- Links: ${target.path} ---\x1b[0m\r\n${links}` : links;
+    });
   }
+  return await linksUnder(getCurrentNodeId(), limit);
+}
 
+/** Numbered markdown links ([text](href)) found below one node, at most `limit` if set. */
+async function linksUnder(targetId: string, limit: number): Promise<string> {
   // Collect all link nodes recursively
   const results: Array<{ path: string; node: VFSNode }> = [];
-  await findRecursive(targetId, "", "", "link", results, new Set(), limit || 200);
+  await findRecursive(targetId, "", null, (node) => node.role === "link", results, new Set(), limit || 200);
 
   if (results.length === 0) return "\x1b[33m(no links found)\x1b[0m";
 
@@ -2091,10 +4326,10 @@ async function handleExtractLinks(args: string[]): Promise<string> {
 
     if (node.backendDOMNodeId) {
       try {
-        const props = await cdp.getElementProperties(node.backendDOMNodeId);
+        const props = await cdp.getElementProperties(node.backendDOMNodeId, node.sessionId);
         if (props.href) href = props.href;
         // Use visible text for better display
-        const text = await cdp.getInnerText(node.backendDOMNodeId);
+        const text = await cdp.getInnerText(node.backendDOMNodeId, node.sessionId);
         if (text.trim()) displayText = text.trim().replace(/\s+/g, " ");
       } catch { /* stale node */ }
     }
@@ -2111,6 +4346,8 @@ async function handleExtractLinks(args: string[]): Promise<string> {
 
 // ---- extract_table ----
 
+const TABLE_ROLES = new Set(["table", "grid", "treegrid"]);
+
 async function handleExtractTable(args: string[]): Promise<string> {
   ensureInsideTab();
   await ensureFreshTree();
@@ -2119,14 +4356,15 @@ async function handleExtractTable(args: string[]): Promise<string> {
   const format = pa.named["--format"] || "markdown";
   const limit = pa.named["-n"] ? parseInt(pa.named["-n"], 10) : 0;
 
-  if (pa.positional.length === 0) {
-    return "\x1b[31mUsage: extract_table <table_name> [--format markdown|csv] [-n limit]\x1b[0m";
+  // No name: the current directory, if it is a table (cd @tables/NAME first)
+  const current = pa.positional.length === 0 && !isInDomView() ? currentVFSNode() : null;
+  if (pa.positional.length === 0 && !TABLE_ROLES.has(current?.role ?? "")) {
+    throw new CommandError("Usage: extract_table [table_name] [--format markdown|csv] [-n limit]");
   }
 
-  const tableName = pa.positional[0];
-  const currentId = getCurrentNodeId();
-  const tableNode = resolveByPath(currentId, tableName, nodeMap);
-  if (!tableNode) return `\x1b[31mextract_table: ${tableName}: No such element\x1b[0m`;
+  const tableName = pa.positional[0] ?? current!.name;
+  const tableNode = current ?? await resolveElement("extract_table", tableName);
+  if (!tableNode) throw new CommandError(`extract_table: ${tableName}: No such element`);
 
   // Walk table structure: table -> rowgroup/row -> row -> cell
   const rows: string[][] = [];
@@ -2150,7 +4388,7 @@ async function handleExtractTable(args: string[]): Promise<string> {
       for (const cell of cells) {
         if (cell.backendDOMNodeId) {
           try {
-            const text = await cdp.getInnerText(cell.backendDOMNodeId);
+            const text = await cdp.getInnerText(cell.backendDOMNodeId, cell.sessionId);
             cellTexts.push(text.trim().replace(/\s+/g, " "));
           } catch {
             cellTexts.push(cell.value || cell.name);
@@ -2182,20 +4420,27 @@ async function handleExtractTable(args: string[]): Promise<string> {
 
 // ---- grep ----
 
-async function handleGrep(args: string[]): Promise<string> {
+async function handleGrep(args: string[]): Promise<string | CommandResult> {
   ensureInsideTab();
   await ensureFreshTree();
 
-  const pa = parseArgs(args);
+  const pa = parseMatchArgs("grep", args, "rEvicoI", ["-r", "--content"]);
   const recursive = pa.flags.has("-r");
   const contentMatch = pa.flags.has("--content");
+  const countOnly = pa.flags.has("-c");
+  const onlyMatching = pa.flags.has("-o");
   const limit = pa.named["-n"] ? parseInt(pa.named["-n"], 10) : 0;
+  const context = pa.named["-C"] ? parseInt(pa.named["-C"], 10) : 0;
+  const before = pa.named["-B"] ? parseInt(pa.named["-B"], 10) : context;
+  const after = pa.named["-A"] ? parseInt(pa.named["-A"], 10) : context;
 
   if (pa.positional.length === 0) {
-    return "\x1b[31mUsage: grep [options] <pattern> (see grep --help)\x1b[0m";
+    throw new CommandError("Usage: grep [options] <pattern> (see grep --help)");
   }
 
-  const pattern = pa.positional[0].toLowerCase();
+  const pattern = pa.positional[0];
+  const matcher = matcherFromArgs("grep", pattern, pa);
+  if (isInDomView()) return await grepDomView(pa, matcher, pattern);
   const currentId = getCurrentNodeId();
 
   let candidates: VFSNode[];
@@ -2206,38 +4451,60 @@ async function handleGrep(args: string[]): Promise<string> {
     candidates = getChildVFSNodes(currentId, nodeMap);
   }
 
-  const matches: VFSNode[] = [];
-  for (const c of candidates) {
-    if (limit > 0 && matches.length >= limit) break;
-
-    const axMatch =
-      c.name.toLowerCase().includes(pattern) ||
-      c.role.toLowerCase().includes(pattern) ||
-      (c.value && c.value.toLowerCase().includes(pattern));
+  const selected = new Array<boolean>(candidates.length).fill(false);
+  const contentTexts = new Map<number, string>();
+  let matchCount = 0;
+  for (let i = 0; i < candidates.length; i++) {
+    if (limit > 0 && matchCount >= limit) break;
+    const c = candidates[i];
 
-    if (axMatch) {
-      matches.push(c);
-      continue;
-    }
+    let hit =
+      matcher.found(c.name) ||
+      matcher.found(c.role) ||
+      (!!c.value && matcher.found(c.value));
 
     // Slow path: match against visible text content (only if --content flag)
-    if (contentMatch && c.backendDOMNodeId) {
+    if (!hit && contentMatch && c.backendDOMNodeId) {
       try {
-        const text = await cdp.getInnerText(c.backendDOMNodeId);
-        if (text.toLowerCase().includes(pattern)) {
-          matches.push(c);
-        }
+        const text = await cdp.getInnerText(c.backendDOMNodeId, c.sessionId);
+        hit = matcher.found(text);
+        if (hit) contentTexts.set(i, text);
       } catch { /* stale node */ }
     }
+
+    if (hit !== matcher.invert) {
+      selected[i] = true;
+      matchCount++;
+    }
   }
 
-  if (matches.length === 0) {
-    return `\x1b[33mNo matches for '${pattern}'\x1b[0m`;
+  if (countOnly) return countResult(matchCount);
+
+  if (matchCount === 0) {
+    return noMatchResult(`No matches for '${pattern}'`);
   }
 
-  return matches
-    .map((m) => {
+  // -o: one line per matched substring, prefixed with the element name
+  if (onlyMatching) {
+    if (matcher.invert) return "";
+    const lines: string[] = [];
+    candidates.forEach((c, i) => {
+      if (!selected[i]) return;
+      const sources = [c.name, c.role, c.value ?? "", contentTexts.get(i) ?? ""];
+      for (const m of sources.flatMap((t) => matcher.extract(t))) {
+        lines.push(`${formatColoredName(c)}:${m}`);
+      }
+    });
+    return lines.join("\r\n");
+  }
+
+  return withContext(selected, before, after)
+    .map((i) => {
+      if (i === null) return "\x1b[90m--\x1b[0m";
+      const m = candidates[i];
       const tp = typePrefix(m);
+      // Context entries (from -A/-B/-C) are dimmed
+      if (!selected[i]) return `\x1b[90m${tp} ${m.name} (${m.role})\x1b[0m`;
       return `${tp} ${formatColoredName(m)} \x1b[90m(${m.role})\x1b[0m`;
     })
     .join("\r\n");
@@ -2245,31 +4512,43 @@ async function handleGrep(args: string[]): Promise<string> {
 
 // ---- find (deep recursive search with full paths) ----
 
-async function handleFind(args: string[]): Promise<string> {
+async function handleFind(args: string[]): Promise<string | CommandResult> {
   ensureInsideTab();
   await ensureFreshTree();
 
-  const pa = parseArgs(args);
+  const pa = parseMatchArgs("find", args, "EviI", [
+    "--meta", "--text", "--content", "--visible", "--in-viewport", "--hidden",
+    ...STATE_WORDS.map((w) => `--${w}`),
+  ]);
   const typeFilter = pa.named["--type"]?.toLowerCase();
+  const filter = nodeFilterFromArgs("find", pa);
+  const visibilityFilter = visibilityFilterFromArgs("find", pa);
   const limit = pa.named["-n"] ? parseInt(pa.named["-n"], 10) : 0;
   const showMeta = pa.flags.has("--meta");
   const showText = pa.flags.has("--text");
   const textLen = pa.named["--textlen"] ? parseInt(pa.named["--textlen"], 10) : 80;
-  const pattern = pa.positional[0]?.toLowerCase() ?? "";
+  const pattern = pa.positional[0] ?? "";
   // --text with a pattern implicitly enables content matching
   const contentMatch = pa.flags.has("--content") || (showText && !!pattern);
 
-  if (!pattern && !typeFilter) {
-    return "\x1b[31mUsage: find [options] <pattern> (see find --help)\x1b[0m";
+  if (!pattern && !filter && !visibilityFilter) {
+    throw new CommandError("Usage: find [options] <pattern> (see find --help)");
   }
 
+  const matcher = pattern ? matcherFromArgs("find", pattern, pa) : null;
+  if (isInDomView()) return await findDomView(pa, matcher);
   const currentId = getCurrentNodeId();
-  const results: Array<{ path: string; node: VFSNode }> = [];
-  await findRecursive(currentId, "", pattern, typeFilter, results, new Set(), limit, contentMatch);
+  let results: Array<{ path: string; node: VFSNode }> = [];
+  // Visibility is checked in the page, once for all matches, so the limit applies after it
+  await findRecursive(currentId, "", matcher, filter, results, new Set(), visibilityFilter ? 0 : limit, contentMatch);
+  if (visibilityFilter) {
+    results = await filterByVisibility(results, (r) => r.node, visibilityFilter);
+    if (limit > 0) results = results.slice(0, limit);
+  }
 
   if (results.length === 0) {
-    const desc = typeFilter ? `type '${typeFilter}'` : `'${pattern}'`;
-    return `\x1b[33mNo matches for ${desc}\x1b[0m`;
+    const desc = typeFilter ? `type '${typeFilter}'` : pattern ? `'${pattern}'` : filter ? "the given states" : "the given visibility";
+    return noMatchResult(`No matches for ${desc}`);
   }
 
   const lines: string[] = [];
@@ -2281,7 +4560,7 @@ async function handleFind(args: string[]): Promise<string> {
     let meta = "";
     if (showMeta && r.node.backendDOMNodeId) {
       try {
-        const props = await cdp.getElementProperties(r.node.backendDOMNodeId);
+        const props = await cdp.getElementProperties(r.node.backendDOMNodeId, r.node.sessionId);
         const parts: string[] = [];
         if (props.href) parts.push(`href=${props.href}`);
         if (props.src) parts.push(`src=${props.src}`);
@@ -2293,7 +4572,7 @@ async function handleFind(args: string[]): Promise<string> {
     let textPreview = "";
     if (showText && r.node.backendDOMNodeId) {
       try {
-        const innerText = await cdp.getInnerText(r.node.backendDOMNodeId);
+        const innerText = await cdp.getInnerText(r.node.backendDOMNodeId, r.node.sessionId);
         textPreview = formatTextPreview(innerText, textLen);
       } catch { /* stale node */ }
     }
@@ -2305,8 +4584,8 @@ async function handleFind(args: string[]): Promise<string> {
 async function findRecursive(
   parentId: string,
   pathPrefix: string,
-  pattern: string,
-  typeFilter: string | undefined,
+  matcher: Matcher | null,
+  filter: ((node: VFSNode) => boolean) | null,
   results: Array<{ path: string; node: VFSNode }>,
   visited: Set<string>,
   limit: number,
@@ -2321,20 +4600,25 @@ async function findRecursive(
   for (const child of children) {
     if (limit > 0 && results.length >= limit) return;
 
-    // Check type filter first (cheap) before expensive content match
-    const matchesType = !typeFilter || child.role.toLowerCase() === typeFilter;
+    // Check type and state filters first (cheap) before expensive content match
+    const matchesType = !filter || filter(child);
 
-    let matchesPattern = !pattern ||
-      child.name.toLowerCase().includes(pattern) ||
-      child.role.toLowerCase().includes(pattern) ||
-      (child.value && child.value.toLowerCase().includes(pattern));
+    let matchesPattern = true;
+    if (matcher) {
+      let hit =
+        matcher.found(child.name) ||
+        matcher.found(child.role) ||
+        (!!child.value && matcher.found(child.value));
 
-    // Slow path: match against visible text content — only for type-matched nodes
-    if (!matchesPattern && contentMatch && pattern && matchesType && child.backendDOMNodeId) {
-      try {
-        const text = await cdp.getInnerText(child.backendDOMNodeId);
-        matchesPattern = text.toLowerCase().includes(pattern);
-      } catch { /* stale node */ }
+      // Slow path: match against visible text content — only for type-matched nodes
+      if (!hit && contentMatch && matchesType && child.backendDOMNodeId) {
+        try {
+          const text = await cdp.getInnerText(child.backendDOMNodeId, child.sessionId);
+          hit = matcher.found(text);
+        } catch { /* stale node */ }
+      }
+
+      matchesPattern = hit !== matcher.invert;
     }
 
     if (matchesPattern && matchesType) {
@@ -2345,8 +4629,8 @@ async function findRecursive(
       await findRecursive(
         child.axNodeId,
         pathPrefix + child.name + "/",
-        pattern,
-        typeFilter,
+        matcher,
+        filter,
         results,
         visited,
         limit,
@@ -2386,7 +4670,7 @@ async function handleTree(args: string[]): Promise<string> {
 
   const lines: string[] = [];
   const currentNode = nodeMap.get(currentId);
-  const rootName = currentNode ? generateNodeName(currentNode) : "/";
+  const rootName = currentNode ? nodeName(currentNode) : "/";
   lines.push(`\x1b[1;34m${rootName}/\x1b[0m`);
 
   buildTreeLines(currentId, "", maxDepth, 0, lines);
@@ -2415,7 +4699,7 @@ function buildTreeLines(
       ? `\x1b[1;34m${child.name}/\x1b[0m`
       : formatColoredName(child);
 
-    lines.push(`${prefix}${connector}${tp} ${display}`);
+    lines.push(`${prefix}${connector}${tp} ${display}${formatStates(child)}`);
 
     if (child.isDirectory) {
       buildTreeLines(child.axNodeId, prefix + childPrefix, maxDepth, depth + 1, lines);
@@ -2441,17 +4725,16 @@ async function handleRead(args: string[]): Promise<string> {
 
   if (pa.positional.length > 0) {
     const name = pa.positional[0];
-    const currentId = getCurrentNodeId();
-    const match = resolveByPath(currentId, name, nodeMap);
+    const match = await resolveElement("read", name);
     if (!match) {
-      return `\x1b[31mread: ${name}: No such file or directory\x1b[0m`;
+      throw new CommandError(`read: ${name}: No such file or directory`);
     }
     targetId = match.axNodeId;
     targetName = match.name;
   } else {
     targetId = getCurrentNodeId();
     const node = nodeMap.get(targetId);
-    targetName = node ? generateNodeName(node) : "/";
+    targetName = node ? nodeName(node) : "/";
   }
 
   const lines: string[] = [];
@@ -2498,7 +4781,7 @@ async function buildReadLines(
     // Optionally add meta (href, src, id)
     if (showMeta && child.backendDOMNodeId) {
       try {
-        const props = await cdp.getElementProperties(child.backendDOMNodeId);
+        const props = await cdp.getElementProperties(child.backendDOMNodeId, child.sessionId);
         const parts: string[] = [];
         if (props.href) parts.push(`href=${props.href}`);
         if (props.src) parts.push(`src=${props.src}`);
@@ -2510,7 +4793,7 @@ async function buildReadLines(
     // Optionally add text preview
     if (showText && child.backendDOMNodeId) {
       try {
-        const text = await cdp.getInnerText(child.backendDOMNodeId);
+        const text = await cdp.getInnerText(child.backendDOMNodeId, child.sessionId);
         const cleaned = text.trim().replace(/\s+/g, " ");
         if (cleaned) {
           const preview = cleaned.length > textLen ? cleaned.slice(0, textLen) + "..." : cleaned;
@@ -2530,7 +4813,12 @@ async function buildReadLines(
 // ---- whoami ----
 
 async function handleWhoami(): Promise<string> {
+  // Checked here, not just by the MCP server: a script or function can call it too
+  if (!linePermissions.sensitive) {
+    throw new CommandError("whoami: disabled for this MCP server (it needs --allow-sensitive)");
+  }
   ensureInsideTab();
+  lineRanWhoami = true;
 
   try {
     const url = await cdp.getPageUrl();
@@ -2557,11 +4845,20 @@ async function handleWhoami(): Promise<string> {
     lines.push(`\x1b[90mTotal cookies: ${cookies.length}\x1b[0m`);
     return lines.join("\r\n");
   } catch (err: any) {
-    return `\x1b[31mError: ${err.message}\x1b[0m`;
+    throw new CommandError(`Error: ${err.message}`);
   }
 }
 
-// ---- env / export ----
+// ---- env / export / unset ----
+
+/** Variables computed per command line; export/unset refuse to touch them. */
+const BUILTIN_VARIABLES = ["PWD", "TAB", "URL"];
+
+/** Variables that change how the shell behaves rather than just holding a value. */
+function applySettingVariables(): void {
+  // TRANSLIT=1: romanize element names (привет_link -> privet_link)
+  setTransliteration(state.env.TRANSLIT === "1");
+}
 
 function handleEnv(): string {
   return Object.entries(state.env)
@@ -2571,27 +4868,544 @@ function handleEnv(): string {
 
 function handleExport(args: string[]): string {
   if (args.length === 0) {
-    return "\x1b[31mUsage: export KEY=VALUE (see export --help)\x1b[0m";
+    throw new CommandError("Usage: export KEY=VALUE (see export --help)");
   }
 
   const joined = args.join(" ");
   const eqIndex = joined.indexOf("=");
   if (eqIndex === -1) {
-    return "\x1b[31mUsage: export KEY=VALUE\x1b[0m";
+    throw new CommandError("Usage: export KEY=VALUE");
   }
 
   const key = joined.slice(0, eqIndex).trim();
   const value = joined.slice(eqIndex + 1).trim();
+  if (BUILTIN_VARIABLES.includes(key)) {
+    throw new CommandError(`export: ${key}: read-only variable`);
+  }
+  ensureNotKeepingCookies("export");
   state.env[key] = value;
+  applySettingVariables();
 
   return `\x1b[32m\u2713 ${key}=${value}\x1b[0m`;
 }
 
+async function handleUnset(args: string[]): Promise<string> {
+  if (args[0] === "-f") return await unsetFunctions(args.slice(1));
+  if (args.length === 0) {
+    throw new CommandError("Usage: unset NAME... | unset -f NAME... (see unset --help)");
+  }
+
+  const errors: string[] = [];
+  for (const key of args) {
+    if (BUILTIN_VARIABLES.includes(key)) {
+      errors.push(`unset: ${key}: read-only variable`);
+    } else {
+      delete state.env[key];
+    }
+  }
+  applySettingVariables();
+  if (errors.length > 0) throw new CommandError(errors.join("\r\n"));
+  return "";
+}
+
+async function unsetFunctions(names: string[]): Promise<string> {
+  if (names.length === 0) {
+    throw new CommandError("Usage: unset -f NAME... (see unset --help)");
+  }
+  ensureDefinitionsEnabled("unset");
+
+  const errors: string[] = [];
+  for (const name of names) {
+    if (!(await definitions.removeFunction(name))) errors.push(`unset: ${name}: no such function`);
+  }
+  if (errors.length > 0) throw new CommandError(errors.join("\r\n"));
+  return "";
+}
+
+// ---- history ----
+
+async function handleHistory(args: string[]): Promise<string> {
+  const pa = parseArgs(args);
+
+  if (pa.flags.has("-c")) {
+    // The log is how you audit what an agent did, so agents may not erase it
+    if (currentOrigin !== "panel") {
+      throw new CommandError("history: -c is only allowed from the side panel");
+    }
+    await commandHistory.clear();
+    return "";
+  }
+
+  const countArg = pa.named["-n"] ?? pa.positional[0];
+  const count = countArg !== undefined ? parseInt(countArg, 10) : 0;
+  if (isNaN(count) || count < 0) {
+    throw new CommandError(`history: ${countArg}: numeric argument required`, 2);
+  }
+
+  let entries = await commandHistory.list();
+  const originFilter = pa.named["--origin"];
+  if (originFilter) entries = entries.filter((e) => e.origin.startsWith(originFilter));
+  if (count > 0) entries = entries.slice(-count);
+  if (entries.length === 0) return "\x1b[90m(no history)\x1b[0m";
+
+  return entries.map((e) => {
+    const number = String(e.number).padStart(5);
+    const time = new Date(e.time).toLocaleTimeString();
+    const origin = e.origin.padEnd(13);
+    const command = e.command.split("\n").join("\r\n" + " ".repeat(34));
+    return `${number}  \x1b[90m${time.padEnd(11)}\x1b[0m  \x1b[36m${origin}\x1b[0m ${command}`;
+  }).join("\r\n");
+}
+
+// ---- alias / unalias / shell functions ----
+
+/** Guards against a function that (indirectly) calls itself forever. */
+const MAX_FUNCTION_DEPTH = 32;
+
+/** Refuse to change or run definitions for an MCP server that has not allowed them. */
+function ensureDefinitionsEnabled(cmd: string): void {
+  if (!linePermissions.definitions) {
+    throw new CommandError(`${cmd}: aliases and functions are disabled for this MCP server (it needs --allow-write and --allow-sensitive)`);
+  }
+}
+
+/**
+ * If a pipeline starts with an alias, run it with the alias replaced by its
+ * value. The result is parsed again, so an alias may hold pipes, ; && and ||.
+ * Returns null when the first word is not an alias.
+ */
+async function runAliased(text: string): Promise<CommandResult | null> {
+  const word = text.match(/^[^\s'"\\$|;&<>()]+(?=[\s|>]|$)/)?.[0];
+  if (!word || !linePermissions.definitions || activeAliases.has(word)) return null;
+  const value = await definitions.getAlias(word);
+  if (value === undefined) return null;
+
+  activeAliases.add(word);
+  try {
+    return await executeCommand(value + text.slice(word.length));
+  } finally {
+    activeAliases.delete(word);
+  }
+}
+
+/** Run a function body with its own $1..$n, $# and $@ ($0 stays the script's). */
+async function callFunction(name: string, body: string, args: string[]): Promise<CommandResult> {
+  if (scriptStack.length >= MAX_FUNCTION_DEPTH) {
+    throw new CommandError(`${name}: functions nested more than ${MAX_FUNCTION_DEPTH} deep`);
+  }
+  const caller = scriptStack[scriptStack.length - 1];
+  scriptStack.push({ name: caller?.name ?? "domshell", args, errexit: false, function: name });
+  try {
+    return await executeCommand(body);
+  } finally {
+    scriptStack.pop();
+  }
+}
+
+async function defineFunction(name: string, body: ShellStatement[]): Promise<void> {
+  ensureDefinitionsEnabled(name);
+  if (!DefinitionStore.isValidName(name)) {
+    throw new CommandError(`${name}: not a valid function name`);
+  }
+  await definitions.setFunction(name, formatStatements(body));
+}
+
+/** Quote a value (an alias value, a selector) so that typing it back in reads it as one word. */
+function quoteArgument(value: string): string {
+  return value.includes("'") ? `"${value}"` : `'${value}'`;
+}
+
+function formatAlias(name: string, value: string): string {
+  return `alias \x1b[33m${name}\x1b[0m=${quoteArgument(value)}`;
+}
+
+/** `alias` lists aliases and functions, `alias NAME` shows one, `alias NAME=VALUE` defines one. */
+async function handleAlias(args: string[]): Promise<string | CommandResult> {
+  if (args.length === 0) {
+    const lines = (await definitions.aliases()).map(([name, value]) => formatAlias(name, value));
+    for (const [name, body] of await definitions.functions()) {
+      lines.push(`\x1b[33m${name}\x1b[0m() { ${body}; }`);
+    }
+    return lines.length > 0 ? lines.join("\r\n") : "\x1b[90m(no aliases or functions \u2014 define one with alias NAME='COMMAND' or NAME() { ...; })\x1b[0m";
+  }
+
+  const lines: string[] = [];
+  const errors: string[] = [];
+  for (const arg of args) {
+    const eqIndex = arg.indexOf("=");
+    const name = eqIndex === -1 ? arg : arg.slice(0, eqIndex);
+    if (eqIndex === -1) {
+      const value = await definitions.getAlias(name);
+      if (value === undefined) {
+        errors.push(`alias: ${name}: not found`);
+      } else {
+        lines.push(formatAlias(name, value));
+      }
+    } else if (!DefinitionStore.isValidName(name)) {
+      errors.push(`alias: ${name}: invalid alias name`);
+    } else {
+      ensureDefinitionsEnabled("alias");
+      await definitions.setAlias(name, arg.slice(eqIndex + 1));
+    }
+  }
+  if (errors.length > 0) {
+    return { stdout: lines.join("\r\n"), stderr: `\x1b[31m${errors.join("\r\n")}\x1b[0m`, status: 1 };
+  }
+  return lines.join("\r\n");
+}
+
+async function handleUnalias(args: string[]): Promise<string> {
+  if (args.length === 0) {
+    throw new CommandError("Usage: unalias NAME... | unalias -a (see unalias --help)", 2);
+  }
+  ensureDefinitionsEnabled("unalias");
+  if (args[0] === "-a") {
+    await definitions.removeAlias();
+    return "";
+  }
+
+  const errors: string[] = [];
+  for (const name of args) {
+    if (!(await definitions.removeAlias(name))) errors.push(`unalias: ${name}: not found`);
+  }
+  if (errors.length > 0) throw new CommandError(errors.join("\r\n"));
+  return "";
+}
+
+// ---- test / [ ----
+
+/**
+ * Evaluate a test expression. The outcome is reported only through the exit
+ * status (0 true, 1 false, 2 usage error), so `test` prints nothing.
+ */
+async function handleTest(cmd: string, args: string[]): Promise<CommandResult> {
+  let expr = args;
+  if (cmd === "[") {
+    if (args[args.length - 1] !== "]") {
+      throw new CommandError("[: missing ']'", 2);
+    }
+    expr = args.slice(0, -1);
+  }
+
+  let outcome: boolean;
+  try {
+    outcome = await evaluateTest(expr);
+  } catch (err: any) {
+    throw new CommandError(`${cmd}: ${err.message}`, 2);
+  }
+  return { stdout: "", stderr: "", status: outcome ? 0 : 1 };
+}
+
+async function evaluateTest(expr: string[]): Promise<boolean> {
+  if (expr[0] === "!") return !(await evaluateTest(expr.slice(1)));
+
+  switch (expr.length) {
+    case 0:
+      return false;
+    case 1:
+      return expr[0] !== "";
+    case 2:
+      return await testUnary(expr[0], expr[1]);
+    case 3:
+      return testBinary(expr[0], expr[1], expr[2]);
+    default:
+      throw new Error("too many arguments");
+  }
+}
+
+async function testUnary(op: string, operand: string): Promise<boolean> {
+  switch (op) {
+    case "-n":
+      return operand !== "";
+    case "-z":
+      return operand === "";
+    case "-e":
+    case "-d":
+    case "-f": {
+      // Element predicates: resolved like any other path argument, false outside a tab
+      if (!isInsideTab()) return false;
+      await ensureFreshTree();
+      const match = await resolveElement("test", operand).catch(() => null);
+      if (!match) return false;
+      if (op === "-d") return match.isDirectory;
+      if (op === "-f") return !match.isDirectory;
+      return true;
+    }
+    default:
+      throw new Error(`${op}: unary operator expected`);
+  }
+}
+
+function testBinary(left: string, op: string, right: string): boolean {
+  switch (op) {
+    case "=":
+    case "==":
+      return left === right;
+    case "!=":
+      return left !== right;
+    case "-eq":
+    case "-ne":
+    case "-lt":
+    case "-le":
+    case "-gt":
+    case "-ge": {
+      const [a, b] = [left, right].map((v) => {
+        if (!/^-?\d+$/.test(v.trim())) throw new Error(`${v}: integer expression expected`);
+        return parseInt(v, 10);
+      });
+      if (op === "-eq") return a === b;
+      if (op === "-ne") return a !== b;
+      if (op === "-lt") return a < b;
+      if (op === "-le") return a <= b;
+      if (op === "-gt") return a > b;
+      return a >= b;
+    }
+    default:
+      throw new Error(`${op}: binary operator expected`);
+  }
+}
+
+// ---- ~/scripts and ~/tmp: listing, write, rm and > redirection ----
+
+/** A file in one of the STORED_DIRS. */
+interface StoredFileRef {
+  dir: string;
+  name: string;
+  store: FileStore;
+}
+
+/** What `ls` says for each stored directory when it is empty, and under a listing. */
+const STORED_DIR_HINTS: Record<string, { empty: string; footer: string }> = {
+  scripts: {
+    empty: "no saved scripts \u2014 create one with 'write <name>.sh <command>'",
+    footer: "Use 'cat ~/scripts/<name>' to read a script, 'run <name> [args]' to run it.",
+  },
+  tmp: {
+    empty: "no scratch files \u2014 save output with '<command> > ~/tmp/<name>'",
+    footer: "Use 'cat ~/tmp/<name>' to read a file. Files here last until the browser closes.",
+  },
+};
+
+/** File argument of write/rm/run: a bare name means ~/scripts/<name> unless the cwd is ~/tmp. */
+function storedFileArg(target: string): StoredFileRef | null {
+  return resolveStoredPath(target) ?? (target.includes("/") ? null : { dir: "scripts", name: target, store: scripts });
+}
+
+function lineCount(content: string): number {
+  return content ? content.split("\n").length : 0;
+}
+
+async function readStoredFile(ref: StoredFileRef, cmd: string, target: string): Promise<StoredFile> {
+  const file = await ref.store.read(ref.name);
+  if (!file) throw new CommandError(`${cmd}: ${target}: No such file`);
+  return file;
+}
+
+/** Replace (or append to) a stored file with plain text. Returns the new line count. */
+async function writeStoredFile(ref: StoredFileRef, text: string, append: boolean, cmd: string): Promise<number> {
+  const path = `~/${ref.dir}/${ref.name}`;
+  if (!FileStore.isValidName(ref.name)) {
+    throw new CommandError(`${cmd}: ${path}: file names may only use letters, digits, '.', '_' and '-'`);
+  }
+  ensureNotKeepingCookies(cmd);
+
+  let content = stripAnsi(text).replace(/\r\n/g, "\n").replace(/\n+$/, "");
+  if (append) {
+    const existing = await ref.store.read(ref.name);
+    if (existing?.content) content = content ? `${existing.content}\n${content}` : existing.content;
+  }
+  try {
+    await ref.store.write(ref.name, content);
+  } catch (err: any) {
+    throw new CommandError(`${cmd}: ${path}: ${err.message}`);
+  }
+  return lineCount(content);
+}
+
+async function listStoredFiles(dir: string, rest: string[]): Promise<string> {
+  let files = await STORED_DIRS.get(dir)!.list();
+  if (rest.length > 0) {
+    files = files.filter((f) => f.name === rest[0]);
+    if (rest.length > 1 || files.length === 0) {
+      throw new CommandError(`ls: ~/${dir}/${rest.join("/")}: No such file`);
+    }
+  }
+  if (files.length === 0) {
+    return `\x1b[90m(${STORED_DIR_HINTS[dir].empty})\x1b[0m`;
+  }
+
+  const lines: string[] = [
+    `  \x1b[90mNAME                         LINES  MODIFIED\x1b[0m`,
+  ];
+  for (const file of files) {
+    const name = file.name.padEnd(28);
+    const count = String(lineCount(file.content)).padStart(5);
+    const modified = new Date(file.modified).toLocaleString();
+    lines.push(`  \x1b[32m${name}\x1b[0m ${count}  \x1b[90m${modified}\x1b[0m`);
+  }
+  lines.push("");
+  lines.push(`\x1b[90m${STORED_DIR_HINTS[dir].footer}\x1b[0m`);
+  return lines.join("\r\n");
+}
+
+/** Save a file from its arguments, or from `input` when used as a pipe consumer. */
+async function handleWrite(args: string[], input?: string): Promise<string> {
+  const append = args[0] === "-a";
+  const [target, ...words] = append ? args.slice(1) : args;
+  if (!target || (words.length === 0 && input === undefined)) {
+    throw new CommandError("Usage: write [-a] <name> <text...> (see write --help)");
+  }
+  if (words.length > 0 && input !== undefined) {
+    throw new CommandError("write: takes its text from arguments or from a pipe, not both");
+  }
+
+  const ref = storedFileArg(target);
+  if (!ref) {
+    throw new CommandError(`write: ${target}: can only write to ~/scripts/<name> or ~/tmp/<name>`);
+  }
+  const count = await writeStoredFile(ref, input ?? words.join(" "), append, "write");
+  return `\x1b[32m\u2713 Saved ~/${ref.dir}/${ref.name} (${count} ${count === 1 ? "line" : "lines"})\x1b[0m`;
+}
+
+async function handleRm(args: string[]): Promise<string> {
+  if (args.length === 0) {
+    throw new CommandError("Usage: rm <name>... (see rm --help)");
+  }
+
+  const errors: string[] = [];
+  for (const target of args) {
+    const ref = storedFileArg(target);
+    if (!ref) {
+      errors.push(`rm: ${target}: only files in ~/scripts and ~/tmp can be removed`);
+    } else if (!(await ref.store.remove(ref.name))) {
+      errors.push(`rm: ${target}: No such file`);
+    }
+  }
+  if (errors.length > 0) throw new CommandError(errors.join("\r\n"));
+  return "";
+}
+
+/**
+ * Apply `> target` / `>> target`: the stdout goes into a ~/tmp file instead
+ * of the terminal. Stderr and the status pass through unchanged.
+ */
+async function redirectStdout(result: CommandResult, redirection: Redirection, vars: Record<string, string>): Promise<CommandResult> {
+  try {
+    const words = await parseCommandLine(redirection.target, vars);
+    if (words.length !== 1) {
+      throw new CommandError(`domshell: ${redirection.target}: ambiguous redirect`);
+    }
+    const ref = resolveStoredPath(words[0]);
+    if (!ref || ref.dir !== "tmp") {
+      throw new CommandError(`domshell: ${words[0]}: can only redirect to ~/tmp/<name>`);
+    }
+    await writeStoredFile(ref, result.stdout, redirection.append, "domshell");
+  } catch (err: any) {
+    const failure = errorResult(err);
+    return { ...failure, stderr: [result.stderr, failure.stderr].filter(Boolean).join("\r\n") };
+  }
+  return { ...result, stdout: "" };
+}
+
+/**
+ * Run a text filter over the stored file named by its last argument
+ * (`head -n 5 ~/tmp/links.txt`), or return null if that is not a stored file.
+ */
+async function runFilterOnFile(cmd: string, args: string[]): Promise<CommandResult | null> {
+  const minArgs = cmd === "grep" ? 2 : 1;   // grep needs its pattern first
+  const target = args[args.length - 1];
+  const ref = args.length >= minArgs ? resolveStoredPath(target) : null;
+  if (!ref) return null;
+
+  const file = await readStoredFile(ref, cmd, target);
+  try {
+    const { output, status } = runPipeFilter(cmd, args.slice(0, -1), file.content);
+    return { stdout: output, stderr: "", status };
+  } catch (err: any) {
+    throw new CommandError(err.message);
+  }
+}
+
+// ---- run / set (saved scripts) ----
+
+/** A script being run: its positional parameters and whether a failure stops it. */
+interface ScriptFrame {
+  name: string;
+  args: string[];
+  errexit: boolean;
+  function?: string;   // Set for a shell function call, which only has its own $1..$n
+}
+
+/** Guards against a script that (indirectly) runs itself. */
+const MAX_SCRIPT_DEPTH = 8;
+
+/**
+ * Run a saved script one unit (see splitScript) at a time through
+ * executeCommand, collecting a transcript of each unit and its output.
+ * Stops at the first failing unit unless the script said `set +e`.
+ */
+async function handleRun(args: string[]): Promise<CommandResult> {
+  if (args.length === 0) {
+    throw new CommandError("Usage: run <name> [args...] (see run --help)", 2);
+  }
+
+  const [target, ...params] = args;
+  const ref = storedFileArg(target);
+  const file = ref ? await ref.store.read(ref.name) : null;
+  if (!file) {
+    throw new CommandError(`run: ${target}: No such script in ~/scripts`, 127);
+  }
+  if (scriptStack.filter((f) => !f.function).length >= MAX_SCRIPT_DEPTH) {
+    throw new CommandError(`run: ${file.name}: scripts nested more than ${MAX_SCRIPT_DEPTH} deep`);
+  }
+
+  const frame: ScriptFrame = { name: file.name, args: params, errexit: true };
+  const transcript: string[] = [];
+  let status = 0;
+  scriptStack.push(frame);
+  try {
+    for (const unit of splitScript(file.content)) {
+      transcript.push(unit.text.split("\n").map((line, i) => `\x1b[90m${i === 0 ? "+" : " "} ${line}\x1b[0m`).join("\r\n"));
+      const result = await executeCommand(unit.text);
+      const output = resultText(result);
+      if (output) transcript.push(output);
+      status = result.status;
+      if (status !== 0 && frame.errexit) {
+        const failure = errorResult(new CommandError(
+          `run: ${file.name}: line ${unit.line} exited with status ${status}; stopping (use 'set +e' to continue past failures)`,
+          status,
+        ));
+        return { ...failure, stdout: transcript.join("\r\n") };
+      }
+    }
+  } finally {
+    scriptStack.pop();
+  }
+  return { stdout: transcript.join("\r\n"), stderr: "", status };
+}
+
+function handleSet(args: string[]): string {
+  const frame = [...scriptStack].reverse().find((f) => !f.function);
+  if (!frame) {
+    throw new CommandError("set: only valid inside a script (see run --help)");
+  }
+  for (const arg of args) {
+    if (arg === "-e") {
+      frame.errexit = true;
+    } else if (arg === "+e") {
+      frame.errexit = false;
+    } else {
+      throw new CommandError(`set: ${arg}: unsupported option (use -e or +e)`, 2);
+    }
+  }
+  return "";
+}
+
 // ---- navigate / open ----
 
-async function handleNavigate(args: string[]): Promise<string> {
+async function handleNavigate(args: string[]): Promise<string | CommandResult> {
   if (args.length === 0) {
-    return "\x1b[31mUsage: navigate <url> (see navigate --help)\x1b[0m";
+    throw new CommandError("Usage: navigate <url> (see navigate --help)");
   }
 
   ensureInsideTab();
@@ -2644,13 +5458,18 @@ async function handleNavigate(args: string[]): Promise<string> {
       "",
     ].join("\r\n");
   } catch (err: any) {
-    return `\x1b[32m\u2713 Navigated to ${url}\x1b[0m\r\n\x1b[31mRe-attach failed: ${err.message}\x1b[0m`;
+    // The page did load — report that, but fail since the shell can't see it
+    return {
+      stdout: `\x1b[32m\u2713 Navigated to ${url}\x1b[0m`,
+      stderr: `\x1b[31mRe-attach failed: ${err.message}\x1b[0m`,
+      status: 1,
+    };
   }
 }
 
-async function handleOpen(args: string[]): Promise<string> {
+async function handleOpen(args: string[]): Promise<string | CommandResult> {
   if (args.length === 0) {
-    return "\x1b[31mUsage: open <url> (see open --help)\x1b[0m";
+    throw new CommandError("Usage: open <url> (see open --help)");
   }
 
   let url = args[0];
@@ -2660,7 +5479,7 @@ async function handleOpen(args: string[]): Promise<string> {
 
   // Create new tab
   const tab = await chrome.tabs.create({ url, active: true });
-  if (!tab.id) return "\x1b[31mError: Failed to create tab.\x1b[0m";
+  if (!tab.id) throw new CommandError("Error: Failed to create tab.");
 
   // Wait for load
   await new Promise<void>((resolve) => {
@@ -2695,7 +5514,11 @@ async function handleOpen(args: string[]): Promise<string> {
   } catch (err: any) {
     // Still set path even if attach fails
     state.path = ["tabs", String(tab.id)];
-    return `\x1b[32m\u2713 Opened ${url}\x1b[0m\r\n\x1b[31mAttach failed: ${err.message}\x1b[0m`;
+    return {
+      stdout: `\x1b[32m\u2713 Opened ${url}\x1b[0m`,
+      stderr: `\x1b[31mAttach failed: ${err.message}\x1b[0m`,
+      status: 1,
+    };
   }
 }
 
@@ -2712,7 +5535,7 @@ function handleConnect(args: string[]): string {
     if (wsEnabled && wsToken) {
       return `\x1b[33mConnecting\x1b[0m to MCP server on port ${wsPort}... (waiting for server)\r\nRun \x1b[33mdisconnect\x1b[0m to cancel.`;
     }
-    return "\x1b[31mUsage: connect <token> (see connect --help)\x1b[0m";
+    throw new CommandError("Usage: connect <token> (see connect --help)");
   }
 
   const token = pa.positional[0];
@@ -2785,6 +5608,10 @@ async function handleDebug(args: string[]): Promise<string> {
       `  Generic nodes:    ${genericCount}`,
       `  With children:    ${withChildrenCount}`,
       `  Iframes:          ${iframeCount}`,
+      `  OOPIF sessions:   ${cdp.frameSessionCount}`,
+      `  Named nodes:      ${nameRegistries.get(state.activeTabId!)?.size ?? 0}`,
+      `  Full reads:       ${treeUpdateStats.fullReads} (${treeUpdateStats.nodesRead} nodes refetched)`,
+      `  Patches:          ${treeUpdateStats.patches} (${treeUpdateStats.nodesPatched} nodes patched, ${treeUpdateStats.nodesDropped} dropped)`,
       `  CWD node ID:      ${currentId}`,
       `  CWD role:         ${currentNode?.role?.value ?? "?"}`,
       `  CWD name:         ${currentNode?.name?.value ?? "(none)"}`,
@@ -2818,9 +5645,9 @@ async function handleDebug(args: string[]): Promise<string> {
 
   if (sub === "node") {
     const nodeId = args[1];
-    if (!nodeId) return "\x1b[31mUsage: debug node <nodeId>\x1b[0m";
+    if (!nodeId) throw new CommandError("Usage: debug node <nodeId>");
     const node = nodeMap.get(nodeId);
-    if (!node) return `\x1b[31mNode ${nodeId} not found\x1b[0m`;
+    if (!node) throw new CommandError(`Node ${nodeId} not found`);
 
     return [
       `\x1b[1;36m--- Node ${nodeId} ---\x1b[0m`,
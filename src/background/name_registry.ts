@@ -0,0 +1,62 @@
+import type { AXNode, StableAttributes } from "../shared/types.ts";
+
+/**
+ * Per-tab memory of the filenames given to AX nodes. Names are derived from
+ * the node's label and its position among same-named siblings, and both can
+ * shift when the page re-renders (a new "Edit" button turns the old edit_btn
+ * into edit_btn_2). The registry remembers which name each node got, so a
+ * node keeps it across tree refreshes for as long as it still exists and its
+ * label hasn't changed.
+ */
+
+interface RegisteredName {
+  base: string;   // Name generated from the node's label, before de-duplication
+  name: string;   // Name handed out (base, or base with a suffix)
+}
+
+/**
+ * Key identifying a node across AX tree fetches: its backend DOM node ID,
+ * which lives as long as the DOM node does (qualified by the session of an
+ * out-of-process iframe, whose IDs are numbered separately). AX-only nodes
+ * fall back to their AX node ID.
+ */
+export function nodeKey(node: AXNode): string {
+  if (node.backendDOMNodeId === undefined) return `ax:${node.nodeId}`;
+  return node.sessionId ? `dom:${node.sessionId}:${node.backendDOMNodeId}` : `dom:${node.backendDOMNodeId}`;
+}
+
+export class NameRegistry {
+  private attributes = new Map<number, StableAttributes>();
+  private names = new Map<string, RegisteredName>();
+
+  /**
+   * Take in a freshly fetched tree and the DOM attributes of its elements.
+   * Names of nodes that no longer exist are forgotten.
+   */
+  update(nodeMap: Map<string, AXNode>, attributes: Map<number, StableAttributes>): void {
+    this.attributes = attributes;
+    const live = new Set<string>();
+    for (const node of nodeMap.values()) live.add(nodeKey(node));
+    for (const key of this.names.keys()) {
+      if (!live.has(key)) this.names.delete(key);
+    }
+  }
+
+  /** Attributes come from the tab's own document; out-of-process iframes have none. */
+  attributesOf(node: AXNode): StableAttributes | undefined {
+    return node.backendDOMNodeId !== undefined && !node.sessionId ? this.attributes.get(node.backendDOMNodeId) : undefined;
+  }
+
+  lookup(node: AXNode): RegisteredName | undefined {
+    return this.names.get(nodeKey(node));
+  }
+
+  remember(node: AXNode, base: string, name: string): void {
+    this.names.set(nodeKey(node), { base, name });
+  }
+
+  /** Number of nodes with a remembered name (for debug stats). */
+  get size(): number {
+    return this.names.size;
+  }
+}
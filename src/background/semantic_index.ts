@@ -0,0 +1,65 @@
+import type { AXNode, IndexEntry, VFSNode } from "../shared/types.ts";
+import { getChildVFSNodes, namesMatch } from "./vfs_mapper.ts";
+
+/**
+ * Index directories under every tab root (~/tabs/<id>/@headings/, @links/,
+ * ...): one kind of element from anywhere in the page, gathered from the AX
+ * tree in one listing. Entries are symlinks to the elements' real paths, so
+ * `cd @tables/table_4091` lands in the table itself.
+ */
+
+/** Index directory -> the AX roles it gathers. */
+export const INDEX_MOUNTS = new Map<string, Set<string>>([
+  ["@headings", new Set(["heading"])],
+  ["@forms", new Set(["form"])],
+  ["@landmarks", new Set(["banner", "navigation", "main", "complementary", "contentinfo", "region", "search", "form"])],
+  ["@links", new Set(["link"])],
+  ["@images", new Set(["image", "img", "figure"])],
+  ["@tables", new Set(["table", "grid", "treegrid"])],
+  ["@dialogs", new Set(["dialog", "alertdialog"])],
+]);
+
+/**
+ * The entries of an index directory, in document order. Each is named like
+ * the element it points to; a name that repeats elsewhere in the page gets
+ * _2, _3, ... Walks the whole tree below `rootId` (the tab root).
+ */
+export function buildIndex(mount: string, rootId: string, nodeMap: Map<string, AXNode>): IndexEntry[] {
+  const roles = INDEX_MOUNTS.get(mount);
+  if (!roles) return [];
+
+  const entries: IndexEntry[] = [];
+  const counts = new Map<string, number>();
+  const visited = new Set<string>();
+
+  const walk = (parentId: string, chain: VFSNode[]): void => {
+    if (visited.has(parentId)) return;
+    visited.add(parentId);
+    for (const child of getChildVFSNodes(parentId, nodeMap)) {
+      const childChain = [...chain, child];
+      if (roles.has(child.role)) {
+        const count = (counts.get(child.name) ?? 0) + 1;
+        counts.set(child.name, count);
+        entries.push({
+          name: count === 1 ? child.name : `${child.name}_${count}`,
+          chain: childChain,
+          level: mount === "@headings" ? Math.max(child.states?.level ?? 1, 1) : 1,
+        });
+      }
+      if (child.isDirectory) walk(child.axNodeId, childChain);
+    }
+  };
+
+  walk(rootId, []);
+  return entries;
+}
+
+/** The entry an index name refers to: an exact match, else the native or romanized spelling. */
+export function findIndexEntry(entries: IndexEntry[], name: string): IndexEntry | null {
+  return entries.find((e) => e.name === name) ?? entries.find((e) => namesMatch(e.name, name)) ?? null;
+}
+
+/** Path of an entry's element from the tab root (main/article/table_4091). */
+export function indexEntryPath(entry: IndexEntry): string {
+  return entry.chain.map((n) => n.name).join("/");
+}
@@ -0,0 +1,335 @@
+/**
+ * Structure of a command line above the level of single words: pipe stages,
+ * output redirection, statements joined by ;, newlines, && or ||, and the compound commands
+ * `for NAME in WORDS; do ...; done`, `while ...; do ...; done` and
+ * `if ...; then ...; [elif ...; then ...;] [else ...;] fi`, plus function
+ * definitions `name() { ...; }`.
+ * Word splitting and expansion stay in the kernel's parseCommandLine, which
+ * needs to run commands for $(...).
+ */
+
+/** How a statement joins the one before it: always, only after success, only after failure. */
+export type Connector = ";" | "&&" | "||";
+
+export interface ShellStatement {
+  connector: Connector;
+  node: ShellNode;
+}
+
+export type ShellNode =
+  | { kind: "command"; text: string }
+  | { kind: "for"; variable: string; words: string; body: ShellStatement[] }
+  | { kind: "while"; condition: ShellStatement[]; body: ShellStatement[] }
+  | { kind: "if"; branches: Array<{ condition: ShellStatement[]; body: ShellStatement[] }>; elseBody: ShellStatement[] }
+  | { kind: "function"; name: string; body: ShellStatement[] };
+
+/** Words that open or close a compound command when they start a statement. */
+const KEYWORDS = new Set(["for", "while", "if", "do", "done", "then", "elif", "else", "fi", "{", "}"]);
+
+/** Start of a function definition: `name()` or `name ()`, then the rest of the statement. */
+const FUNCTION_HEADER = /^([A-Za-z_][A-Za-z0-9_.-]*)\s*\(\s*\)\s*([\s\S]*)$/;
+
+/** Split a pipeline into its stages. Quoted text and $(...) bodies never split. */
+export function splitOnPipe(input: string): string[] {
+  return splitTopLevel(input, ["|"]).map((segment) => segment.text).filter(Boolean);
+}
+
+/** A trailing `> target` (replace) or `>> target` (append) on a pipeline. */
+export interface Redirection {
+  command: string;
+  target: string;
+  append: boolean;
+}
+
+/**
+ * Split a trailing redirection off a pipeline, or return null if it has none.
+ * Only one > or >> (outside quotes and $(...)) is allowed; the target is
+ * everything after it, still unexpanded.
+ */
+export function splitRedirection(input: string): Redirection | null {
+  const segments = splitTopLevel(input, [">>", ">"]);
+  if (segments.length === 1) return null;
+  if (segments.length > 2) {
+    throw new Error("syntax error: only one output redirection is supported");
+  }
+  const [command, target] = segments;
+  if (!target.text) {
+    throw new Error(`syntax error near unexpected token '${command.separator}'`);
+  }
+  return { command: command.text, target: target.text, append: command.separator === ">>" };
+}
+
+/**
+ * Index of the ")" closing the "$(" at input[start], honouring quotes and
+ * nested substitutions, or -1 if it is never closed.
+ */
+export function findSubstitutionEnd(input: string, start: number): number {
+  let inQuote: string | null = null;
+  for (let i = start + 2; i < input.length; i++) {
+    const char = input[i];
+    if (inQuote === "'") {
+      if (char === "'") inQuote = null;
+    } else if (char === "$" && input[i + 1] === "(") {
+      i = findSubstitutionEnd(input, i);
+      if (i === -1) return -1;
+    } else if (inQuote) {
+      if (char === inQuote) inQuote = null;
+    } else if (char === '"' || char === "'") {
+      inQuote = char;
+    } else if (char === ")") {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parse a full command line (or multi-line script) into a list of statements.
+ * Throws `syntax error: ...` for unbalanced or misplaced keywords.
+ */
+export function parseScript(input: string): ShellStatement[] {
+  const segments = splitTopLevel(input, ["&&", "||", ";", "\n"]);
+
+  // Each statement takes the separator that preceded it; newlines and ; both mean "then"
+  const statements: PendingStatement[] = [];
+  let connector: Connector = ";";
+  for (const { text, separator } of segments) {
+    if (!text) {
+      if (!separator) break;   // End of input: a dangling && / || is reported below
+      if (separator === "\n") continue;   // Blank line, or a line break after && / ||
+      if (connector !== ";" || separator === "&&" || separator === "||") {
+        throw new Error(`syntax error near unexpected token '${connector !== ";" ? connector : separator}'`);
+      }
+    } else {
+      statements.push({ connector, text });
+    }
+    connector = separator === "&&" || separator === "||" ? separator : ";";
+  }
+  if (connector !== ";") {
+    throw new IncompleteInputError(`syntax error: unexpected end of input after '${connector}'`);
+  }
+
+  const reader = new StatementReader(statements);
+  const list = parseList(reader, []);
+  if (!reader.atEnd()) {
+    throw new Error(`syntax error near unexpected token '${reader.peekWord()}'`);
+  }
+  return list;
+}
+
+/**
+ * Split a saved script into the units it runs as, each a complete command
+ * line: a compound command or a line ending in && / || continues onto the
+ * following lines. Blank lines and full-line # comments (including #!) are
+ * skipped. `line` is the 1-based line the unit starts on. Units that never
+ * complete are returned as-is so running them reports the syntax error.
+ */
+export function splitScript(source: string): Array<{ line: number; text: string }> {
+  const units: Array<{ line: number; text: string }> = [];
+  let pending: { line: number; text: string } | null = null;
+  const lines = source.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+    if (!trimmed || trimmed.startsWith("#")) continue;
+    pending = pending ? { line: pending.line, text: `${pending.text}\n${trimmed}` } : { line: i + 1, text: trimmed };
+    try {
+      parseScript(pending.text);
+    } catch (err) {
+      if (err instanceof IncompleteInputError) continue;
+    }
+    units.push(pending);
+    pending = null;
+  }
+  if (pending) units.push(pending);
+  return units;
+}
+
+/**
+ * Render statements back to source on one line, joined by ; && and ||.
+ * Used to store a function body and to show it again (`alias`).
+ */
+export function formatStatements(statements: ShellStatement[]): string {
+  return statements
+    .map(({ connector, node }, i) => (i === 0 ? "" : connector === ";" ? "; " : ` ${connector} `) + formatNode(node))
+    .join("");
+}
+
+function formatNode(node: ShellNode): string {
+  switch (node.kind) {
+    case "command":
+      return node.text;
+    case "for":
+      return `for ${node.variable} in${node.words ? ` ${node.words}` : ""}; do ${formatStatements(node.body)}; done`;
+    case "while":
+      return `while ${formatStatements(node.condition)}; do ${formatStatements(node.body)}; done`;
+    case "if": {
+      const branches = node.branches.map((b, i) =>
+        `${i === 0 ? "if" : "elif"} ${formatStatements(b.condition)}; then ${formatStatements(b.body)}; `);
+      const elseBody = node.elseBody.length > 0 ? `else ${formatStatements(node.elseBody)}; ` : "";
+      return `${branches.join("")}${elseBody}fi`;
+    }
+    case "function":
+      return `${node.name}() { ${formatStatements(node.body)}; }`;
+  }
+}
+
+// ---- Internals ----
+
+/** Syntax error that more input could fix (an open compound command or trailing operator). */
+class IncompleteInputError extends Error {}
+
+interface PendingStatement {
+  connector: Connector;
+  text: string;
+}
+
+/**
+ * Split on any of `separators` (tried in order, so longer operators go first)
+ * outside quotes and $(...). Each segment records the separator that ended it
+ * ("" for the last one); empty segments are kept so callers can reject "a && && b".
+ */
+function splitTopLevel(input: string, separators: string[]): Array<{ text: string; separator: string }> {
+  const segments: Array<{ text: string; separator: string }> = [];
+  let current = "";
+  let inQuote: string | null = null;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    const separator = inQuote ? undefined : separators.find((sep) => input.startsWith(sep, i));
+    if (char === "$" && input[i + 1] === "(" && inQuote !== "'") {
+      // A $(...) body is copied verbatim: its separators belong to the inner command
+      const end = findSubstitutionEnd(input, i);
+      const stop = end === -1 ? input.length - 1 : end;
+      current += input.slice(i, stop + 1);
+      i = stop;
+    } else if (inQuote) {
+      current += char;
+      if (char === inQuote) inQuote = null;
+    } else if (char === '"' || char === "'") {
+      inQuote = char;
+      current += char;
+    } else if (separator) {
+      segments.push({ text: current.trim(), separator });
+      current = "";
+      i += separator.length - 1;
+    } else {
+      current += char;
+    }
+  }
+  segments.push({ text: current.trim(), separator: "" });
+  return segments;
+}
+
+/** Queue of statements; a keyword may share its statement with a command ("do cat $x"). */
+class StatementReader {
+  constructor(private statements: PendingStatement[]) {}
+
+  atEnd(): boolean {
+    return this.statements.length === 0;
+  }
+
+  /** First word of the next statement, or "" at the end. */
+  peekWord(): string {
+    return this.statements[0]?.text.split(/\s+/)[0] ?? "";
+  }
+
+  next(): PendingStatement {
+    return this.statements.shift() ?? { connector: ";", text: "" };
+  }
+
+  /** Put text back as the next statement (e.g. the command after "do"). */
+  pushBack(text: string): void {
+    if (text.trim()) this.statements.unshift({ connector: ";", text: text.trim() });
+  }
+
+  /** Consume `keyword` and push back anything that followed it in the same statement. */
+  expect(keyword: string, context: string): void {
+    if (this.peekWord() !== keyword) {
+      if (this.atEnd()) {
+        throw new IncompleteInputError(`syntax error: expected '${keyword}' in ${context}, found end of input`);
+      }
+      throw new Error(`syntax error: expected '${keyword}' in ${context}, found '${this.peekWord()}'`);
+    }
+    const rest = this.next().text.slice(keyword.length);
+    if ((keyword === "done" || keyword === "fi" || keyword === "}") && rest.trim()) {
+      throw new Error(`syntax error: unexpected '${rest.trim()}' after '${keyword}'`);
+    }
+    this.pushBack(rest);
+  }
+}
+
+function parseList(reader: StatementReader, terminators: string[]): ShellStatement[] {
+  const list: ShellStatement[] = [];
+  while (!reader.atEnd() && !terminators.includes(reader.peekWord())) {
+    list.push(parseStatement(reader));
+  }
+  return list;
+}
+
+function parseStatement(reader: StatementReader): ShellStatement {
+  const { connector, text } = reader.next();
+  const header = text.match(FUNCTION_HEADER);
+  if (header) {
+    reader.pushBack(header[2]);
+    reader.expect("{", `function '${header[1]}'`);
+    const body = parseList(reader, ["}"]);
+    reader.expect("}", `function '${header[1]}'`);
+    if (body.length === 0) {
+      throw new Error(`syntax error: function '${header[1]}' has an empty body`);
+    }
+    return { connector, node: { kind: "function", name: header[1], body } };
+  }
+
+  const word = text.split(/\s+/)[0];
+  const rest = text.slice(word.length).trim();
+  if (!KEYWORDS.has(word)) return { connector, node: { kind: "command", text } };
+
+  switch (word) {
+    case "for": {
+      const m = rest.match(/^([A-Za-z_][A-Za-z0-9_]*)\s+in(?:\s+([\s\S]*))?$/);
+      if (!m) throw new Error("syntax error: expected 'for NAME in WORDS; do ...; done'");
+      reader.expect("do", "for");
+      const body = parseList(reader, ["done"]);
+      reader.expect("done", "for");
+      return { connector, node: { kind: "for", variable: m[1], words: m[2] ?? "", body } };
+    }
+    case "while": {
+      const condition = parseCondition(reader, rest, "while", "do");
+      reader.expect("do", "while");
+      const body = parseList(reader, ["done"]);
+      reader.expect("done", "while");
+      return { connector, node: { kind: "while", condition, body } };
+    }
+    case "if": {
+      const branches: Array<{ condition: ShellStatement[]; body: ShellStatement[] }> = [];
+      let header = rest;
+      let keyword = "if";
+      for (;;) {
+        const condition = parseCondition(reader, header, keyword, "then");
+        reader.expect("then", keyword);
+        branches.push({ condition, body: parseList(reader, ["elif", "else", "fi"]) });
+        if (reader.peekWord() !== "elif") break;
+        keyword = "elif";
+        header = reader.next().text.slice("elif".length);
+      }
+      let elseBody: ShellStatement[] = [];
+      if (reader.peekWord() === "else") {
+        reader.expect("else", "if");
+        elseBody = parseList(reader, ["fi"]);
+      }
+      reader.expect("fi", "if");
+      return { connector, node: { kind: "if", branches, elseBody } };
+    }
+    default:
+      throw new Error(`syntax error near unexpected token '${word}'`);
+  }
+}
+
+/** Condition of while/if/elif: the rest of the header plus any statements before `terminator`. */
+function parseCondition(reader: StatementReader, header: string, keyword: string, terminator: string): ShellStatement[] {
+  reader.pushBack(header);
+  const condition = parseList(reader, [terminator]);
+  if (condition.length === 0) {
+    throw new Error(`syntax error: '${keyword}' needs a condition before '${terminator}'`);
+  }
+  return condition;
+}
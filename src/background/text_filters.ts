@@ -0,0 +1,579 @@
+/**
+ * Text filters for the right-hand side of a pipe (e.g. `find --meta | grep docs | sort | head`).
+ * Each filter receives the previous stage's output and returns the transformed output.
+ * Filters that only select or reorder lines (grep, head, tail, sort, uniq) keep ANSI
+ * colours intact; filters that rewrite text (cut, sed, tr, wc) work on the plain text.
+ */
+
+export const PIPE_FILTERS = ["grep", "head", "tail", "wc", "sort", "uniq", "cut", "sed", "tr"];
+
+export function isPipeFilter(name: string): boolean {
+  return PIPE_FILTERS.includes(name);
+}
+
+export function stripAnsi(str: string): string {
+  return str.replace(/\x1b\[[0-9;]*[a-zA-Z]/g, "");
+}
+
+/** Split command output into non-empty lines (accepts both \r\n and bare \n). */
+export function splitLines(output: string): string[] {
+  return output.split(/\r?\n/).filter(Boolean);
+}
+
+/** A filter's output and exit status: grep exits 1 when no line matched. */
+export interface FilterResult {
+  output: string;
+  status: number;
+}
+
+/**
+ * Run a single pipe filter over `input`. Throws an Error with a
+ * `<filter>: <reason>` message on bad usage.
+ */
+export function runPipeFilter(name: string, args: string[], input: string): FilterResult {
+  if (name === "grep") return grepFilter(args, splitLines(input));
+  return { output: transformLines(name, args, splitLines(input)), status: 0 };
+}
+
+function transformLines(name: string, args: string[], lines: string[]): string {
+  switch (name) {
+    case "head":
+      return lines.slice(0, parseLineCount("head", args, 10)).join("\r\n");
+    case "tail":
+      return tailFilter(args, lines);
+    case "wc":
+      return wcFilter(args, lines);
+    case "sort":
+      return sortFilter(args, lines).join("\r\n");
+    case "uniq":
+      return uniqFilter(args, lines).join("\r\n");
+    case "cut":
+      return cutFilter(args, lines).join("\r\n");
+    case "sed":
+      return sedFilter(args, lines).join("\r\n");
+    case "tr":
+      return trFilter(args, lines);
+    default:
+      throw new Error(`${name}: not a pipe filter`);
+  }
+}
+
+// ---- Option helpers ----
+
+function parseCount(cmd: string, value: string | undefined): number {
+  const n = value !== undefined ? parseInt(value, 10) : NaN;
+  if (isNaN(n) || n < 0) {
+    throw new Error(`${cmd}: invalid number of lines: '${value ?? ""}'`);
+  }
+  return n;
+}
+
+/** Accepts `-n N`, `-nN` and `-N`. */
+function parseLineCount(cmd: string, args: string[], fallback: number): number {
+  for (let i = 0; i < args.length; i++) {
+    const a = args[i];
+    if (a === "-n") return parseCount(cmd, args[i + 1]);
+    if (/^-n\d+$/.test(a)) return parseCount(cmd, a.slice(2));
+    if (/^-\d+$/.test(a)) return parseCount(cmd, a.slice(1));
+  }
+  return fallback;
+}
+
+/** Expand combined short flags: ["-rn", "-k", "2"] → flags {r, n}, rest ["-k", "2"]. */
+export function splitShortFlags(args: string[], known: string): { flags: Set<string>; rest: string[] } {
+  const flags = new Set<string>();
+  const rest: string[] = [];
+  for (const a of args) {
+    if (/^-[a-zA-Z]+$/.test(a) && [...a.slice(1)].every((c) => known.includes(c))) {
+      for (const c of a.slice(1)) flags.add(c);
+    } else {
+      rest.push(a);
+    }
+  }
+  return { flags, rest };
+}
+
+// ---- Matching engine (shared by piped grep and the tree grep/find commands) ----
+
+export interface MatchOptions {
+  regex: boolean;          // -E: pattern is a regular expression (default: literal substring)
+  caseSensitive: boolean;  // -I: match case (default: case-insensitive, or -i)
+  invert: boolean;         // -v: select non-matching lines/elements
+}
+
+export interface Matcher {
+  readonly invert: boolean;
+  /** True if the pattern occurs in `text` (invert is NOT applied). */
+  found(text: string): boolean;
+  /** Every non-empty substring of `text` matched by the pattern (for -o). */
+  extract(text: string): string[];
+}
+
+/** Read the matching flags out of a parsed flag set (-E, -v, -i, -I). */
+export function matchOptionsFromFlags(flags: Set<string>): MatchOptions {
+  return {
+    regex: flags.has("-E"),
+    caseSensitive: flags.has("-I") && !flags.has("-i"),
+    invert: flags.has("-v"),
+  };
+}
+
+export function createMatcher(pattern: string, options: MatchOptions): Matcher {
+  const source = options.regex ? pattern : pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  let re: RegExp;
+  try {
+    re = new RegExp(source, options.caseSensitive ? "g" : "gi");
+  } catch (err: any) {
+    throw new Error(`invalid regular expression '${pattern}': ${err.message}`);
+  }
+
+  return {
+    invert: options.invert,
+    found(text: string): boolean {
+      re.lastIndex = 0;
+      return re.test(text);
+    },
+    extract(text: string): string[] {
+      return (text.match(re) ?? []).filter(Boolean);
+    },
+  };
+}
+
+/**
+ * Expand grep -A/-B context around selected entries. Returns the indices to
+ * print in order, with null marking a "--" gap between non-adjacent groups.
+ */
+export function withContext(selected: boolean[], before: number, after: number): Array<number | null> {
+  const keep = new Array<boolean>(selected.length).fill(false);
+  selected.forEach((isSelected, i) => {
+    if (!isSelected) return;
+    for (let j = Math.max(0, i - before); j <= Math.min(selected.length - 1, i + after); j++) {
+      keep[j] = true;
+    }
+  });
+
+  const out: Array<number | null> = [];
+  let last = -1;
+  keep.forEach((k, i) => {
+    if (!k) return;
+    if (last !== -1 && i > last + 1 && (before > 0 || after > 0)) out.push(null);
+    out.push(i);
+    last = i;
+  });
+  return out;
+}
+
+// ---- grep ----
+
+function grepFilter(args: string[], lines: string[]): FilterResult {
+  const { flags: short, rest } = splitShortFlags(args, "EvicoI");
+  const flags = new Set([...short].map((c) => "-" + c));
+
+  let limit = 0;
+  let before = 0;
+  let after = 0;
+  let pattern: string | null = null;
+  for (let i = 0; i < rest.length; i++) {
+    const a = rest[i];
+    if (a === "-n") limit = parseCount("grep", rest[++i]);
+    else if (a === "-A") after = parseCount("grep", rest[++i]);
+    else if (a === "-B") before = parseCount("grep", rest[++i]);
+    else if (a === "-C") before = after = parseCount("grep", rest[++i]);
+    else if (a === "-e") pattern = rest[++i] ?? "";
+    else if (a.startsWith("-") && a.length > 1) throw new Error(`grep: unknown option '${a}'`);
+    else if (pattern === null) pattern = a;
+  }
+  if (pattern === null) throw new Error("grep: missing pattern");
+
+  let matcher: Matcher;
+  try {
+    matcher = createMatcher(pattern, matchOptionsFromFlags(flags));
+  } catch (err: any) {
+    throw new Error(`grep: ${err.message}`);
+  }
+
+  // Select lines (stopping after -n N matches)
+  const selected = new Array<boolean>(lines.length).fill(false);
+  let matchCount = 0;
+  for (let i = 0; i < lines.length; i++) {
+    if (limit > 0 && matchCount >= limit) break;
+    if (matcher.found(stripAnsi(lines[i])) !== matcher.invert) {
+      selected[i] = true;
+      matchCount++;
+    }
+  }
+
+  const status = matchCount > 0 ? 0 : 1;
+  if (flags.has("-c")) return { output: String(matchCount), status };
+  if (matchCount === 0) return { output: "", status };
+
+  if (flags.has("-o")) {
+    if (matcher.invert) return { output: "", status };
+    const output = lines
+      .filter((_, i) => selected[i])
+      .flatMap((line) => matcher.extract(stripAnsi(line)))
+      .join("\r\n");
+    return { output, status };
+  }
+
+  const output = withContext(selected, before, after)
+    .map((i) => (i === null ? "\x1b[90m--\x1b[0m" : lines[i]))
+    .join("\r\n");
+  return { output, status };
+}
+
+// ---- tail ----
+
+function tailFilter(args: string[], lines: string[]): string {
+  // tail -n +N starts output at line N (1-based)
+  const idx = args.indexOf("-n");
+  if (idx !== -1 && args[idx + 1]?.startsWith("+")) {
+    const start = parseCount("tail", args[idx + 1].slice(1));
+    return lines.slice(Math.max(start - 1, 0)).join("\r\n");
+  }
+  const n = parseLineCount("tail", args, 10);
+  return n === 0 ? "" : lines.slice(-n).join("\r\n");
+}
+
+// ---- wc ----
+
+function wcFilter(args: string[], lines: string[]): string {
+  const { flags, rest } = splitShortFlags(args, "lwc");
+  if (rest.length > 0) throw new Error(`wc: unknown option '${rest[0]}'`);
+
+  const plain = lines.map(stripAnsi);
+  const counts: Record<string, number> = {
+    l: plain.length,
+    w: plain.reduce((sum, l) => sum + l.split(/\s+/).filter(Boolean).length, 0),
+    c: plain.reduce((sum, l) => sum + l.length + 1, 0),
+  };
+
+  const selected = flags.size > 0 ? ["l", "w", "c"].filter((f) => flags.has(f)) : ["l", "w", "c"];
+  if (selected.length === 1) return String(counts[selected[0]]);
+  return selected.map((f) => String(counts[f]).padStart(7)).join(" ");
+}
+
+// ---- sort ----
+
+function sortFilter(args: string[], lines: string[]): string[] {
+  const { flags, rest } = splitShortFlags(args, "rnuf");
+  let keyField = 0;
+  for (let i = 0; i < rest.length; i++) {
+    if (rest[i] === "-k") {
+      keyField = parseCount("sort", rest[++i]);
+    } else if (/^-k\d+$/.test(rest[i])) {
+      keyField = parseCount("sort", rest[i].slice(2));
+    } else {
+      throw new Error(`sort: unknown option '${rest[i]}'`);
+    }
+  }
+
+  const keyOf = (line: string): string => {
+    let key = stripAnsi(line).trim();
+    if (keyField > 0) key = key.split(/\s+/).slice(keyField - 1).join(" ");
+    return flags.has("f") ? key.toLowerCase() : key;
+  };
+
+  const compare = (a: string, b: string): number => {
+    const ka = keyOf(a);
+    const kb = keyOf(b);
+    if (flags.has("n")) {
+      const diff = (parseFloat(ka) || 0) - (parseFloat(kb) || 0);
+      if (diff !== 0) return diff;
+    }
+    return ka < kb ? -1 : ka > kb ? 1 : 0;
+  };
+
+  let sorted = [...lines].sort(compare);
+  if (flags.has("r")) sorted.reverse();
+  if (flags.has("u")) {
+    sorted = sorted.filter((line, i) => i === 0 || compare(sorted[i - 1], line) !== 0);
+  }
+  return sorted;
+}
+
+// ---- uniq ----
+
+function uniqFilter(args: string[], lines: string[]): string[] {
+  const { flags, rest } = splitShortFlags(args, "cdui");
+  if (rest.length > 0) throw new Error(`uniq: unknown option '${rest[0]}'`);
+
+  const keyOf = (line: string): string => {
+    const plain = stripAnsi(line);
+    return flags.has("i") ? plain.toLowerCase() : plain;
+  };
+
+  // Collapse adjacent duplicates only, as POSIX uniq does — pipe through sort first
+  const groups: Array<{ line: string; count: number }> = [];
+  for (const line of lines) {
+    const last = groups[groups.length - 1];
+    if (last && keyOf(last.line) === keyOf(line)) {
+      last.count++;
+    } else {
+      groups.push({ line, count: 1 });
+    }
+  }
+
+  return groups
+    .filter((g) => (!flags.has("d") || g.count > 1) && (!flags.has("u") || g.count === 1))
+    .map((g) => (flags.has("c") ? `${String(g.count).padStart(7)} ${g.line}` : g.line));
+}
+
+// ---- cut ----
+
+/** Parse a cut LIST like "1,3-5,7-" into a 1-based index predicate. */
+function parseCutList(list: string): (n: number) => boolean {
+  const ranges: Array<[number, number]> = [];
+  for (const part of list.split(",")) {
+    const m = part.match(/^(\d*)(-?)(\d*)$/);
+    if (!m || (!m[1] && !m[3])) throw new Error(`cut: invalid field list '${list}'`);
+    const start = m[1] ? parseInt(m[1], 10) : 1;
+    const end = m[2] ? (m[3] ? parseInt(m[3], 10) : Infinity) : start;
+    ranges.push([start, end]);
+  }
+  return (n) => ranges.some(([s, e]) => n >= s && n <= e);
+}
+
+function cutFilter(args: string[], lines: string[]): string[] {
+  let delimiter: string | null = null;
+  let fields: string | null = null;
+  let chars: string | null = null;
+
+  for (let i = 0; i < args.length; i++) {
+    const a = args[i];
+    if (a === "-d") delimiter = args[++i] ?? "";
+    else if (a.startsWith("-d")) delimiter = a.slice(2);
+    else if (a === "-f") fields = args[++i] ?? "";
+    else if (a.startsWith("-f")) fields = a.slice(2);
+    else if (a === "-c") chars = args[++i] ?? "";
+    else if (a.startsWith("-c")) chars = a.slice(2);
+    else throw new Error(`cut: unknown option '${a}'`);
+  }
+
+  if (delimiter !== null && delimiter.length !== 1) {
+    throw new Error("cut: the delimiter must be a single character");
+  }
+  if (chars !== null) {
+    const wanted = parseCutList(chars);
+    return lines.map((line) => [...stripAnsi(line)].filter((_, i) => wanted(i + 1)).join(""));
+  }
+  if (fields === null) throw new Error("cut: you must specify a list of fields (-f) or characters (-c)");
+
+  // Without -d, fields are separated by runs of whitespace (DOMShell output is space-aligned)
+  const wanted = parseCutList(fields);
+  return lines.map((line) => {
+    const plain = stripAnsi(line);
+    const parts = delimiter === null ? plain.trim().split(/\s+/) : plain.split(delimiter);
+    if (parts.length === 1) return plain;
+    return parts.filter((_, i) => wanted(i + 1)).join(delimiter ?? " ");
+  });
+}
+
+// ---- sed ----
+
+/**
+ * Translate a POSIX basic regular expression to JS RegExp source:
+ * \( \) \{ \} \+ \? \| become operators, bare ( ) { } + ? | are literals.
+ */
+export function breToRegExpSource(bre: string): string {
+  let out = "";
+  for (let i = 0; i < bre.length; i++) {
+    const c = bre[i];
+    if (c === "\\" && i + 1 < bre.length) {
+      const next = bre[++i];
+      out += "(){}+?|".includes(next) ? next : "\\" + next;
+    } else if ("(){}+?|".includes(c)) {
+      out += "\\" + c;
+    } else {
+      out += c;
+    }
+  }
+  return out;
+}
+
+/** Split `s/re/repl/flags` style text on an unescaped delimiter. */
+function splitOnDelimiter(text: string, delim: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === "\\" && text[i + 1] === delim) {
+      // An escaped delimiter is a literal; keep the backslash only when the delimiter is a regex metachar
+      current += (/[\\^$.*+?()[\]{}|\/]/.test(delim) ? "\\" : "") + delim;
+      i++;
+    } else if (c === "\\" && i + 1 < text.length) {
+      current += c + text[++i];
+    } else if (c === delim) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += c;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/** Convert a sed replacement (&, \1..\9, \n) to a String.replace replacement. */
+function toJsReplacement(repl: string): string {
+  let out = "";
+  for (let i = 0; i < repl.length; i++) {
+    const c = repl[i];
+    if (c === "\\" && i + 1 < repl.length) {
+      const next = repl[++i];
+      if (/\d/.test(next)) out += "$" + next;
+      else if (next === "n") out += "\n";
+      else if (next === "t") out += "\t";
+      else out += next === "$" ? "$$" : next;
+    } else if (c === "&") {
+      out += "$&";
+    } else if (c === "$") {
+      out += "$$";
+    } else {
+      out += c;
+    }
+  }
+  return out;
+}
+
+type SedCommand =
+  | { kind: "s"; regex: RegExp; replacement: string }
+  | { kind: "d"; regex: RegExp };
+
+function parseSedScript(script: string, extended: boolean): SedCommand {
+  const toSource = (re: string) => (extended ? re : breToRegExpSource(re));
+
+  // /re/d — delete matching lines
+  const del = script.match(/^\/(.*)\/d$/);
+  if (del) {
+    try {
+      return { kind: "d", regex: new RegExp(toSource(del[1])) };
+    } catch (err: any) {
+      throw new Error(`sed: invalid regular expression: ${err.message}`);
+    }
+  }
+
+  if (script[0] === "s" && script.length > 1) {
+    const parts = splitOnDelimiter(script.slice(2), script[1]);
+    if (parts.length !== 3 || !/^[gi]*$/.test(parts[2])) {
+      throw new Error(`sed: unterminated or malformed 's' command: ${script}`);
+    }
+    const [pattern, repl, flags] = parts;
+    try {
+      return { kind: "s", regex: new RegExp(toSource(pattern), flags), replacement: toJsReplacement(repl) };
+    } catch (err: any) {
+      throw new Error(`sed: invalid regular expression: ${err.message}`);
+    }
+  }
+
+  throw new Error(`sed: unsupported command '${script}' (use s/regex/replacement/[gi] or /regex/d)`);
+}
+
+function sedFilter(args: string[], lines: string[]): string[] {
+  let extended = false;
+  const scripts: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const a = args[i];
+    if (a === "-E" || a === "-r") extended = true;
+    else if (a === "-e") scripts.push(args[++i] ?? "");
+    else scripts.push(a);
+  }
+  if (scripts.length === 0) throw new Error("sed: missing script (e.g. sed 's/old/new/g')");
+
+  const commands = scripts.map((s) => parseSedScript(s, extended));
+
+  const out: string[] = [];
+  for (const line of lines) {
+    let text: string | null = stripAnsi(line);
+    for (const c of commands) {
+      if (c.kind === "d") {
+        if (c.regex.test(text)) {
+          text = null;
+          break;
+        }
+      } else {
+        text = text.replace(c.regex, c.replacement);
+      }
+    }
+    if (text !== null) out.push(...text.split("\n"));
+  }
+  return out;
+}
+
+// ---- tr ----
+
+const TR_CLASSES: Record<string, string> = {
+  lower: "abcdefghijklmnopqrstuvwxyz",
+  upper: "ABCDEFGHIJKLMNOPQRSTUVWXYZ",
+  digit: "0123456789",
+  space: " \t\n\r\f\v",
+  alpha: "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ",
+  alnum: "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789",
+  punct: "!\"#$%&'()*+,-./:;<=>?@[\\]^_`{|}~",
+};
+
+const TR_ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r", "\\": "\\" };
+
+/** Expand a tr SET: escapes (\n, \t), ranges (a-z) and classes ([:upper:]). */
+function expandTrSet(set: string): string[] {
+  const chars: string[] = [];
+  let i = 0;
+  while (i < set.length) {
+    const cls = set.slice(i).match(/^\[:(\w+):\]/);
+    if (cls) {
+      const members = TR_CLASSES[cls[1]];
+      if (!members) throw new Error(`tr: invalid character class '${cls[1]}'`);
+      chars.push(...members);
+      i += cls[0].length;
+      continue;
+    }
+
+    let c = set[i];
+    if (c === "\\" && i + 1 < set.length) {
+      c = TR_ESCAPES[set[i + 1]] ?? set[i + 1];
+      i += 2;
+    } else {
+      i++;
+    }
+
+    if (set[i] === "-" && i + 1 < set.length) {
+      const end = set[i + 1];
+      if (end.charCodeAt(0) < c.charCodeAt(0)) throw new Error(`tr: range '${c}-${end}' is in reverse order`);
+      for (let code = c.charCodeAt(0); code <= end.charCodeAt(0); code++) {
+        chars.push(String.fromCharCode(code));
+      }
+      i += 2;
+    } else {
+      chars.push(c);
+    }
+  }
+  return chars;
+}
+
+function trFilter(args: string[], lines: string[]): string {
+  const { flags, rest } = splitShortFlags(args, "ds");
+  if (rest.length === 0) throw new Error("tr: missing operand (e.g. tr a-z A-Z)");
+
+  const set1 = expandTrSet(rest[0]);
+  const set2 = rest[1] !== undefined ? expandTrSet(rest[1]) : [];
+  if (!flags.has("d") && !flags.has("s") && set2.length === 0) {
+    throw new Error("tr: missing SET2 (use -d to delete characters)");
+  }
+
+  // tr works on the whole stream so that '\n' can be translated or deleted
+  const input = lines.map(stripAnsi).join("\n");
+  let output = "";
+  const squeezeSet = new Set(set2.length > 0 ? set2 : set1);
+  for (const ch of input) {
+    let mapped: string | null = ch;
+    const idx = set1.indexOf(ch);
+    if (idx !== -1) {
+      if (flags.has("d")) mapped = null;
+      else if (set2.length > 0) mapped = set2[Math.min(idx, set2.length - 1)];
+    }
+    if (mapped === null) continue;
+    if (flags.has("s") && squeezeSet.has(mapped) && output.endsWith(mapped)) continue;
+    output += mapped;
+  }
+  return output.split("\n").join("\r\n");
+}
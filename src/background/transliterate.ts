@@ -0,0 +1,139 @@
+/**
+ * Romanization of element names, for when typing the page's own script is
+ * impractical (export TRANSLIT=1), and so "privet_link" finds "привет_link"
+ * either way. Covers accented Latin, Cyrillic, Greek, Arabic, Hebrew,
+ * Japanese kana and Hangul; anything else (Han ideographs, Thai, ...) has no
+ * table-driven romanization and is left as it is. Input is expected in lower
+ * case.
+ */
+
+const LATIN: Record<string, string> = {
+  ß: "ss", æ: "ae", œ: "oe", ø: "o", đ: "d", ð: "d", þ: "th", ł: "l", ı: "i", ħ: "h", ŋ: "ng",
+};
+
+const CYRILLIC: Record<string, string> = {
+  а: "a", б: "b", в: "v", г: "g", д: "d", е: "e", ё: "yo", ж: "zh", з: "z", и: "i", й: "y",
+  к: "k", л: "l", м: "m", н: "n", о: "o", п: "p", р: "r", с: "s", т: "t", у: "u", ф: "f",
+  х: "kh", ц: "ts", ч: "ch", ш: "sh", щ: "shch", ъ: "", ы: "y", ь: "", э: "e", ю: "yu", я: "ya",
+  // Ukrainian, Belarusian, Serbian, Macedonian
+  є: "ye", і: "i", ї: "yi", ґ: "g", ў: "u", ђ: "dj", ј: "j", љ: "lj", њ: "nj", ћ: "c", џ: "dz", ѓ: "gj", ќ: "kj", ѕ: "dz",
+};
+
+const GREEK: Record<string, string> = {
+  α: "a", β: "v", γ: "g", δ: "d", ε: "e", ζ: "z", η: "i", θ: "th", ι: "i", κ: "k", λ: "l", μ: "m",
+  ν: "n", ξ: "x", ο: "o", π: "p", ρ: "r", σ: "s", ς: "s", τ: "t", υ: "y", φ: "f", χ: "ch", ψ: "ps", ω: "o",
+};
+
+const ARABIC: Record<string, string> = {
+  ا: "a", أ: "a", إ: "i", آ: "a", ب: "b", ت: "t", ث: "th", ج: "j", ح: "h", خ: "kh", د: "d", ذ: "dh",
+  ر: "r", ز: "z", س: "s", ش: "sh", ص: "s", ض: "d", ط: "t", ظ: "z", ع: "", غ: "gh", ف: "f", ق: "q",
+  ك: "k", ل: "l", م: "m", ن: "n", ه: "h", و: "w", ي: "y", ى: "a", ة: "a", ء: "", ؤ: "", ئ: "",
+  پ: "p", چ: "ch", ژ: "zh", گ: "g", ک: "k", ی: "y",
+};
+
+const HEBREW: Record<string, string> = {
+  א: "", ב: "b", ג: "g", ד: "d", ה: "h", ו: "v", ז: "z", ח: "ch", ט: "t", י: "y", כ: "k", ך: "k",
+  ל: "l", מ: "m", ם: "m", נ: "n", ן: "n", ס: "s", ע: "", פ: "p", ף: "f", צ: "ts", ץ: "ts", ק: "k",
+  ר: "r", ש: "sh", ת: "t",
+};
+
+// Hiragana; katakana is mapped onto it first
+const KANA: Record<string, string> = {
+  あ: "a", い: "i", う: "u", え: "e", お: "o",
+  か: "ka", き: "ki", く: "ku", け: "ke", こ: "ko", が: "ga", ぎ: "gi", ぐ: "gu", げ: "ge", ご: "go",
+  さ: "sa", し: "shi", す: "su", せ: "se", そ: "so", ざ: "za", じ: "ji", ず: "zu", ぜ: "ze", ぞ: "zo",
+  た: "ta", ち: "chi", つ: "tsu", て: "te", と: "to", だ: "da", ぢ: "ji", づ: "zu", で: "de", ど: "do",
+  な: "na", に: "ni", ぬ: "nu", ね: "ne", の: "no",
+  は: "ha", ひ: "hi", ふ: "fu", へ: "he", ほ: "ho", ば: "ba", び: "bi", ぶ: "bu", べ: "be", ぼ: "bo",
+  ぱ: "pa", ぴ: "pi", ぷ: "pu", ぺ: "pe", ぽ: "po",
+  ま: "ma", み: "mi", む: "mu", め: "me", も: "mo", や: "ya", ゆ: "yu", よ: "yo",
+  ら: "ra", り: "ri", る: "ru", れ: "re", ろ: "ro", わ: "wa", ゐ: "i", ゑ: "e", を: "o", ん: "n", ゔ: "vu",
+  ぁ: "a", ぃ: "i", ぅ: "u", ぇ: "e", ぉ: "o", ゃ: "ya", ゅ: "yu", ょ: "yo", ゎ: "wa",
+};
+
+// Small ya/yu/yo after an i-column kana form one syllable: きゃ = kya, しゃ = sha
+const YOON: Record<string, string> = { ゃ: "a", ゅ: "u", ょ: "o" };
+
+// Revised Romanization of Korean, by jamo index
+const HANGUL_INITIALS = ["g", "kk", "n", "d", "tt", "r", "m", "b", "pp", "s", "ss", "", "j", "jj", "ch", "k", "t", "p", "h"];
+const HANGUL_VOWELS = ["a", "ae", "ya", "yae", "eo", "e", "yeo", "ye", "o", "wa", "wae", "oe", "yo", "u", "wo", "we", "wi", "yu", "eu", "ui", "i"];
+const HANGUL_FINALS = ["", "k", "k", "k", "n", "n", "n", "t", "l", "k", "m", "l", "l", "l", "p", "l", "m", "p", "p", "t", "t", "ng", "t", "t", "k", "t", "p", "t"];
+
+const SCRIPT_TABLES = [LATIN, CYRILLIC, GREEK, ARABIC, HEBREW];
+
+function romanizeHangul(code: number): string {
+  const index = code - 0xac00;
+  const final = index % 28;
+  const vowel = Math.floor(index / 28) % 21;
+  const initial = Math.floor(index / (28 * 21));
+  return HANGUL_INITIALS[initial] + HANGUL_VOWELS[vowel] + HANGUL_FINALS[final];
+}
+
+/** Romanize kana, handling yoon (きゃ), the sokuon っ (doubles the next consonant) and ー (long vowel). */
+function romanizeKana(chars: string[], i: number): { text: string; consumed: number } {
+  const char = chars[i];
+  const next = chars[i + 1];
+  if (char === "っ") {
+    const following = next !== undefined ? romanizeKana(chars, i + 1) : null;
+    const consonant = following?.text.match(/^[bcdfghjkmnprstwz]/)?.[0] ?? "";
+    return following
+      ? { text: (consonant === "c" ? "t" : consonant) + following.text, consumed: 1 + following.consumed }
+      : { text: "", consumed: 1 };
+  }
+  const base = KANA[char];
+  if (next !== undefined && YOON[next] && base && base.endsWith("i") && base.length > 1) {
+    const stem = base === "shi" || base === "chi" || base === "ji" ? base.slice(0, -1) : base.slice(0, -1) + "y";
+    return { text: stem + YOON[next], consumed: 2 };
+  }
+  return { text: base ?? char, consumed: 1 };
+}
+
+/** Katakana (ァ..ヶ) to the matching hiragana, so one table serves both. */
+function katakanaToHiragana(char: string): string {
+  const code = char.charCodeAt(0);
+  return code >= 0x30a1 && code <= 0x30f6 ? String.fromCharCode(code - 0x60) : char;
+}
+
+export function transliterate(text: string): string {
+  const chars = Array.from(text.normalize("NFC")).map(katakanaToHiragana);
+  let out = "";
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const code = char.codePointAt(0)!;
+
+    if (code < 0x80) {
+      out += char;
+      continue;
+    }
+    if (code >= 0xac00 && code <= 0xd7a3) {
+      out += romanizeHangul(code);
+      continue;
+    }
+    if (KANA[char] !== undefined || char === "っ") {
+      const { text: romaji, consumed } = romanizeKana(chars, i);
+      out += romaji;
+      i += consumed - 1;
+      continue;
+    }
+    if (char === "ー") {
+      // Long vowel mark: repeat the previous vowel
+      out += out.match(/[aeiou]$/)?.[0] ?? "";
+      continue;
+    }
+
+    // Letters with accents: drop the accents (é -> e, ά -> a) and look again
+    const bare = char.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+    const mapped = SCRIPT_TABLES.find((table) => table[char] !== undefined)?.[char]
+      ?? SCRIPT_TABLES.find((table) => table[bare] !== undefined)?.[bare];
+    if (mapped !== undefined) {
+      out += mapped;
+      continue;
+    }
+    if (bare && bare.charCodeAt(0) < 0x80) {
+      out += bare;
+      continue;
+    }
+    out += char;
+  }
+  return out;
+}
@@ -1,5 +1,7 @@
 import { CONTAINER_ROLES, INTERACTIVE_ROLES } from "../shared/types.ts";
-import type { AXNode, VFSNode } from "../shared/types.ts";
+import type { AXNode, NodeStates, StableAttributes, VFSNode } from "../shared/types.ts";
+import type { NameRegistry } from "./name_registry.ts";
+import { transliterate } from "./transliterate.ts";
 
 /**
  * Maps the raw Accessibility Tree from CDP into a clean virtual filesystem.
@@ -10,23 +12,76 @@ import type { AXNode, VFSNode } from "../shared/types.ts";
 let cachedNodeMap: Map<string, AXNode> | null = null;
 let cachedTreeHash: string | null = null;
 
+// Names handed out in the attached tab, so they survive refreshes (null = none yet)
+let activeRegistry: NameRegistry | null = null;
+
+/**
+ * Use a tab's name registry for every listing from now on. Called whenever
+ * the tree is (re)fetched, with the registry of the tab it came from.
+ */
+export function setNameRegistry(registry: NameRegistry | null): void {
+  activeRegistry = registry;
+}
+
+// Romanize generated names (export TRANSLIT=1)
+let transliterateNames = false;
+
+export function setTransliteration(enabled: boolean): void {
+  transliterateNames = enabled;
+}
+
+// Separate words like whitespace does: CJK commas and full stops, middle dots
+const WORD_SEPARATORS = /[\s\u00b7\u3001\u3002\u30fb\uff0c\uff1b\uff1a]+/gu;
+
+/**
+ * Sanitize text for use as a filename. Letters and digits of any script are
+ * kept (NFC-normalized, so "é" typed either way is the same name), along with
+ * combining marks that scripts like Devanagari need; punctuation, symbols and
+ * invisible formatting characters are dropped. Capped at 40 characters.
+ */
+function sanitizeName(text: string): string {
+  let name = text.normalize("NFC").toLowerCase();
+  if (transliterateNames) name = transliterate(name);
+  const sanitized = name
+    .replace(WORD_SEPARATORS, " ")
+    .replace(/[^\p{L}\p{M}\p{N}\s_-]/gu, "")
+    .trim()
+    .replace(/\s+/g, "_");
+  return Array.from(sanitized).slice(0, 40).join("");
+}
+
+/** Two names are the same element name if they are equal once NFC-normalized and romanized. */
+export function namesMatch(a: string, b: string): boolean {
+  return a === b || transliterate(a.normalize("NFC")) === transliterate(b.normalize("NFC"));
+}
+
+/**
+ * DOM IDs that a framework made up (":r1:", "ember1234", "yui_3_5_1_1_1042")
+ * change between page loads, so they make poor names.
+ */
+function isGeneratedId(id: string): boolean {
+  return id.includes(":") || /\d{3,}/.test(id);
+}
+
+/** Stable DOM signals in order of preference: data-testid, then a hand-written id, then name="". */
+function stableAttributeName(attributes: StableAttributes | undefined): string {
+  if (!attributes) return "";
+  for (const candidate of [attributes.testId, attributes.id && !isGeneratedId(attributes.id) ? attributes.id : "", attributes.name]) {
+    const sanitized = sanitizeName(candidate ?? "");
+    if (sanitized) return sanitized;
+  }
+  return "";
+}
+
 /**
  * Generates a human-readable filename from an AX node.
- * Uses the heuristic naming algorithm from the spec.
+ * Prefers what stays put when the page re-renders: an explicit aria-label,
+ * then the accessible name, then data-testid / id / name attributes, then the
+ * description. Unlabelled nodes are named by role alone; siblings that share
+ * a name are told apart by position when the listing is de-duplicated.
  */
-export function generateNodeName(node: AXNode): string {
+export function generateNodeName(node: AXNode, attributes?: StableAttributes): string {
   const role = node.role?.value ?? "unknown";
-  const name = node.name?.value ?? "";
-  const description = node.description?.value ?? "";
-
-  // Sanitize text for use as a filename
-  const sanitize = (text: string): string =>
-    text
-      .toLowerCase()
-      .replace(/[^a-z0-9\s_-]/g, "")
-      .trim()
-      .replace(/\s+/g, "_")
-      .slice(0, 40);
 
   // Role-specific suffixes
   const roleSuffix: Record<string, string> = {
@@ -45,28 +100,25 @@ export function generateNodeName(node: AXNode): string {
     image: "_img",
     heading: "_heading",
   };
+  const suffix = roleSuffix[role] ?? "";
 
-  // If we have a human-readable name, use it
-  if (name) {
-    const sanitized = sanitize(name);
-    if (sanitized) {
-      const suffix = roleSuffix[role] ?? "";
-      return sanitized + suffix;
-    }
-  }
+  const labels = [
+    attributes?.ariaLabel ?? "",
+    node.name?.value ?? "",
+  ].map(sanitizeName);
+  const label = labels.find(Boolean) || stableAttributeName(attributes) || sanitizeName(node.description?.value ?? "");
+  if (label) return label + suffix;
 
-  // Fall back to description
-  if (description) {
-    const sanitized = sanitize(description);
-    if (sanitized) {
-      const suffix = roleSuffix[role] ?? "";
-      return sanitized + suffix;
-    }
-  }
+  // Fall back to the role (main, navigation, paragraph, button_btn)
+  return `${role}${suffix}`;
+}
 
-  // Fall back to role + node ID
-  const suffix = roleSuffix[role] ?? "";
-  return `${role}${suffix || "_" + node.nodeId}`;
+/**
+ * The name a node is listed under: the one it was last given in this tab,
+ * or a freshly generated one.
+ */
+export function nodeName(node: AXNode): string {
+  return activeRegistry?.lookup(node)?.name ?? generateNodeName(node, activeRegistry?.attributesOf(node));
 }
 
 /**
@@ -98,6 +150,36 @@ export function buildNodeMap(axNodes: AXNode[]): Map<string, AXNode> {
   return map;
 }
 
+/**
+ * Apply changed nodes to a node map in place. Each replaces the node with
+ * its ID (or is added); children an updated node no longer lists are
+ * dropped with their subtrees, unless another updated node took them in.
+ * Returns how many nodes were patched in and how many dropped.
+ */
+export function patchNodeMap(map: Map<string, AXNode>, nodes: AXNode[]): { patched: number; removed: number } {
+  const orphans: string[] = [];
+  const adopted = new Set<string>();
+  for (const node of nodes) {
+    const childIds = new Set(node.childIds ?? []);
+    for (const id of map.get(node.nodeId)?.childIds ?? []) {
+      if (!childIds.has(id)) orphans.push(id);
+    }
+    for (const id of childIds) adopted.add(id);
+    map.set(node.nodeId, node);
+  }
+
+  let removed = 0;
+  const drop = (id: string): void => {
+    const node = map.get(id);
+    if (!node || adopted.has(id)) return;
+    map.delete(id);
+    removed++;
+    for (const childId of node.childIds ?? []) drop(childId);
+  };
+  orphans.forEach(drop);
+  return { patched: nodes.length, removed };
+}
+
 /**
  * Find the root node of the AX tree.
  */
@@ -142,10 +224,10 @@ export function getChildVFSNodes(
   nodeMap: Map<string, AXNode>
 ): VFSNode[] {
   const results: VFSNode[] = [];
-  const seenNames = new Map<string, number>();
   const visited = new Set<string>();
 
-  collectChildren(parentId, nodeMap, results, seenNames, visited);
+  collectChildren(parentId, nodeMap, results, visited);
+  assignUniqueNames(results, nodeMap);
 
   return results;
 }
@@ -154,7 +236,6 @@ function collectChildren(
   parentId: string,
   nodeMap: Map<string, AXNode>,
   results: VFSNode[],
-  seenNames: Map<string, number>,
   visited: Set<string>
 ): void {
   if (visited.has(parentId)) return;
@@ -170,16 +251,13 @@ function collectChildren(
     // If this node is a meaningless wrapper, recurse into its children instead
     if (shouldFlattenNode(child)) {
       if (child.childIds && child.childIds.length > 0) {
-        collectChildren(childId, nodeMap, results, seenNames, visited);
+        collectChildren(childId, nodeMap, results, visited);
       }
       continue;
     }
 
     const vfsNode = axNodeToVFSNode(child);
-    if (vfsNode) {
-      deduplicateName(vfsNode, seenNames);
-      results.push(vfsNode);
-    }
+    if (vfsNode) results.push(vfsNode);
   }
 }
 
@@ -193,26 +271,160 @@ function axNodeToVFSNode(node: AXNode): VFSNode | null {
   return {
     axNodeId: node.nodeId,
     backendDOMNodeId: node.backendDOMNodeId,
-    name: generateNodeName(node),
+    name: generateNodeName(node, activeRegistry?.attributesOf(node)),
     role,
     value: node.value?.value,
     isDirectory: isContainerNode(node),
+    sessionId: node.sessionId,
+    states: nodeStates(node),
   };
 }
 
+/** The states an AX node reports (see NodeStates), or undefined when it reports none. */
+export function nodeStates(node: AXNode): NodeStates | undefined {
+  const states: NodeStates = {};
+  let any = false;
+  for (const property of node.properties ?? []) {
+    const value = property.value?.value;
+    switch (property.name) {
+      case "disabled":
+      case "expanded":
+      case "selected":
+      case "required":
+      case "focused":
+        states[property.name] = value === true || value === "true";
+        break;
+      case "checked":
+        states.checked = value === "mixed" ? "mixed" : value === true || value === "true" ? "true" : "false";
+        break;
+      case "invalid":
+        if (value && value !== "false") states.invalid = String(value);
+        break;
+      case "level":
+        if (typeof value === "number") states.level = value;
+        break;
+      default:
+        continue;
+    }
+    any = true;
+  }
+  return any ? states : undefined;
+}
+
 /**
- * Ensure unique names by appending _2, _3, etc. for duplicates.
+ * Every word a state filter can name (find --state WORD, ls --WORD). Only
+ * true states count, except that checkboxes and disclosures have a word for
+ * each side: unchecked and collapsed.
  */
-function deduplicateName(
-  node: VFSNode,
-  seenNames: Map<string, number>
-): void {
-  const baseName = node.name;
-  const count = seenNames.get(baseName) ?? 0;
-  if (count > 0) {
-    node.name = `${baseName}_${count + 1}`;
+export const STATE_WORDS = [
+  "disabled", "checked", "unchecked", "mixed", "expanded", "collapsed",
+  "selected", "required", "invalid", "focused",
+];
+
+/** Does a node have every state named (words from STATE_WORDS; "invalid" covers invalid=grammar too)? */
+export function hasStates(node: VFSNode, words: string[]): boolean {
+  const own = stateWords(node.states);
+  return words.every((word) => own.some((w) => w === word || w.startsWith(`${word}=`)));
+}
+
+/** A node's states as the compact words ls -l shows (unchecked, collapsed, level=2, ...). */
+export function stateWords(states: NodeStates | undefined): string[] {
+  if (!states) return [];
+  const words: string[] = [];
+  if (states.disabled) words.push("disabled");
+  if (states.checked) words.push(states.checked === "true" ? "checked" : states.checked === "false" ? "unchecked" : "mixed");
+  if (states.expanded !== undefined) words.push(states.expanded ? "expanded" : "collapsed");
+  if (states.selected) words.push("selected");
+  if (states.required) words.push("required");
+  if (states.invalid) words.push(states.invalid === "true" ? "invalid" : `invalid=${states.invalid}`);
+  if (states.focused) words.push("focused");
+  if (states.level !== undefined) words.push(`level=${states.level}`);
+  return words;
+}
+
+/**
+ * Make sibling names unique. A node that was listed before keeps the name it
+ * got then (as long as its label is unchanged), so re-renders that add or
+ * reorder siblings don't rename it. The others keep their generated name if
+ * it is free, else get a stable DOM attribute (edit_btn_row-42) or the next
+ * free _2, _3, ... suffix.
+ */
+function assignUniqueNames(nodes: VFSNode[], nodeMap: Map<string, AXNode>): void {
+  const taken = new Set<string>();
+  const pending: Array<{ vfsNode: VFSNode; axNode: AXNode | undefined }> = [];
+
+  for (const vfsNode of nodes) {
+    const axNode = nodeMap.get(vfsNode.axNodeId);
+    const registered = axNode ? activeRegistry?.lookup(axNode) : undefined;
+    if (registered && registered.base === vfsNode.name && !taken.has(registered.name)) {
+      vfsNode.name = registered.name;
+      taken.add(vfsNode.name);
+    } else {
+      pending.push({ vfsNode, axNode });
+    }
+  }
+
+  for (const { vfsNode, axNode } of pending) {
+    const base = vfsNode.name;
+    if (taken.has(base)) {
+      const stable = axNode ? stableAttributeName(activeRegistry?.attributesOf(axNode)) : "";
+      if (stable && !base.includes(stable) && !taken.has(`${base}_${stable}`)) {
+        vfsNode.name = `${base}_${stable}`;
+      } else {
+        let n = 2;
+        while (taken.has(`${base}_${n}`)) n++;
+        vfsNode.name = `${base}_${n}`;
+      }
+    }
+    taken.add(vfsNode.name);
+    if (axNode) activeRegistry?.remember(axNode, base, vfsNode.name);
   }
-  seenNames.set(baseName, count + 1);
+}
+
+/**
+ * The chain of VFS nodes from the root to the element with a given backend
+ * DOM node ID, named as listings name them (root excluded, element last).
+ * This gives a path to a DOM node found some other way, such as by a CSS
+ * selector or an XPath. Only the tab's own document is searched, not
+ * out-of-process iframes. Wrappers that listings flatten away are skipped,
+ * except the element itself. Null if the element has no AX node or isn't
+ * reachable from the root.
+ */
+export function locateByBackendId(
+  backendDOMNodeId: number,
+  nodeMap: Map<string, AXNode>
+): VFSNode[] | null {
+  let target: AXNode | undefined;
+  const parents = new Map<string, string>();
+  for (const node of nodeMap.values()) {
+    if (node.backendDOMNodeId === backendDOMNodeId && !node.sessionId && (!target || target.ignored)) target = node;
+    for (const childId of node.childIds ?? []) parents.set(childId, node.nodeId);
+  }
+  const root = findRootNode(nodeMap);
+  if (!target || !root) return null;
+
+  // Ancestors from the element up to the root
+  const lineage: AXNode[] = [];
+  const seen = new Set<string>();
+  for (let node: AXNode | undefined = target; node && node.nodeId !== root.nodeId; node = nodeMap.get(parents.get(node.nodeId) ?? "")) {
+    if (seen.has(node.nodeId)) return null;
+    seen.add(node.nodeId);
+    lineage.unshift(node);
+  }
+  if (lineage.length > 0 && parents.get(lineage[0].nodeId) !== root.nodeId) return null;
+
+  const chain: VFSNode[] = [];
+  let parentId = root.nodeId;
+  for (const node of lineage) {
+    const isTarget = node === target;
+    if (shouldFlattenNode(node) && !isTarget) continue;
+    const listed = getChildVFSNodes(parentId, nodeMap).find((c) => c.axNodeId === node.nodeId);
+    const vfsNode = listed ?? axNodeToVFSNode(node);
+    if (!vfsNode) return null;
+    chain.push(vfsNode);
+    parentId = node.nodeId;
+  }
+  return chain;
 }
 
 /**
@@ -228,7 +440,9 @@ export function resolveNodeFromCwd(
 }
 
 /**
- * Find a child VFS node by its generated name.
+ * Find a child VFS node by its generated name. An exact match wins; failing
+ * that, native and romanized spellings match each other ("privet_link" finds
+ * "привет_link", and the other way round when names are transliterated).
  */
 export function findChildByName(
   parentId: string,
@@ -236,7 +450,7 @@ export function findChildByName(
   nodeMap: Map<string, AXNode>
 ): VFSNode | null {
   const children = getChildVFSNodes(parentId, nodeMap);
-  return children.find((c) => c.name === name) ?? null;
+  return children.find((c) => c.name === name) ?? children.find((c) => namesMatch(c.name, name)) ?? null;
 }
 
 /**
@@ -263,6 +477,91 @@ export function resolveByPath(
   return resolved;
 }
 
+/** True if a path uses wildcards: *, ?, [...] (and so **). */
+export function hasGlob(path: string): boolean {
+  return /[*?[]/.test(path);
+}
+
+/**
+ * Compile one glob segment to a RegExp over a whole name: * is any run of
+ * characters, ? one character, [abc] / [a-z] a set and [!abc] / [^abc] its
+ * complement. Everything else matches itself.
+ */
+export function globSegmentToRegExp(segment: string): RegExp {
+  let source = "";
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i];
+    if (char === "*") {
+      source += ".*";
+    } else if (char === "?") {
+      source += ".";
+    } else if (char === "[" && segment.indexOf("]", i + 2) !== -1) {
+      const end = segment.indexOf("]", i + 2);
+      let set = segment.slice(i + 1, end);
+      const negate = set[0] === "!" || set[0] === "^";
+      if (negate) set = set.slice(1);
+      source += `[${negate ? "^" : ""}${set.replace(/[\\\]^]/g, "\\$&")}]`;
+      i = end;
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Expand a path that may contain wildcards (see hasGlob) against the tree
+ * below `startId`. `**` matches any number of directory levels, including
+ * none. A trailing slash keeps only directories. Returns every match with its
+ * path relative to `startId`, in tree order; a path without wildcards
+ * resolves like resolveByPath, to at most one match.
+ */
+export function expandGlob(
+  startId: string,
+  pattern: string,
+  nodeMap: Map<string, AXNode>
+): Array<{ path: string; node: VFSNode }> {
+  const segments = pattern.split("/").filter(Boolean);
+  const directoriesOnly = pattern.endsWith("/");
+  if (!hasGlob(pattern)) {
+    const node = resolveByPath(startId, pattern, nodeMap);
+    return node && (!directoriesOnly || node.isDirectory) ? [{ path: segments.join("/"), node }] : [];
+  }
+
+  const matchers = segments.map((s) => (s === "**" ? null : globSegmentToRegExp(s)));
+  const results: Array<{ path: string; node: VFSNode }> = [];
+  const seen = new Set<string>();
+
+  const add = (path: string, node: VFSNode): void => {
+    if ((directoriesOnly && !node.isDirectory) || seen.has(path)) return;
+    seen.add(path);
+    results.push({ path, node });
+  };
+
+  const walk = (parentId: string, index: number, prefix: string): void => {
+    const matcher = matchers[index];
+    const last = index === matchers.length - 1;
+    // ** can also match no directories at all
+    if (matcher === null && !last) walk(parentId, index + 1, prefix);
+    for (const child of getChildVFSNodes(parentId, nodeMap)) {
+      const path = prefix + child.name;
+      if (matcher === null) {
+        if (last) add(path, child);
+        if (child.isDirectory) walk(child.axNodeId, index, `${path}/`);
+      } else if (matcher.test(child.name)) {
+        if (last) {
+          add(path, child);
+        } else {
+          walk(child.axNodeId, index + 1, `${path}/`);
+        }
+      }
+    }
+  };
+
+  if (matchers.length > 0) walk(startId, 0, "");
+  return results;
+}
+
 /**
  * Update the cached node map. Returns the new map.
  */
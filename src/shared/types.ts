@@ -8,11 +8,21 @@ export interface StdinMessage {
 export interface StdoutMessage {
   type: "STDOUT";
   output: string;
+  status?: number;   // Exit status when this ends a command (absent for banners)
 }
 
+// Sent instead of STDOUT when a command wrote errors; any stdout comes first
 export interface StderrMessage {
   type: "STDERR";
+  output: string;
   error: string;
+  status: number;
+}
+
+// Sent to the panel when it connects, so arrow-key recall includes earlier sessions
+export interface HistoryMessage {
+  type: "HISTORY";
+  commands: string[];   // Oldest first, from every origin
 }
 
 export interface ReadyMessage {
@@ -28,10 +38,19 @@ export interface CompleteMessage {
 export interface CompleteResponseMessage {
   type: "COMPLETE_RESPONSE";
   matches: string[];
+  hints?: string[];   // Parallel to matches: a tab's title, what a flag does ("" for none)
   partial: string;
 }
 
-export type ShellMessage = StdinMessage | StdoutMessage | StderrMessage | ReadyMessage | CompleteMessage | CompleteResponseMessage;
+export type ShellMessage = StdinMessage | StdoutMessage | StderrMessage | HistoryMessage | ReadyMessage | CompleteMessage | CompleteResponseMessage;
+
+// ---- Command Results ----
+
+export interface CommandResult {
+  stdout: string;
+  stderr: string;
+  status: number;    // 0 = success, like a process exit code
+}
 
 // ---- Shell State ----
 
@@ -44,12 +63,19 @@ export interface ShellState {
   //   ["windows"]                     → window listing
   //   ["windows", "1"]               → window 1's tabs
   //   ["windows", "1", "123", "nav"] → inside tab 123 via window 1, at /nav
+  //   ["scripts"]                     → saved scripts (files only, no DOM)
+  //   ["tmp"]                         → scratch files written by > and >>
   path: string[];
 
   // AX node IDs for the DOM portion of path (parallel to segments after tab entry).
   // If path = ["tabs", "123", "main", "form"], axNodeIds = [rootId, mainId, formId]
   axNodeIds: string[];
 
+  // In the raw DOM view (path continues with "@dom" after the tab entry): backend
+  // DOM node IDs parallel to the segments from "@dom" on, the document first.
+  // axNodeIds then holds just the AX root. Unused outside the DOM view.
+  domNodeIds: number[];
+
   // Which tab's AX tree is currently cached in nodeMap (null = none)
   activeTabId: number | null;
 
@@ -65,9 +91,23 @@ export interface VFSNode {
   role: string;             // Original AX role
   value?: string;           // Text content / value
   isDirectory: boolean;     // Container vs leaf
+  sessionId?: string;       // Out-of-process iframe session the node lives in (unset: the tab's)
+  states?: NodeStates;      // AX states, when the node reports any
   children?: VFSNode[];
 }
 
+// AX states of an element, from AXNode.properties (ls -l flags, --state filters)
+export interface NodeStates {
+  disabled?: boolean;
+  checked?: "true" | "false" | "mixed";
+  expanded?: boolean;
+  selected?: boolean;
+  required?: boolean;
+  invalid?: string;         // "true", "grammar" or "spelling" (not set when valid)
+  focused?: boolean;
+  level?: number;           // Heading level, or nesting level of tree items and lists
+}
+
 // ---- AX Tree types from CDP ----
 
 export interface AXNode {
@@ -80,6 +120,7 @@ export interface AXNode {
   childIds?: string[];
   properties?: AXProperty[];
   ignored?: boolean;
+  sessionId?: string;       // Set by DOMShell: CDP session of the out-of-process iframe the node lives in
 }
 
 export interface AXProperty {
@@ -87,6 +128,85 @@ export interface AXProperty {
   value: { type: string; value: any };
 }
 
+// ---- DOM tree types from CDP ----
+
+export interface DOMNode {
+  backendNodeId: number;
+  nodeType?: number;
+  nodeName?: string;
+  localName?: string;
+  nodeValue?: string;
+  attributes?: string[];   // Flat [name, value, name, value, ...]
+  children?: DOMNode[];
+  shadowRoots?: DOMNode[];
+  shadowRootType?: "open" | "closed" | "user-agent";
+  contentDocument?: DOMNode;
+}
+
+// An entry of the raw DOM view (~/tabs/<id>/@dom/): an element, or the
+// document of an iframe or a shadow root below one
+export interface DOMEntry {
+  name: string;             // tag#id or tag.class.class, de-duplicated among siblings
+  tag: string;              // Tag name, or "#document" / "#shadow-root"
+  isDirectory: boolean;     // Has child elements to cd into
+  node: DOMNode;
+}
+
+// An entry of an index directory (~/tabs/<id>/@links/, ...): a symlink to
+// an element at its real path
+export interface IndexEntry {
+  name: string;             // The element's name, de-duplicated across the index
+  chain: VFSNode[];         // Nodes from the tab root down to the element (element last)
+  level: number;            // Heading level for @headings (outline depth), else 1
+}
+
+// DOM attributes that name an element more durably than its text
+export interface StableAttributes {
+  id?: string;
+  name?: string;        // Form controls: <input name="email">
+  testId?: string;      // data-testid
+  ariaLabel?: string;
+}
+
+// A shadow root found by the document scan, keyed by its host element
+export interface ShadowRootInfo {
+  mode: "open" | "closed" | "user-agent";
+  hostTag: string;      // Host element's tag, e.g. "my-button"
+  childCount: number;   // Top-level nodes of the shadow tree
+}
+
+// An element's border box in CSS pixels, relative to its frame's viewport
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  inViewport: boolean;  // Some of the box is on screen (without scrolling)
+}
+
+// Nodes a CSS selector or XPath matched. Only counted, with no IDs, when
+// there are more than the caller's limit
+export interface SelectorMatches {
+  count: number;
+  backendNodeIds: number[];  // In document order
+}
+
+// Whether a user can see an element: hidden (not rendered, transparent,
+// zero-size or visually hidden), or rendered in or out of the viewport
+export type Visibility = "in-viewport" | "offscreen" | "hidden";
+
+// An event listener registered on an element (DOMDebugger.getEventListeners)
+export interface EventListenerInfo {
+  type: string;         // Event type, e.g. "click"
+  useCapture: boolean;
+  passive: boolean;
+  once: boolean;
+  scriptId: string;
+  lineNumber: number;   // 0-based, in the script
+  columnNumber: number;
+  source?: string;      // The handler's source text
+}
+
 // Container roles — these become "directories"
 export const CONTAINER_ROLES = new Set([
   "group",
@@ -5,6 +5,9 @@ import "@xterm/xterm/css/xterm.css";
 
 const PROMPT = "\x1b[1;32mdom\x1b[0m@\x1b[1;34mshell\x1b[0m:\x1b[1;33m$\x1b[0m ";
 
+// Keywords that can precede a command in the same statement ("do cat x", "if test -e y")
+const SCRIPT_KEYWORDS = new Set(["do", "then", "else", "if", "elif", "while"]);
+
 export default function Terminal() {
   const termRef = useRef<HTMLDivElement>(null);
   const xtermRef = useRef<XTerminal | null>(null);
@@ -65,12 +68,20 @@ export default function Terminal() {
     // Handle messages from the background
     port.onMessage.addListener((msg) => {
       if (msg.type === "STDOUT" || msg.type === "STDERR") {
-        if (msg.output || msg.error) {
-          term.write((msg.output ?? msg.error) + "\r\n");
+        if (msg.output) {
+          term.write(msg.output + "\r\n");
+        }
+        // STDERR carries the error text after whatever the command printed first
+        if (msg.type === "STDERR" && msg.error) {
+          term.write(msg.error + "\r\n");
         }
         writePrompt();
+      } else if (msg.type === "HISTORY") {
+        // The kernel keeps history across panel sessions; seed arrow-key recall with it
+        historyRef.current = [...msg.commands, ...historyRef.current];
+        historyIndex.current = historyRef.current.length;
       } else if (msg.type === "COMPLETE_RESPONSE") {
-        handleCompletionResponse(term, msg.matches, msg.partial);
+        handleCompletionResponse(term, msg.matches, msg.partial, msg.hints);
       }
     });
 
@@ -158,7 +169,7 @@ export default function Terminal() {
     if (completionPending.current) return;
 
     const line = lineBuffer.current;
-    const parts = line.split(/\s+/);
+    const parts = currentSegmentWords(line);
 
     let command = "";
     let partial = "";
@@ -180,54 +191,68 @@ export default function Terminal() {
   function handleCompletionResponse(
     term: XTerminal,
     matches: string[],
-    partial: string
+    partial: string,
+    hints: string[] = []
   ) {
     completionPending.current = false;
 
     if (matches.length === 0) return;
 
     const line = lineBuffer.current;
-    const parts = line.split(/\s+/);
-    const isCommandCompletion = parts.length <= 1;
+    const isCommandCompletion = currentSegmentWords(line).length <= 1;
+    // Everything before the word being completed (earlier pipe stages included)
+    const base = line.slice(0, line.length - partial.length);
 
     if (matches.length === 1) {
       // Single match — auto-complete
       const completion = matches[0];
-      const suffix = completion.slice(partial.length);
+      // A tab matched by title ("~/tabs/git" -> "~/tabs/42/") doesn't extend
+      // the partial, so erase it and write the whole completion
+      const suffix = completion.startsWith(partial)
+        ? completion.slice(partial.length)
+        : "\b \b".repeat(partial.length) + completion;
 
       if (isCommandCompletion) {
         // Replace the whole partial with the match + trailing space
-        lineBuffer.current = completion + " ";
+        lineBuffer.current = base + completion + " ";
         term.write(suffix + " ");
       } else {
         // Replace just the last word
-        lineBuffer.current = parts.slice(0, -1).join(" ") + " " + completion;
+        lineBuffer.current = base + completion;
         term.write(suffix);
       }
     } else {
       // Multiple matches — find common prefix for partial completion
       const commonPrefix = findCommonPrefix(matches);
-      const extraChars = commonPrefix.slice(partial.length);
+      const extraChars = commonPrefix.startsWith(partial) ? commonPrefix.slice(partial.length) : "";
 
       if (extraChars.length > 0) {
         // Can extend the partial with common prefix
-        if (isCommandCompletion) {
-          lineBuffer.current = commonPrefix;
-        } else {
-          lineBuffer.current = parts.slice(0, -1).join(" ") + " " + commonPrefix;
-        }
+        lineBuffer.current = base + commonPrefix;
         term.write(extraChars);
       }
 
       // Show all options below
       term.write("\r\n");
-      const display = matches.map((m) => `  ${m}`).join("\r\n");
+      const width = Math.max(...matches.map((m) => m.length));
+      const display = matches
+        .map((m, i) => (hints[i] ? `  ${m.padEnd(width)}  \x1b[2m${hints[i]}\x1b[0m` : `  ${m}`))
+        .join("\r\n");
       term.write(display + "\r\n");
       writePrompt();
       term.write(lineBuffer.current);
     }
   }
 
+  // Words of the command being edited, so "ls | so" and "for x in a; do ca"
+  // complete "so" / "ca" as commands
+  function currentSegmentWords(line: string): string[] {
+    const start = Math.max(line.lastIndexOf("|"), line.lastIndexOf(";")) + 1;
+    const words = line.slice(start).trimStart().split(/\s+/);
+    while (words.length > 1 && SCRIPT_KEYWORDS.has(words[0])) words.shift();
+    return words;
+  }
+
   function findCommonPrefix(strings: string[]): string {
     if (strings.length === 0) return "";
     let prefix = strings[0];